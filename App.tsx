@@ -1,35 +1,124 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { RealWordGame, PhotoGame, FillBlankGame, CompleteTextGame } from './components/Activities';
-import { studyPlan, realWords, transitionWordsList, photoWords, WordDef } from './data';
-import { getWordDetails } from './services/geminiService';
-
-type View = 'dashboard' | 'realword' | 'photo' | 'spelling' | 'completetext' | 'flashcards' | 'plan';
+import { MockExam } from './components/MockExam';
+import { ReadAloudGame } from './components/ReadAloudGame';
+import { ListenTypeGame } from './components/ListenTypeGame';
+import { InteractiveReadingGame } from './components/InteractiveReadingGame';
+import { WritingSampleGame } from './components/WritingSampleGame';
+import { RewriteTool } from './components/RewriteTool';
+import { SpellingDrill } from './components/SpellingDrill';
+import { AnalyticsView } from './components/AnalyticsView';
+import { ProfileBackup, readProfileFile } from './components/ProfileBackup';
+import { ProfileSecurity } from './components/ProfileSecurity';
+import { DeckImport } from './components/DeckImport';
+import { DeckExport, ExportableDeck } from './components/DeckExport';
+import { PinPrompt } from './components/PinPrompt';
+import { StudyPlanView, PlanSetup, PlanTaskList } from './components/StudyPlan';
+import { ChallengePanel } from './components/ChallengePanel';
+import { OnAttempt } from './types';
+import { realWords, transitionWordsList, photoWords, WordDef } from './data';
+import { fetchWordDetails } from './services/wordDetailsCache';
+import { AiProviderId, aiProviders, getAiProviderId, setAiProviderId } from './services/aiProvider';
+import { AiServiceError, asAiError } from './services/aiErrors';
+import { WordDetails } from './services/aiSchemas';
+import { AttemptRecord, appendAttempt, queryAttempts, summarizeAttempts, daysAgo } from './services/attemptHistory';
+import { ProfileData, ProfileField, ProfileSummary, listProfiles, getCurrentProfile, setCurrentProfile, deleteProfile, loadProfile, saveProfileField, importProfile } from './services/profileStorage';
+import { CustomDeck } from './services/deckImport';
+import { AbilityRatings } from './services/adaptiveRating';
+import { PlanSettings, PlanTask, buildStudyPlan, planDayNumber, planLength, daysBetween, isPlanDayDone, isTaskDone } from './services/studyPlanner';
+import { Challenge } from './services/challenge';
+import { isProfileProtected, verifyProfilePin, removeProfilePin, hasAdminPin, resetProfilePin } from './services/profileLock';
+import { isSyncEnabled, listRemoteProfiles, pullProfilePin, startSync, forgetSyncState } from './services/syncService';
+import { SpellingAnalysis, SpellingStats, recordSpelling } from './services/spellingAnalyzer';
+import { SrsDeck, ReviewGrade, createCard, gradeCard, previewInterval, formatInterval, isLearned, isHardCard, toDayKey, getStudyQueue, getDueWords, getHardWords } from './services/srsService';
+
+type View = 'dashboard' | 'realword' | 'photo' | 'spelling' | 'completetext' | 'flashcards' | 'plan' | 'exam' | 'readaloud' | 'listentype' | 'speakphoto' | 'interactivereading' | 'writingsample' | 'rewrite' | 'spellingdrill' | 'analytics' | 'backup' | 'security';
 
 // --- Standalone Flashcards Component ---
+const gradeButtons: { grade: ReviewGrade, label: string, className: string }[] = [
+    { grade: 'again', label: 'Again', className: 'bg-red-100 text-red-600 border-red-200 hover:bg-red-200' },
+    { grade: 'hard', label: 'Hard', className: 'bg-orange-100 text-orange-600 border-orange-200 hover:bg-orange-200' },
+    { grade: 'good', label: 'Good', className: 'bg-green-100 text-green-700 border-green-200 hover:bg-green-200' },
+    { grade: 'easy', label: 'Easy', className: 'bg-blue-100 text-det-blue border-blue-200 hover:bg-blue-200' }
+];
+
+// 'mywords' holds the words the learner saved from the Rewrite Tool; 'custom:<id>' an imported deck
+type Category = 'general' | 'transitions' | 'photo' | 'mywords' | `custom:${string}`;
+
+const categoryLabels: Record<string, string> = {
+    general: 'General Vocabulary',
+    transitions: 'Transition Words',
+    photo: 'Photo Description',
+    mywords: 'My Words'
+};
+
+const customCategory = (deck: CustomDeck): Category => `custom:${deck.id}`;
+
+const findCustomDeck = (category: Category, customDecks: CustomDeck[]) =>
+    customDecks.find(deck => customCategory(deck) === category);
+
+const getCategoryLabel = (category: Category, customDecks: CustomDeck[]) =>
+    categoryLabels[category] || findCustomDeck(category, customDecks)?.name || category;
+
+const getCategoryDeck = (category: Category, myWords: WordDef[], customDecks: CustomDeck[]): WordDef[] => {
+    if (category === 'general') return realWords;
+    if (category === 'transitions') return transitionWordsList;
+    if (category === 'mywords') return myWords;
+    if (category === 'photo') return photoWords;
+    return findCustomDeck(category, customDecks)?.words || [];
+};
+
+const allDecks: WordDef[] = [...realWords, ...transitionWordsList, ...photoWords];
+
 const FlashcardsActivity = ({ 
-    knownWords, 
-    onMarkKnown, 
-    onResetCategory 
+    srsDeck, 
+    myWords,
+    customDecks,
+    onGrade, 
+    onResetCategory,
+    onSaveDeck,
+    onDeleteDeck,
+    onAttempt,
+    initialCategory
 }: { 
-    knownWords: string[], 
-    onMarkKnown: (word: string) => void, 
-    onResetCategory: (category: 'general' | 'transitions' | 'photo') => void 
+    srsDeck: SrsDeck, 
+    myWords: WordDef[],
+    customDecks: CustomDeck[],
+    onGrade: (word: string, grade: ReviewGrade) => void, 
+    onResetCategory: (category: Category) => void,
+    onSaveDeck: (deck: CustomDeck) => void,
+    onDeleteDeck: (deckId: string) => void,
+    onAttempt?: OnAttempt,
+    initialCategory?: 'due' | 'hard' // Opens a review queue directly (study plan tasks)
 }) => {
-    const [category, setCategory] = useState<'general' | 'transitions' | 'photo' | null>(null);
+    // 'due' and 'hard' are cross-deck review queues; 'import' and 'export' show the deck tools
+    const [category, setCategory] = useState<Category | 'due' | 'hard' | 'import' | 'export' | null>(initialCategory || null);
     const [index, setIndex] = useState(0);
     const [flipped, setFlipped] = useState(false);
-    const [cardDetails, setCardDetails] = useState<{translation: string, example: string} | null>(null);
+    const [cardDetails, setCardDetails] = useState<WordDetails | null>(null);
+    const [detailsError, setDetailsError] = useState<AiServiceError | null>(null);
     const [loading, setLoading] = useState(false);
     const [isDeckFinished, setIsDeckFinished] = useState(false);
+    const shownAtRef = useRef(Date.now());
     
-    // Select the deck based on category and filter known words
+    // Select the deck based on category, then keep only new or due words
+    // Saved and imported words can also be in a built-in deck; they share one schedule
+    const extraWords = [...myWords, ...customDecks.flatMap(deck => deck.words)];
+    const everyWord = [...allDecks];
+    extraWords.forEach(w => { if (!everyWord.some(d => d.word === w.word)) everyWord.push(w); });
     let fullDeck: WordDef[] = [];
-    if (category === 'general') fullDeck = realWords;
-    if (category === 'transitions') fullDeck = transitionWordsList;
-    if (category === 'photo') fullDeck = photoWords;
-
-    // Filter out words that are already known
-    const deck = fullDeck.filter(w => !knownWords.includes(w.word));
+    const isReviewQueue = category === 'due' || category === 'hard';
+    if (isReviewQueue) fullDeck = everyWord.filter(w => srsDeck[w.word]);
+    else if (category && category !== 'import' && category !== 'export') fullDeck = getCategoryDeck(category, myWords, customDecks);
+
+    const queue = category === 'due'
+        ? getDueWords(fullDeck.map(w => w.word), srsDeck)
+        : category === 'hard'
+            ? getHardWords(fullDeck.map(w => w.word), srsDeck)
+            : getStudyQueue(fullDeck.map(w => w.word), srsDeck);
+    const deck = fullDeck.filter(w => queue.includes(w.word));
+    const dueCount = getDueWords(everyWord.map(w => w.word), srsDeck).length;
+    const hardCount = getHardWords(everyWord.map(w => w.word), srsDeck).length;
 
     // Reset local state when category changes
     useEffect(() => {
@@ -41,32 +130,38 @@ const FlashcardsActivity = ({
 
     // Handle fetching details or detecting end of deck
     useEffect(() => {
-        if (!category) return;
+        if (!category || category === 'import' || category === 'export') return;
         
         // Check if finished
         if (deck.length === 0) {
             // Only finish if there were words originally (avoid flicker on empty category)
-            if (fullDeck.length > 0) setIsDeckFinished(true);
+            if (fullDeck.length > 0 || isReviewQueue) setIsDeckFinished(true);
             return;
         }
 
         const fetchDetails = async () => {
             setLoading(true);
             setCardDetails(null);
+            setDetailsError(null);
             
             // Safe index check. If index is out of bounds (e.g. word removed), fallback to 0
             const currentWord = deck[index] || deck[0];
             if (!currentWord) return;
-
-            const details = await getWordDetails(currentWord.word);
-            setCardDetails(details);
+            shownAtRef.current = Date.now();
+
+            try {
+                const details = await fetchWordDetails(currentWord.word);
+                setCardDetails(details);
+            } catch (e) {
+                setDetailsError(asAiError(e, 'wordDetails'));
+            }
             setLoading(false);
         };
         fetchDetails();
     }, [index, category, deck.length, fullDeck.length]); 
 
     const handleReset = () => {
-        if (category) {
+        if (category && !isReviewQueue && category !== 'import' && category !== 'export') {
             onResetCategory(category);
             // Reset local view state
             setIndex(0);
@@ -74,25 +169,42 @@ const FlashcardsActivity = ({
         }
     };
 
-    const handleKnown = () => {
+    const handleGrade = (grade: ReviewGrade) => {
         setFlipped(false);
         
         const currentCard = deck[index] || deck[0];
         if (!currentCard) return;
 
-        // Mark known in parent state
-        onMarkKnown(currentCard.word);
+        // Schedule the card in parent state
+        onGrade(currentCard.word, grade);
+        onAttempt?.({ activity: 'flashcards', item: currentCard.word, answer: grade, correct: grade !== 'again', timeSpentMs: Date.now() - shownAtRef.current });
         
-        // Logic for "Next Word"
-        if (index >= deck.length - 1) {
-             setIndex(0);
+        // "Again" keeps the card due today, so step past it; otherwise the next card slides into place
+        if (grade === 'again') {
+            setTimeout(() => setIndex((index + 1) % deck.length), 200);
+        } else if (index >= deck.length - 1) {
+            setIndex(0);
         }
     };
 
-    const handleUnknown = () => {
-        setFlipped(false);
-        setTimeout(() => setIndex((index + 1) % deck.length), 200);
-    };
+    if (category === 'import') {
+        return (
+            <DeckImport
+                existingWords={everyWord}
+                onSave={(deck) => { onSaveDeck(deck); setCategory(customCategory(deck)); }}
+                onCancel={() => setCategory(null)}
+            />
+        );
+    }
+
+    if (category === 'export') {
+        const categories: Category[] = ['general', 'transitions', 'photo', ...(myWords.length ? ['mywords' as Category] : []), ...customDecks.map(customCategory)];
+        const decks: ExportableDeck[] = [
+            ...categories.map(c => ({ id: c, label: getCategoryLabel(c, customDecks), words: getCategoryDeck(c, myWords, customDecks) })),
+            { id: 'all', label: 'All decks', words: everyWord }
+        ];
+        return <DeckExport decks={decks} srsDeck={srsDeck} onBack={() => setCategory(null)} />;
+    }
 
     // --- Detail View Logic for Dashboard/Category ---
     if (!category) {
@@ -100,22 +212,63 @@ const FlashcardsActivity = ({
             <div className="flex flex-col items-center justify-center h-full">
                 <div className="flex justify-between w-full max-w-4xl mb-8 items-end px-4">
                     <h2 className="text-3xl font-extrabold text-det-dark">Select a Category</h2>
+                    <div className="flex gap-2">
+                        <button onClick={() => setCategory('export')} className="bg-gray-200 text-gray-700 px-5 py-2 rounded-xl font-bold hover:bg-gray-300">
+                            Export
+                        </button>
+                        {hardCount > 0 && (
+                            <button onClick={() => setCategory('hard')} className="bg-orange-100 text-det-orange px-5 py-2 rounded-xl font-bold hover:bg-orange-200">
+                                Hard Words ({hardCount})
+                            </button>
+                        )}
+                        <button 
+                            onClick={() => setCategory('due')} 
+                            disabled={dueCount === 0}
+                            className="bg-det-blue text-white px-5 py-2 rounded-xl font-bold shadow-md active:translate-y-0.5 disabled:opacity-50 disabled:shadow-none"
+                        >
+                            Due Today ({dueCount})
+                        </button>
+                    </div>
                 </div>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-4xl px-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 w-full max-w-4xl px-4">
                     <button onClick={() => setCategory('general')} className="flex flex-col items-center p-8 bg-white border-2 border-gray-200 rounded-2xl hover:border-det-blue hover:shadow-lg transition-all group">
                         <div className="text-4xl mb-4 group-hover:scale-110 transition-transform">📚</div>
                         <span className="font-bold text-xl text-det-dark">General Vocabulary</span>
-                        <div className="mt-2 text-xs font-bold text-det-green">{realWords.filter(w => knownWords.includes(w.word)).length} learned</div>
+                        <div className="mt-2 text-xs font-bold text-det-green">{realWords.filter(w => isLearned(srsDeck[w.word])).length} learned</div>
                     </button>
                     <button onClick={() => setCategory('transitions')} className="flex flex-col items-center p-8 bg-white border-2 border-gray-200 rounded-2xl hover:border-det-orange hover:shadow-lg transition-all group">
                         <div className="text-4xl mb-4 group-hover:scale-110 transition-transform">🔗</div>
                         <span className="font-bold text-xl text-det-dark">Transition Words</span>
-                        <div className="mt-2 text-xs font-bold text-det-green">{transitionWordsList.filter(w => knownWords.includes(w.word)).length} learned</div>
+                        <div className="mt-2 text-xs font-bold text-det-green">{transitionWordsList.filter(w => isLearned(srsDeck[w.word])).length} learned</div>
                     </button>
                     <button onClick={() => setCategory('photo')} className="flex flex-col items-center p-8 bg-white border-2 border-gray-200 rounded-2xl hover:border-det-green hover:shadow-lg transition-all group">
                         <div className="text-4xl mb-4 group-hover:scale-110 transition-transform">🖼️</div>
                         <span className="font-bold text-xl text-det-dark">Photo Description</span>
-                        <div className="mt-2 text-xs font-bold text-det-green">{photoWords.filter(w => knownWords.includes(w.word)).length} learned</div>
+                        <div className="mt-2 text-xs font-bold text-det-green">{photoWords.filter(w => isLearned(srsDeck[w.word])).length} learned</div>
+                    </button>
+                    <button onClick={() => setCategory('mywords')} disabled={myWords.length === 0} className="flex flex-col items-center p-8 bg-white border-2 border-gray-200 rounded-2xl hover:border-purple-400 hover:shadow-lg transition-all group disabled:opacity-50 disabled:hover:border-gray-200 disabled:hover:shadow-none">
+                        <div className="text-4xl mb-4 group-hover:scale-110 transition-transform">⭐</div>
+                        <span className="font-bold text-xl text-det-dark">My Words</span>
+                        <div className="mt-2 text-xs font-bold text-det-green">{myWords.length === 0 ? 'Save words from the Rewrite Tool' : `${myWords.filter(w => isLearned(srsDeck[w.word])).length} learned`}</div>
+                    </button>
+                    {customDecks.map(deck => (
+                        <div key={deck.id} className="relative group">
+                            <button onClick={() => setCategory(customCategory(deck))} className="w-full h-full flex flex-col items-center p-8 bg-white border-2 border-gray-200 rounded-2xl hover:border-det-blue hover:shadow-lg transition-all">
+                                <div className="text-4xl mb-4 group-hover:scale-110 transition-transform">📥</div>
+                                <span className="font-bold text-xl text-det-dark text-center">{deck.name}</span>
+                                <div className="mt-2 text-xs font-bold text-det-green">{deck.words.filter(w => isLearned(srsDeck[w.word])).length} / {deck.words.length} learned</div>
+                            </button>
+                            <button
+                                onClick={() => confirm(`Delete the deck "${deck.name}"? Review progress of its words is kept.`) && onDeleteDeck(deck.id)}
+                                title="Delete deck"
+                                className="absolute top-2 right-3 text-gray-300 hover:text-det-red font-bold hidden group-hover:block"
+                            >✕</button>
+                        </div>
+                    ))}
+                    <button onClick={() => setCategory('import')} className="flex flex-col items-center justify-center p-8 bg-white border-2 border-dashed border-gray-300 rounded-2xl hover:border-det-blue hover:shadow-lg transition-all group">
+                        <div className="text-4xl mb-4 group-hover:scale-110 transition-transform">➕</div>
+                        <span className="font-bold text-xl text-det-dark">Import a Deck</span>
+                        <div className="mt-2 text-xs font-bold text-gray-400">CSV, TSV or Anki</div>
                     </button>
                 </div>
             </div>
@@ -126,11 +279,11 @@ const FlashcardsActivity = ({
         return (
             <div className="flex flex-col items-center justify-center h-[80vh] text-center">
                 <div className="text-6xl mb-6">🎉</div>
-                <h2 className="text-3xl font-bold text-det-dark mb-4">You've mastered this section!</h2>
-                <p className="text-gray-500 mb-8">All words in this category are marked as known.</p>
+                <h2 className="text-3xl font-bold text-det-dark mb-4">All caught up!</h2>
+                <p className="text-gray-500 mb-8">No more cards are due in this category today. Come back tomorrow for your next reviews.</p>
                 <div className="flex gap-4">
                     <button onClick={() => setCategory(null)} className="bg-gray-200 text-gray-700 px-8 py-3 rounded-xl font-bold hover:bg-gray-300">Back to Categories</button>
-                    <button onClick={handleReset} className="bg-det-blue text-white px-8 py-3 rounded-xl font-bold shadow-md">Restart {category}</button>
+                    {!isReviewQueue && <button onClick={handleReset} className="bg-det-blue text-white px-8 py-3 rounded-xl font-bold shadow-md">Restart {getCategoryLabel(category, customDecks)}</button>}
                 </div>
             </div>
         );
@@ -139,13 +292,14 @@ const FlashcardsActivity = ({
     if (deck.length === 0) return <div>Loading...</div>;
 
     const currentCard = deck[index] || deck[0];
+    const currentSrsCard = srsDeck[currentCard.word] || createCard(currentCard.word);
 
     return (
         <div className="flex flex-col items-center justify-center h-[80vh]">
             <div className="flex items-center gap-4 mb-8 w-full max-w-md">
                 <button onClick={() => setCategory(null)} className="text-gray-400 font-bold hover:text-det-dark">← Categories</button>
-                <h2 className="text-xl font-bold flex-1 text-center capitalize">{category} ({deck.length} left)</h2>
-                <div className="relative group">
+                <h2 className="text-xl font-bold flex-1 text-center">{category === 'due' ? 'Due Today' : category === 'hard' ? 'Hard Words' : getCategoryLabel(category, customDecks)} ({deck.length} left)</h2>
+                <div className={`relative group ${isReviewQueue ? 'invisible' : ''}`}>
                      <button className="text-gray-300 hover:text-det-dark">⚙️</button>
                      <div className="absolute right-0 top-full mt-2 w-48 bg-white border border-gray-200 rounded-xl shadow-lg hidden group-hover:block p-2 z-50">
                          <button onClick={handleReset} className="w-full text-left text-sm text-red-500 font-bold px-4 py-2 hover:bg-red-50 rounded-lg">Reset Progress</button>
@@ -161,7 +315,7 @@ const FlashcardsActivity = ({
                     {/* --- FRONT --- */}
                     <div className="absolute w-full h-full bg-white border-2 border-gray-200 rounded-2xl shadow-xl flex flex-col items-center justify-center backface-hidden" style={{ backfaceVisibility: 'hidden' }}>
                         <div className="w-full border-b border-gray-100 py-4 absolute top-0">
-                            <span className="text-xs font-bold bg-gray-100 px-2 py-1 rounded text-gray-500">{currentCard.type} • {currentCard.level}</span>
+                            <span className="text-xs font-bold bg-gray-100 px-2 py-1 rounded text-gray-500">{[currentCard.type, currentCard.level].filter(Boolean).join(' • ') || 'word'}</span>
                         </div>
                         <h3 className="text-4xl font-extrabold text-det-dark mt-4 capitalize">{currentCard.word}</h3>
                         <p className="text-gray-300 text-xs absolute bottom-4">Tap to flip</p>
@@ -171,24 +325,24 @@ const FlashcardsActivity = ({
                     <div className="absolute w-full h-full bg-det-blue border-2 border-det-blue rounded-2xl shadow-xl flex flex-col items-center justify-between py-8 px-6 text-white backface-hidden rotate-y-180" style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}>
                         <div className="flex-1 flex flex-col items-center justify-center w-full border-b border-white/20">
                              <div className="uppercase text-xs font-bold opacity-70 mb-2">Traduction</div>
-                             {loading ? <div className="animate-pulse h-6 w-24 bg-white/30 rounded"></div> : <h3 className="text-3xl font-bold">{cardDetails?.translation || "..."}</h3>}
+                             {loading ? <div className="animate-pulse h-6 w-24 bg-white/30 rounded"></div> : <h3 className="text-3xl font-bold">{cardDetails?.translation || currentCard.translation || "..."}</h3>}
                         </div>
                         <div className="flex-1 flex flex-col items-center justify-center w-full">
                              <div className="uppercase text-xs font-bold opacity-70 mb-2">Exemple</div>
-                             {loading ? <div className="animate-pulse h-12 w-full bg-white/30 rounded"></div> : <p className="text-lg italic leading-relaxed text-center">"{cardDetails?.example}"</p>}
+                             {loading ? <div className="animate-pulse h-12 w-full bg-white/30 rounded"></div> : detailsError ? <p className="text-sm font-bold opacity-80 text-center">{detailsError.message}</p> : <p className="text-lg italic leading-relaxed text-center">"{cardDetails?.example}"</p>}
                         </div>
                     </div>
                 </div>
             </div>
 
             {/* ACTION BUTTONS */}
-            <div className="mt-10 flex gap-4 w-96">
-                <button onClick={handleUnknown} className="flex-1 bg-red-100 text-red-600 border-2 border-red-200 py-3 rounded-xl font-bold hover:bg-red-200 active:translate-y-0.5 transition-colors flex items-center justify-center gap-2">
-                    <span>❌</span> Review
-                </button>
-                <button onClick={handleKnown} className="flex-1 bg-green-100 text-green-700 border-2 border-green-200 py-3 rounded-xl font-bold hover:bg-green-200 active:translate-y-0.5 transition-colors flex items-center justify-center gap-2">
-                    <span>✔️</span> I Know It
-                </button>
+            <div className="mt-10 grid grid-cols-4 gap-3 w-96">
+                {gradeButtons.map(({ grade, label, className }) => (
+                    <button key={grade} onClick={() => handleGrade(grade)} className={`flex flex-col items-center border-2 py-2 rounded-xl font-bold active:translate-y-0.5 transition-colors ${className}`}>
+                        <span>{label}</span>
+                        <span className="text-xs font-semibold opacity-70">{formatInterval(previewInterval(currentSrsCard, grade))}</span>
+                    </button>
+                ))}
             </div>
         </div>
     )
@@ -196,62 +350,236 @@ const FlashcardsActivity = ({
 
 // --- Authentication Components ---
 
-const LoginScreen = ({ onLogin }: { onLogin: (name: string) => void }) => {
+const ProfileSwitcher = ({ onSelect }: { onSelect: (name: string) => void }) => {
+    const [profiles, setProfiles] = useState<ProfileSummary[]>(listProfiles);
     const [input, setInput] = useState("");
+    const [restoreError, setRestoreError] = useState<string | null>(null);
+    const [remoteProfiles, setRemoteProfiles] = useState<string[]>([]);
+    const [remoteError, setRemoteError] = useState<string | null>(null);
+
+    // Profiles started on another device appear once a sync server is set up
+    useEffect(() => {
+        if (!isSyncEnabled()) return;
+        listRemoteProfiles()
+            .then(remote => setRemoteProfiles(remote.map(p => p.name)))
+            .catch(() => setRemoteProfiles([]));
+    }, []);
+
+    const newName = input.trim();
+    const nameTaken = [...profiles.map(p => p.name), ...remoteProfiles].some(name => name.toLowerCase() === newName.toLowerCase());
+    const remoteOnly = remoteProfiles.filter(name => !profiles.some(p => p.name === name));
+
+    // Protected profiles ask for their PIN (or, after "Forgot your PIN?", the admin PIN) first
+    const [pinRequest, setPinRequest] = useState<{ profile: string, action: 'open' | 'delete', admin: boolean } | null>(null);
+
+    const removeProfile = (name: string) => {
+        if (!confirm(`Delete the profile "${name}" and all its progress from this device?`)) return;
+        deleteProfile(name);
+        removeProfilePin(name);
+        forgetSyncState(name);
+        setProfiles(listProfiles());
+    };
+
+    const openProfile = (name: string) => {
+        if (isProfileProtected(name)) setPinRequest({ profile: name, action: 'open', admin: false });
+        else onSelect(name);
+    };
+
+    // A profile from the sync server brings its PIN along before it can be opened
+    const openRemoteProfile = async (name: string) => {
+        setRemoteError(null);
+        try {
+            await pullProfilePin(name);
+        } catch {
+            setRemoteError(`Could not reach the sync server to open ${name}.`);
+            return;
+        }
+        openProfile(name);
+    };
+
+    const requestDelete = (name: string) => {
+        if (isProfileProtected(name)) setPinRequest({ profile: name, action: 'delete', admin: false });
+        else removeProfile(name);
+    };
+
+    const completePinRequest = () => {
+        if (!pinRequest) return;
+        setPinRequest(null);
+        if (pinRequest.action === 'open') onSelect(pinRequest.profile);
+        else removeProfile(pinRequest.profile);
+    };
+
+    // A backup becomes a new profile, named after the one it was exported from
+    const restoreBackup = async (file: File | undefined) => {
+        if (!file) return;
+        const { backup, error } = await readProfileFile(file);
+        if (!backup) {
+            setRestoreError(error);
+            return;
+        }
+        let name = backup.profile || 'Restored';
+        for (let i = 2; profiles.some(p => p.name === name); i++) name = `${backup.profile || 'Restored'} (${i})`;
+        importProfile(name, backup, 'replace');
+        onSelect(name);
+    };
+
     return (
         <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-4">
             <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md w-full text-center border border-gray-100">
                 <div className="text-6xl mb-4">🎓</div>
                 <h1 className="text-3xl font-extrabold text-det-dark mb-2">DET Master</h1>
-                <p className="text-gray-500 mb-8">Enter your name to track your 2-week progress.</p>
-                
+                <p className="text-gray-500 mb-8">{profiles.length ? 'Choose your profile to continue your 2-week progress.' : 'Enter your name to track your 2-week progress.'}</p>
+
+                {profiles.length + remoteOnly.length > 0 && (
+                    <div className="space-y-2 mb-6 text-left">
+                        {profiles.map(p => (
+                            <div key={p.name} className="flex items-center gap-2">
+                                <button
+                                    onClick={() => openProfile(p.name)}
+                                    className="flex-1 flex justify-between items-center p-4 border-2 border-gray-200 rounded-xl hover:border-det-blue transition-colors"
+                                >
+                                    <span className="font-bold text-det-dark">{isProfileProtected(p.name) && '🔒 '}{p.name}</span>
+                                    <span className="text-xs text-gray-400">{p.lastUsed ? new Date(p.lastUsed).toLocaleDateString() : ''}</span>
+                                </button>
+                                <button onClick={() => requestDelete(p.name)} title="Delete profile" className="text-gray-300 hover:text-det-red font-bold px-2">✕</button>
+                            </div>
+                        ))}
+                        {remoteOnly.map(name => (
+                            <button
+                                key={name}
+                                onClick={() => openRemoteProfile(name)}
+                                className="w-full flex justify-between items-center p-4 border-2 border-dashed border-gray-200 rounded-xl hover:border-det-blue transition-colors"
+                            >
+                                <span className="font-bold text-det-dark">{name}</span>
+                                <span className="text-xs text-gray-400">on sync server</span>
+                            </button>
+                        ))}
+                        {remoteError && <p className="text-xs text-det-red font-bold">{remoteError}</p>}
+                    </div>
+                )}
+
                 <input 
                     type="text" 
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
-                    placeholder="e.g., Paul"
-                    className="w-full text-center text-xl p-4 border-2 border-gray-200 rounded-xl mb-6 focus:border-det-blue focus:outline-none font-bold"
-                    onKeyDown={(e) => e.key === 'Enter' && input.trim() && onLogin(input.trim())}
+                    placeholder={profiles.length ? 'New profile name' : 'e.g., Paul'}
+                    className="w-full text-center text-xl p-4 border-2 border-gray-200 rounded-xl mb-2 focus:border-det-blue focus:outline-none font-bold"
+                    onKeyDown={(e) => e.key === 'Enter' && newName && !nameTaken && onSelect(newName)}
                 />
+                <p className="text-xs text-det-red font-bold h-4 mb-4">{nameTaken ? 'This profile already exists.' : ''}</p>
                 
                 <button 
-                    onClick={() => input.trim() && onLogin(input.trim())}
-                    disabled={!input.trim()}
+                    onClick={() => newName && !nameTaken && onSelect(newName)}
+                    disabled={!newName || nameTaken}
                     className="w-full bg-det-green text-white py-4 rounded-xl font-bold text-lg shadow-[0_4px_0_0_#46a302] active:translate-y-0.5 active:shadow-none hover:bg-green-500 transition-all disabled:opacity-50 disabled:shadow-none"
                 >
-                    Start Learning
+                    {profiles.length ? 'Create Profile' : 'Start Learning'}
                 </button>
+
+                <label className="block mt-6 text-sm text-det-blue font-bold cursor-pointer hover:underline">
+                    Restore from a backup file
+                    <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => restoreBackup(e.target.files?.[0])} />
+                </label>
+                {restoreError && <p className="text-xs text-det-red font-bold mt-2">{restoreError}</p>}
             </div>
+
+            {pinRequest && !pinRequest.admin && (
+                <PinPrompt
+                    title={pinRequest.action === 'open' ? `Open ${pinRequest.profile}` : `Delete ${pinRequest.profile}`}
+                    description={pinRequest.action === 'open' ? 'This profile is protected by a PIN.' : 'Enter the PIN of this profile to delete it.'}
+                    confirmLabel={pinRequest.action === 'open' ? 'Unlock' : 'Continue'}
+                    onVerify={pin => verifyProfilePin(pinRequest.profile, pin)}
+                    onSuccess={completePinRequest}
+                    onCancel={() => setPinRequest(null)}
+                    onForgot={() => setPinRequest({ ...pinRequest, admin: true })}
+                />
+            )}
+            {pinRequest && pinRequest.admin && (hasAdminPin() ? (
+                <PinPrompt
+                    title="Admin PIN"
+                    description={`The admin PIN removes the PIN of ${pinRequest.profile}. Its progress is kept.`}
+                    confirmLabel="Reset PIN"
+                    onVerify={pin => resetProfilePin(pinRequest.profile, pin)}
+                    onSuccess={completePinRequest}
+                    onCancel={() => setPinRequest(null)}
+                />
+            ) : (
+                <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white p-8 rounded-2xl shadow-xl max-w-sm w-full text-center">
+                        <div className="text-5xl mb-4">🔑</div>
+                        <p className="text-sm text-gray-500 mb-6">No admin PIN is set on this computer, so a forgotten profile PIN cannot be reset. Ask whoever manages this computer to set one under PIN & Security.</p>
+                        <button onClick={() => setPinRequest(null)} className="w-full bg-gray-200 text-gray-700 py-3 rounded-xl font-bold">Close</button>
+                    </div>
+                </div>
+            ))}
         </div>
     )
 };
 
 // --- Main Application Logic (Authenticated) ---
 
-const AuthenticatedApp = ({ user, onLogout }: { user: string, onLogout: () => void }) => {
+const AuthenticatedApp = ({ user, onLogout, onProfileReloaded }: { user: string, onLogout: () => void, onProfileReloaded: () => void }) => {
   const [currentView, setCurrentView] = useState<View>('dashboard');
+  const [aiProviderId, setAiProviderIdState] = useState<AiProviderId>(getAiProviderId);
   
   // -- PERSISTENCE LOGIC --
-  const STORAGE_KEY_WORDS = `det_${user}_known_words`;
-  const STORAGE_KEY_DAYS = `det_${user}_completed_days`;
+  const [savedProfile] = useState(() => loadProfile(user));
+  const [srsDeck, setSrsDeck] = useState<SrsDeck>(savedProfile.srs);
+  const [completedDays, setCompletedDays] = useState<number[]>(savedProfile.completedDays);
+  const [myWords, setMyWords] = useState<WordDef[]>(savedProfile.myWords);
+  const [spellingStats, setSpellingStats] = useState<SpellingStats>(savedProfile.spellingStats);
+  const [attempts, setAttempts] = useState<AttemptRecord[]>(savedProfile.attempts);
+  const [customDecks, setCustomDecks] = useState<CustomDeck[]>(savedProfile.customDecks);
+  const [abilityRatings, setAbilityRatings] = useState<AbilityRatings>(savedProfile.abilityRatings);
+  const [planSettings, setPlanSettings] = useState<PlanSettings | null>(savedProfile.planSettings);
+
+  useEffect(() => {
+    saveProfileField(user, 'srs', srsDeck);
+  }, [srsDeck, user]);
+
+  useEffect(() => {
+    saveProfileField(user, 'completedDays', completedDays);
+  }, [completedDays, user]);
+
+  useEffect(() => {
+    saveProfileField(user, 'myWords', myWords);
+  }, [myWords, user]);
+
+  useEffect(() => {
+    saveProfileField(user, 'spellingStats', spellingStats);
+  }, [spellingStats, user]);
 
-  const [knownWords, setKnownWords] = useState<string[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_WORDS);
-    return saved ? JSON.parse(saved) : [];
-  });
+  useEffect(() => {
+    saveProfileField(user, 'attempts', attempts);
+  }, [attempts, user]);
 
-  const [completedDays, setCompletedDays] = useState<number[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_DAYS);
-    return saved ? JSON.parse(saved) : [];
-  });
+  useEffect(() => {
+    saveProfileField(user, 'customDecks', customDecks);
+  }, [customDecks, user]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_WORDS, JSON.stringify(knownWords));
-  }, [knownWords, STORAGE_KEY_WORDS]);
+    saveProfileField(user, 'abilityRatings', abilityRatings);
+  }, [abilityRatings, user]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_DAYS, JSON.stringify(completedDays));
-  }, [completedDays, STORAGE_KEY_DAYS]);
+    saveProfileField(user, 'planSettings', planSettings);
+  }, [planSettings, user]);
+
+  // Records pulled from the sync server replace only the fields they belong to, so an activity
+  // in progress (an exam, a timed round) carries on
+  const fieldSetters: { [K in ProfileField]: (value: ProfileData[K]) => void } = {
+    srs: setSrsDeck,
+    completedDays: setCompletedDays,
+    myWords: setMyWords,
+    spellingStats: setSpellingStats,
+    attempts: setAttempts,
+    customDecks: setCustomDecks,
+    abilityRatings: setAbilityRatings,
+    planSettings: setPlanSettings
+  };
+  const reloadField = <K extends ProfileField>(field: K) => fieldSetters[field](loadProfile(user)[field]);
+
+  useEffect(() => startSync(user, reloadField), [user]);
 
   const toggleDay = (day: number) => {
     if (completedDays.includes(day)) {
@@ -261,22 +589,95 @@ const AuthenticatedApp = ({ user, onLogout }: { user: string, onLogout: () => vo
     }
   };
 
-  const markWordKnown = (word: string) => {
-      if (!knownWords.includes(word)) {
-          setKnownWords(prev => [...prev, word]);
-      }
+  // -- STUDY PLAN --
+  const hardWordCount = Object.values(srsDeck).filter(isHardCard).length;
+  const planDays = planSettings ? buildStudyPlan(planSettings, { attempts, hardWords: hardWordCount }) : [];
+  const todayPlan = planSettings && planDays[0]?.day === planDayNumber(planSettings) ? planDays[0] : null;
+  // The task being worked on, so the activity opens with its settings
+  const [activeTask, setActiveTask] = useState<PlanTask | null>(null);
+
+  // The challenge being played, so the activity rebuilds the shared items
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+
+  useEffect(() => {
+    if (activeTask && currentView !== activeTask.view) setActiveTask(null);
+    if (challenge && currentView !== challenge.activity) setChallenge(null);
+  }, [currentView]);
+
+  // A day is ticked off automatically once all its tasks are done
+  useEffect(() => {
+    if (todayPlan && !completedDays.includes(todayPlan.day) && isPlanDayDone(todayPlan, attempts)) {
+      setCompletedDays(prev => (prev.includes(todayPlan.day) ? prev : [...prev, todayPlan.day]));
+    }
+  }, [attempts, todayPlan?.day]);
+
+  // Plan tasks open the matching review queue, when it has cards
+  const taskQueue = activeTask?.view === 'flashcards' ? activeTask.settings.flashcards : undefined;
+  const flashcardQueue = taskQueue === 'hard' ? (hardWordCount > 0 ? 'hard' : undefined)
+    : taskQueue === 'due' && getDueWords(Object.keys(srsDeck), srsDeck).length > 0 ? 'due' : undefined;
+
+  const startTask = (task: PlanTask) => {
+    setChallenge(null);
+    setActiveTask(task);
+    setCurrentView(task.view);
+  };
+
+  const openChallenge = (opened: Challenge) => {
+    setActiveTask(null);
+    setChallenge(opened);
+    setCurrentView(opened.activity);
+  };
+
+  const savePlanSettings = (settings: PlanSettings) => {
+    // Day numbers of a restarted plan no longer match the ticked ones
+    if (planSettings?.startDate !== settings.startDate) setCompletedDays([]);
+    setPlanSettings(settings);
   };
 
-  const resetCategoryProgress = (category: 'general' | 'transitions' | 'photo') => {
-      if (confirm(`Do you want to reset all progress for the "${category}" category?`)) {
-           let deckToReset: WordDef[] = [];
-           if (category === 'general') deckToReset = realWords;
-           if (category === 'transitions') deckToReset = transitionWordsList;
-           if (category === 'photo') deckToReset = photoWords;
+  const gradeWord = (word: string, grade: ReviewGrade) => {
+      setSrsDeck(prev => ({ ...prev, [word]: gradeCard(prev[word] || createCard(word), grade) }));
+  };
+
+  const saveToMyWords = (word: WordDef) => {
+      setMyWords(prev => prev.some(w => w.word.toLowerCase() === word.word.toLowerCase()) ? prev : [...prev, word]);
+  };
+
+  const saveCustomDeck = (deck: CustomDeck) => {
+      setCustomDecks(prev => [...prev, deck]);
+  };
+
+  const deleteCustomDeck = (deckId: string) => {
+      setCustomDecks(prev => prev.filter(deck => deck.id !== deckId));
+  };
+
+  const recordAttempt: OnAttempt = (attempt) => {
+      setAttempts(prev => appendAttempt(prev, attempt));
+  };
+
+  const recordSpellingAttempt = (analysis: SpellingAnalysis) => {
+      setSpellingStats(prev => recordSpelling(prev, analysis));
+  };
+
+  const changeAiProvider = (id: AiProviderId) => {
+      setAiProviderId(id);
+      setAiProviderIdState(id);
+  };
+
+  // Protected profiles confirm with their PIN instead of a yes/no dialog
+  const [pendingReset, setPendingReset] = useState<Category | null>(null);
+
+  const clearCategory = (category: Category) => {
+      const wordsToRemove = getCategoryDeck(category, myWords, customDecks).map(w => w.word);
+      setSrsDeck(prev => {
+          const next = { ...prev };
+          wordsToRemove.forEach(w => delete next[w]);
+          return next;
+      });
+  };
 
-           const wordsToRemove = deckToReset.map(w => w.word);
-           setKnownWords(prev => prev.filter(w => !wordsToRemove.includes(w)));
-      }
+  const resetCategoryProgress = (category: Category) => {
+      if (isProfileProtected(user)) setPendingReset(category);
+      else if (confirm(`Do you want to reset all progress for the "${getCategoryLabel(category, customDecks)}" category?`)) clearCategory(category);
   };
 
   const Sidebar = () => (
@@ -285,20 +686,41 @@ const AuthenticatedApp = ({ user, onLogout }: { user: string, onLogout: () => vo
         <h1 className="text-2xl font-extrabold text-det-green tracking-tight">DET Master</h1>
         <div className="flex justify-between items-center mt-2">
             <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">{user}</span>
-            <button onClick={onLogout} className="text-xs text-red-400 hover:text-red-600 font-bold">Log Out</button>
+            <button onClick={onLogout} className="text-xs text-red-400 hover:text-red-600 font-bold">Switch Profile</button>
         </div>
       </div>
       <nav className="flex-1 px-4 space-y-2">
         <SidebarItem icon="🏠" label="Dashboard" view="dashboard" />
-        <SidebarItem icon="📅" label="2-Week Plan" view="plan" />
+        <SidebarItem icon="📅" label="Study Plan" view="plan" />
+        <SidebarItem icon="📈" label="Analytics" view="analytics" />
         <div className="pt-4 pb-2 pl-2 text-xs font-bold text-gray-400 uppercase">Practice</div>
         <SidebarItem icon="✅" label="Real Words" view="realword" />
         <SidebarItem icon="📷" label="Describe Photo" view="photo" />
         <SidebarItem icon="✍️" label="Complete Sentence" view="spelling" />
         <SidebarItem icon="📝" label="Complete Text" view="completetext" />
+        <SidebarItem icon="📖" label="Interactive Reading" view="interactivereading" />
+        <SidebarItem icon="🖋️" label="Writing Sample" view="writingsample" />
+        <SidebarItem icon="🎤" label="Read Aloud" view="readaloud" />
+        <SidebarItem icon="🗣️" label="Speak About Photo" view="speakphoto" />
+        <SidebarItem icon="🎧" label="Listen & Type" view="listentype" />
         <SidebarItem icon="🗂️" label="Flashcards" view="flashcards" />
+        <SidebarItem icon="🔁" label="Rewrite Tool" view="rewrite" />
+        <SidebarItem icon="🔡" label="Spelling Patterns" view="spellingdrill" />
+        <div className="pt-4 pb-2 pl-2 text-xs font-bold text-gray-400 uppercase">Exam</div>
+        <SidebarItem icon="🏁" label="Full Simulation" view="exam" />
+        <div className="pt-4 pb-2 pl-2 text-xs font-bold text-gray-400 uppercase">Profile</div>
+        <SidebarItem icon="💾" label="Backup & Sync" view="backup" />
+        <SidebarItem icon="🔒" label="PIN & Security" view="security" />
       </nav>
       <div className="p-4 border-t border-gray-100">
+         <label className="block text-xs font-bold text-gray-400 uppercase mb-1 pl-1">AI Tutor</label>
+         <select 
+            value={aiProviderId} 
+            onChange={(e) => changeAiProvider(e.target.value as AiProviderId)}
+            className="w-full mb-4 p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none bg-white"
+         >
+            {aiProviders.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+         </select>
          <div className="bg-yellow-50 p-3 rounded-xl border border-yellow-100">
              <div className="text-xs font-bold text-yellow-700 mb-1">PRO TIP</div>
              <p className="text-xs text-yellow-800 leading-relaxed">
@@ -321,28 +743,52 @@ const AuthenticatedApp = ({ user, onLogout }: { user: string, onLogout: () => vo
 
   const Dashboard = () => {
       const totalWords = realWords.length + transitionWordsList.length + photoWords.length;
-      const progress = Math.round((knownWords.length / totalWords) * 100);
+      const learnedCount = allDecks.filter(w => isLearned(srsDeck[w.word])).length;
+      const dueCount = getDueWords(allDecks.map(w => w.word), srsDeck).length;
+      const progress = Math.round((learnedCount / totalWords) * 100);
+      const week = summarizeAttempts(queryAttempts(attempts, { from: daysAgo(6) }));
+      const daysLeft = planSettings ? daysBetween(toDayKey(), planSettings.examDate) : 0;
+      const nextTask = todayPlan?.tasks.find(task => !isTaskDone(task, attempts, todayPlan.date)) || todayPlan?.tasks[0];
 
       return (
         <div className="max-w-5xl mx-auto">
         <header className="mb-8">
             <h2 className="text-3xl font-extrabold text-det-dark mb-2">Welcome back, {user}!</h2>
-            <p className="text-gray-500">You have <span className="text-det-orange font-bold">14 days</span> to master the Duolingo English Test.</p>
+            {planSettings && daysLeft > 0 ? (
+                <p className="text-gray-500">You have <span className="text-det-orange font-bold">{daysLeft} {daysLeft === 1 ? 'day' : 'days'}</span> to master the Duolingo English Test.</p>
+            ) : (
+                <p className="text-gray-500">Set your exam date to get a study plan built around your weak areas.</p>
+            )}
         </header>
 
         {/* Stats Section */}
         <div className="bg-white p-6 rounded-2xl border border-gray-200 mb-8">
             <div className="flex justify-between items-center mb-4">
                 <h3 className="font-bold text-lg">Vocabulary Progress</h3>
-                <span className="text-det-green font-bold">{knownWords.length} / {totalWords} words learned</span>
+                <span className="text-det-green font-bold">{learnedCount} / {totalWords} words learned</span>
             </div>
             <div className="w-full bg-gray-200 h-4 rounded-full overflow-hidden">
                 <div className="bg-det-green h-full transition-all duration-500" style={{ width: `${progress}%` }}></div>
             </div>
             <div className="mt-4 flex gap-2">
-                 <button onClick={() => setCurrentView('flashcards')} className="text-sm text-det-blue font-bold hover:underline">Review unknown words</button>
+                 <button onClick={() => setCurrentView('flashcards')} className="text-sm text-det-blue font-bold hover:underline">Review due words ({dueCount})</button>
                  <span className="text-gray-300">|</span>
-                 <button onClick={() => alert("Check the flashcards section to see the full list.")} className="text-sm text-gray-500 hover:text-gray-700">See word list details</button>
+                 <button onClick={() => setCurrentView('analytics')} className="text-sm text-gray-500 hover:text-gray-700">See detailed analytics</button>
+            </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-8">
+            <div className="bg-white p-4 rounded-2xl border border-gray-200">
+                <div className="text-2xl font-extrabold text-det-blue">{week.count}</div>
+                <div className="text-xs font-bold text-gray-400 uppercase">Answers this week</div>
+            </div>
+            <div className="bg-white p-4 rounded-2xl border border-gray-200">
+                <div className="text-2xl font-extrabold text-det-green">{week.accuracy === null ? '–' : `${week.accuracy}%`}</div>
+                <div className="text-xs font-bold text-gray-400 uppercase">Accuracy</div>
+            </div>
+            <div className="bg-white p-4 rounded-2xl border border-gray-200">
+                <div className="text-2xl font-extrabold text-det-orange">{Math.round(week.totalTimeMs / 60000)} min</div>
+                <div className="text-xs font-bold text-gray-400 uppercase">Practice time</div>
             </div>
         </div>
 
@@ -363,21 +809,54 @@ const AuthenticatedApp = ({ user, onLogout }: { user: string, onLogout: () => vo
             <div className="w-12 h-12 bg-purple-100 text-purple-500 rounded-xl flex items-center justify-center text-2xl mb-4 group-hover:scale-110 transition-transform">📝</div>
             <h3 className="font-bold text-lg text-det-dark mb-1">Complete Text</h3>
             </div>
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 shadow-sm hover:border-det-red transition-colors cursor-pointer group" onClick={() => setCurrentView('readaloud')}>
+            <div className="w-12 h-12 bg-red-100 text-det-red rounded-xl flex items-center justify-center text-2xl mb-4 group-hover:scale-110 transition-transform">🎤</div>
+            <h3 className="font-bold text-lg text-det-dark mb-1">Read Aloud</h3>
+            </div>
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 shadow-sm hover:border-purple-400 transition-colors cursor-pointer group" onClick={() => setCurrentView('listentype')}>
+            <div className="w-12 h-12 bg-purple-100 text-purple-500 rounded-xl flex items-center justify-center text-2xl mb-4 group-hover:scale-110 transition-transform">🎧</div>
+            <h3 className="font-bold text-lg text-det-dark mb-1">Listen & Type</h3>
+            </div>
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 shadow-sm hover:border-det-blue transition-colors cursor-pointer group" onClick={() => setCurrentView('interactivereading')}>
+            <div className="w-12 h-12 bg-blue-100 text-det-blue rounded-xl flex items-center justify-center text-2xl mb-4 group-hover:scale-110 transition-transform">📖</div>
+            <h3 className="font-bold text-lg text-det-dark mb-1">Interactive Reading</h3>
+            </div>
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 shadow-sm hover:border-det-orange transition-colors cursor-pointer group" onClick={() => setCurrentView('writingsample')}>
+            <div className="w-12 h-12 bg-orange-100 text-det-orange rounded-xl flex items-center justify-center text-2xl mb-4 group-hover:scale-110 transition-transform">🖋️</div>
+            <h3 className="font-bold text-lg text-det-dark mb-1">Writing Sample</h3>
+            </div>
+        </div>
+
+        <div className="bg-det-dark text-white rounded-2xl p-6 mb-10 flex items-center justify-between">
+            <div>
+                <h3 className="font-bold text-lg">Full Simulation</h3>
+                <p className="text-sm text-white/70">All sections back to back, with an estimated 10-160 score.</p>
+            </div>
+            <button onClick={() => setCurrentView('exam')} className="bg-det-green text-white px-6 py-2 rounded-lg font-bold shadow-md active:translate-y-0.5">Take the Exam</button>
         </div>
 
+        <ChallengePanel onOpen={openChallenge} />
+
         <div className="bg-white rounded-2xl border border-gray-200 p-6">
             <div className="flex justify-between items-center mb-6">
-                <h3 className="text-xl font-bold text-det-dark">Today's Focus: Day {completedDays.length + 1}</h3>
+                <h3 className="text-xl font-bold text-det-dark">Today's Focus{todayPlan && `: Day ${todayPlan.day}`}</h3>
                 <button onClick={() => setCurrentView('plan')} className="text-det-blue font-bold text-sm uppercase hover:underline">View Full Plan</button>
             </div>
-            {studyPlan[completedDays.length] ? (
-                <div className="bg-blue-50 border border-blue-100 rounded-xl p-6 flex items-center justify-between">
-                    <div>
-                        <div className="text-xs font-bold text-blue-400 uppercase tracking-wide mb-1">Day {completedDays.length + 1} • {studyPlan[completedDays.length].topic}</div>
-                        <div className="text-lg font-bold text-det-blue">{studyPlan[completedDays.length].activity}</div>
+            {!planSettings ? (
+                <PlanSetup settings={null} onSave={savePlanSettings} />
+            ) : todayPlan ? (
+                <>
+                    <div className="bg-blue-50 border border-blue-100 rounded-xl p-6 flex items-center justify-between mb-4">
+                        <div>
+                            <div className="text-xs font-bold text-blue-400 uppercase tracking-wide mb-1">Day {todayPlan.day} of {planLength(planSettings)} • {todayPlan.title}</div>
+                            <div className="text-lg font-bold text-det-blue">
+                                {completedDays.includes(todayPlan.day) ? 'Day complete, well done!' : nextTask?.label}
+                            </div>
+                        </div>
+                        {nextTask && <button onClick={() => startTask(nextTask)} className="bg-det-blue text-white px-6 py-2 rounded-lg font-bold shadow-md active:translate-y-0.5">Start Now</button>}
                     </div>
-                    <button className="bg-det-blue text-white px-6 py-2 rounded-lg font-bold shadow-md active:translate-y-0.5">Start Now</button>
-                </div>
+                    <PlanTaskList day={todayPlan} attempts={attempts} onStart={startTask} />
+                </>
             ) : (
                 <div className="p-4 text-center text-gray-500">Plan Completed! Good luck on your test!</div>
             )}
@@ -386,29 +865,6 @@ const AuthenticatedApp = ({ user, onLogout }: { user: string, onLogout: () => vo
       );
   }
 
-  const PlanView = () => (
-      <div className="max-w-4xl mx-auto">
-          <h2 className="text-2xl font-bold mb-6">2-Week Revision Plan</h2>
-          <div className="grid gap-4">
-              {studyPlan.map((day) => (
-                  <div key={day.day} className={`flex items-center p-4 rounded-xl border-2 transition-all ${completedDays.includes(day.day) ? 'bg-gray-50 border-gray-200 opacity-60' : 'bg-white border-gray-100 hover:border-det-blue'}`}>
-                      <button 
-                        onClick={() => toggleDay(day.day)}
-                        className={`w-8 h-8 rounded-full border-2 flex items-center justify-center mr-4 transition-colors ${completedDays.includes(day.day) ? 'bg-det-green border-det-green text-white' : 'border-gray-300 text-transparent hover:border-det-green'}`}
-                      >
-                          ✓
-                      </button>
-                      <div className="flex-1">
-                          <span className="text-xs font-bold text-gray-400 uppercase mr-2">Day {day.day}</span>
-                          <span className="font-bold text-det-dark">{day.topic}</span>
-                      </div>
-                      <div className="text-sm text-gray-500 hidden sm:block">{day.activity}</div>
-                  </div>
-              ))}
-          </div>
-      </div>
-  );
-
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-det-dark">
         <Sidebar />
@@ -421,34 +877,106 @@ const AuthenticatedApp = ({ user, onLogout }: { user: string, onLogout: () => vo
 
         <main className="md:ml-64 p-4 md:p-8 h-screen overflow-y-auto">
             {currentView === 'dashboard' && <Dashboard />}
-            {currentView === 'plan' && <PlanView />}
-            {currentView === 'realword' && <RealWordGame onComplete={() => setCurrentView('dashboard')} />}
-            {currentView === 'photo' && <PhotoGame onBack={() => setCurrentView('dashboard')} />}
-            {currentView === 'spelling' && <FillBlankGame onBack={() => setCurrentView('dashboard')} />}
-            {currentView === 'completetext' && <CompleteTextGame onBack={() => setCurrentView('dashboard')} />}
-            {currentView === 'flashcards' && <FlashcardsActivity knownWords={knownWords} onMarkKnown={markWordKnown} onResetCategory={resetCategoryProgress} />}
+            {currentView === 'plan' && (
+                <StudyPlanView
+                    settings={planSettings}
+                    days={planDays}
+                    completedDays={completedDays}
+                    attempts={attempts}
+                    onSaveSettings={savePlanSettings}
+                    onToggleDay={toggleDay}
+                    onStartTask={startTask}
+                />
+            )}
+            {currentView === 'security' && <ProfileSecurity profile={user} />}
+            {currentView === 'backup' && <ProfileBackup profile={user} onImported={onProfileReloaded} />}
+            {currentView === 'analytics' && <AnalyticsView attempts={attempts} extraWords={[...myWords, ...customDecks.flatMap(deck => deck.words)]} />}
+            {currentView === 'realword' && <RealWordGame onComplete={() => setCurrentView('dashboard')} onAttempt={recordAttempt} ratings={abilityRatings} onRatingsChange={setAbilityRatings} mode={challenge ? challenge.settings.pseudoWords : activeTask ? 'adaptive' : undefined} speedMode={challenge ? challenge.settings.speedMode : activeTask?.settings.speedMode} seed={challenge?.seed} />}
+            {currentView === 'photo' && <PhotoGame onBack={() => setCurrentView('dashboard')} onAttempt={recordAttempt} seed={challenge?.seed} category={challenge?.settings.photoCategory} />}
+            {currentView === 'spelling' && <FillBlankGame onBack={() => setCurrentView('dashboard')} onSpellingAnalyzed={recordSpellingAttempt} onAttempt={recordAttempt} seed={challenge?.seed} />}
+            {currentView === 'completetext' && <CompleteTextGame onBack={() => setCurrentView('dashboard')} onSpellingAnalyzed={recordSpellingAttempt} onAttempt={recordAttempt} seed={challenge?.seed} difficulty={challenge?.settings.cTest} />}
+            {currentView === 'speakphoto' && <PhotoGame mode="spoken" onBack={() => setCurrentView('dashboard')} onAttempt={recordAttempt} seed={challenge?.seed} category={challenge?.settings.photoCategory} />}
+            {currentView === 'readaloud' && <ReadAloudGame onBack={() => setCurrentView('dashboard')} onAttempt={recordAttempt} seed={challenge?.seed} />}
+            {currentView === 'listentype' && <ListenTypeGame onBack={() => setCurrentView('dashboard')} onAttempt={recordAttempt} seed={challenge?.seed} />}
+            {currentView === 'interactivereading' && <InteractiveReadingGame onBack={() => setCurrentView('dashboard')} onAttempt={recordAttempt} seed={challenge?.seed} />}
+            {currentView === 'writingsample' && <WritingSampleGame onBack={() => setCurrentView('dashboard')} onAttempt={recordAttempt} seed={challenge?.seed} />}
+            {currentView === 'spellingdrill' && <SpellingDrill stats={spellingStats} onSpellingAnalyzed={recordSpellingAttempt} onAttempt={recordAttempt} />}
+            {currentView === 'rewrite' && <RewriteTool savedWords={myWords.map(w => w.word)} onSaveWord={saveToMyWords} />}
+            {currentView === 'exam' && <MockExam onExit={() => setCurrentView('dashboard')} onAttempt={recordAttempt} ratings={abilityRatings} onRatingsChange={setAbilityRatings} />}
+            {currentView === 'flashcards' && <FlashcardsActivity srsDeck={srsDeck} myWords={myWords} customDecks={customDecks} onGrade={gradeWord} onResetCategory={resetCategoryProgress} onSaveDeck={saveCustomDeck} onDeleteDeck={deleteCustomDeck} onAttempt={recordAttempt} initialCategory={flashcardQueue} />}
         </main>
+        {pendingReset && (
+            <PinPrompt
+                title="Reset progress"
+                description={`Enter your PIN to reset all progress for the "${getCategoryLabel(pendingReset, customDecks)}" category.`}
+                confirmLabel="Reset"
+                onVerify={pin => verifyProfilePin(user, pin)}
+                onSuccess={() => { clearCategory(pendingReset); setPendingReset(null); }}
+                onCancel={() => setPendingReset(null)}
+            />
+        )}
     </div>
   );
 };
 
 // --- Root App Wrapper ---
 function App() {
-  const [user, setUser] = useState<string | null>(() => localStorage.getItem('det_current_user'));
-
-  const handleLogin = (name: string) => {
-      localStorage.setItem('det_current_user', name);
+  const [user, setUser] = useState<string | null>(getCurrentProfile);
+  // A protected profile left open asks for its PIN again when the app is reloaded
+  const [locked, setLocked] = useState(() => !!user && isProfileProtected(user));
+  const [confirmingLogout, setConfirmingLogout] = useState(false);
+  // Bumped after an import so the app reloads the profile from storage
+  const [revision, setRevision] = useState(0);
+
+  const handleSelect = (name: string) => {
+      setCurrentProfile(name);
       setUser(name);
+      setLocked(false);
   };
 
   const handleLogout = () => {
-      localStorage.removeItem('det_current_user');
+      setCurrentProfile(null);
       setUser(null);
+      setLocked(false);
+      setConfirmingLogout(false);
   };
 
-  if (!user) return <LoginScreen onLogin={handleLogin} />;
+  if (!user) return <ProfileSwitcher onSelect={handleSelect} />;
 
-  return <AuthenticatedApp key={user} user={user} onLogout={handleLogout} />;
+  if (locked) {
+      return (
+          <div className="min-h-screen bg-gray-50">
+              <PinPrompt
+                  title={`Open ${user}`}
+                  description="This profile is protected by a PIN."
+                  onVerify={pin => verifyProfilePin(user, pin)}
+                  onSuccess={() => setLocked(false)}
+                  onCancel={handleLogout}
+              />
+          </div>
+      );
+  }
+
+  return (
+      <>
+          <AuthenticatedApp
+              key={`${user}:${revision}`}
+              user={user}
+              onLogout={() => isProfileProtected(user) ? setConfirmingLogout(true) : handleLogout()}
+              onProfileReloaded={() => setRevision(r => r + 1)}
+          />
+          {confirmingLogout && (
+              <PinPrompt
+                  title="Switch profile"
+                  description={`Enter the PIN of ${user} to leave this profile.`}
+                  confirmLabel="Switch"
+                  onVerify={pin => verifyProfilePin(user, pin)}
+                  onSuccess={handleLogout}
+                  onCancel={() => setConfirmingLogout(false)}
+              />
+          )}
+      </>
+  );
 }
 
 export default App;
\ No newline at end of file
@@ -1,19 +1,38 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { realWords, fakeWords, photoVocab, photoMethod, transitionWords } from '../data';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { realWords, photoVocab, photoMethod, transitionWords, PhotoCategory } from '../data';
 import { evaluatePhotoDescription, generateFillInBlank, generateParagraphTask } from '../services/geminiService';
+import { AiServiceError, asAiError } from '../services/aiErrors';
+import { PhotoEvaluation, FillInBlankTask, ParagraphTask } from '../services/aiSchemas';
+import { OnActivityResult, OnSpellingAnalyzed, OnAttempt } from '../types';
+import { AudioRecording, TranscriptionSession, Transcriber, transcribers, getDefaultTranscriber, startRecording } from '../services/speechService';
+import { analyzeFluency, FluencyReport } from '../services/fluency';
+import { SpellingAnalysis, analyzeSpelling, spellingErrorLabels } from '../services/spellingAnalyzer';
+import { PseudoWordDifficulty, pseudoWordDifficultyLabels, generatePseudoWords } from '../services/pseudoWords';
+import { AbilityRatings, AdaptiveItem, emptyAbilityRatings, updateRatings, pickRealWord, pickPseudoDifficulty, abilityLevel } from '../services/adaptiveRating';
+import { CTestDifficulty, BlankScore, cTestDifficultyLabels, buildCTest, scoreCTest, seededParagraph } from '../services/cTest';
+import { Random, createRandom, randomSeed, nextSeed, pick, shuffle } from '../services/random';
+import { Challenge, createChallenge, encodeChallenge } from '../services/challenge';
+import { pickSentenceTask } from '../services/sentenceBank';
+import { photoCategoryLabels, photoImageUrl, pickPhoto } from '../services/photoBank';
+import { analyzeWriting, scorePhotoDescription } from '../services/heuristicScorer';
+import { getAiProviderId } from '../services/aiProvider';
 
 // --- Shared Components ---
-const Timer = ({ duration, onFinish, label }: { duration: number, onFinish: () => void, label?: string }) => {
+export const Timer = ({ duration, onFinish, label }: { duration: number, onFinish: () => void, label?: string }) => {
   const [timeLeft, setTimeLeft] = useState(duration);
+  // Parents often pass a new callback on every render (e.g. while the learner types); that must
+  // not restart the one-second tick
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
 
   useEffect(() => {
     if (timeLeft <= 0) {
-      onFinish();
+      onFinishRef.current();
       return;
     }
-    const timer = setInterval(() => setTimeLeft(prev => prev - 1), 1000);
-    return () => clearInterval(timer);
-  }, [timeLeft, onFinish]);
+    const timer = setTimeout(() => setTimeLeft(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [timeLeft]);
 
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
@@ -27,39 +46,134 @@ const Timer = ({ duration, onFinish, label }: { duration: number, onFinish: () =
   );
 };
 
+// Shown whenever an AI request fails, instead of silently using placeholder content
+export const AiErrorNotice = ({ error, onRetry, onBack }: { error: AiServiceError, onRetry: () => void, onBack?: () => void }) => (
+  <div className="max-w-xl mx-auto mt-10 p-6 bg-red-50 border-2 border-red-100 rounded-2xl text-center">
+    <div className="text-4xl mb-3">⚠️</div>
+    <h2 className="text-xl font-bold text-det-red mb-2">{error.message}</h2>
+    <p className="text-gray-600 mb-4">
+      {error.kind === 'network' && 'Check your connection, or switch the AI Tutor to offline mode in the sidebar.'}
+      {error.kind === 'invalid-response' && `The answer still failed validation after ${error.attempts} attempts.`}
+      {error.kind === 'unexpected' && 'Try again, or switch the AI Tutor to offline mode in the sidebar.'}
+    </p>
+    {error.issues.length > 0 && (
+      <ul className="text-sm text-left text-gray-500 list-disc pl-6 mb-4">
+        {error.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+      </ul>
+    )}
+    <div className="flex justify-center gap-4">
+      {onBack && <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>}
+      <button onClick={onRetry} className="bg-det-blue text-white py-2 px-6 rounded-xl font-bold shadow-md">Try Again</button>
+    </div>
+  </div>
+);
+
+// Error-type labels for a misspelled word, e.g. "Missing consonant (c → –)"
+export const SpellingErrorTags = ({ analysis }: { analysis: SpellingAnalysis }) => (
+  <span className="inline-flex flex-wrap gap-1">
+    {analysis.errors.map((err, i) => (
+      <span key={i} title={spellingErrorLabels[err.type].tip} className="text-xs font-bold bg-orange-100 text-det-orange px-2 py-0.5 rounded">
+        {spellingErrorLabels[err.type].label}{err.type !== 'other' && ` (${err.expected || '–'} → ${err.actual || '–'})`}
+      </span>
+    ))}
+  </span>
+);
+
+// The current round as a challenge code; anyone opening it gets exactly the same items
+export const ChallengeCode = ({ challenge }: { challenge: Challenge }) => {
+  const [copied, setCopied] = useState(false);
+  const code = encodeChallenge(challenge);
+  const copy = () => navigator.clipboard?.writeText(code).then(() => setCopied(true), () => setCopied(false));
+
+  return (
+    <button
+      onClick={copy}
+      title="Share this code: opening it replays exactly this round"
+      className="inline-flex items-center gap-2 text-xs font-bold text-gray-500 bg-gray-100 px-3 py-1 rounded-full hover:bg-gray-200"
+    >
+      Challenge <span className="font-mono text-sm text-det-dark tracking-wider">{code}</span> {copied ? '✓ Copied' : 'Copy'}
+    </button>
+  );
+};
+
 // --- Game 1: Real Word Selection ---
-export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
-  const [words, setWords] = useState<{ text: string, isReal: boolean }[]>([]);
+const WORDS_PER_ROUND = 20;
+const WORD_TICKS = 500;  // 500 * 10ms = 5s per word
+const SPEED_TICKS = 300; // Speed Mode: 3s per word
+
+// 'adaptive' follows the learner's ability estimate; a fixed difficulty only sets the pseudo-words
+type RealWordMode = 'adaptive' | PseudoWordDifficulty;
+
+interface RealWordItem {
+  text: string;
+  item: AdaptiveItem;
+  level: string; // CEFR level, or the pseudo-word difficulty
+  nearestWord?: string; // Shown in the summary for near-miss pseudo-words
+}
+
+const makeRealWordItem = (isReal: boolean, mode: RealWordMode, ratings: AbilityRatings, shown: RealWordItem[], random: Random): RealWordItem => {
+  if (isReal) {
+    const used = new Set(shown.map(w => w.text.toLowerCase()));
+    const unused = realWords.filter(w => !used.has(w.word.toLowerCase()));
+    const word = mode === 'adaptive' ? pickRealWord(ratings, realWords, used, random) : pick(unused, random);
+    return { text: word.word, level: word.level, item: { kind: 'word', word } };
+  }
+  const difficulty = mode === 'adaptive' ? pickPseudoDifficulty(ratings, random) : mode;
+  const [fake] = generatePseudoWords(1, difficulty, random);
+  return { text: fake.text, level: pseudoWordDifficultyLabels[difficulty].label, nearestWord: difficulty === 'easy' ? undefined : fake.nearestWord, item: { kind: 'pseudo', difficulty } };
+};
+
+// A fixed `mode` skips the level picker (the mock exam and study plan tasks use one).
+// With a fixed difficulty, the seed decides every word of the round.
+export const RealWordGame = ({ onComplete, onResult, onAttempt, mode: fixedMode, speedMode: initialSpeedMode, ratings, onRatingsChange, seed }: {
+  onComplete: () => void,
+  onResult?: OnActivityResult,
+  onAttempt?: OnAttempt,
+  mode?: RealWordMode,
+  speedMode?: boolean,
+  ratings?: AbilityRatings,
+  onRatingsChange?: (ratings: AbilityRatings) => void,
+  seed?: number
+}) => {
+  const [mode, setMode] = useState<RealWordMode | null>(fixedMode || null);
+  const [speedMode, setSpeedMode] = useState(!!initialSpeedMode);
+  const [words, setWords] = useState<RealWordItem[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [score, setScore] = useState(0);
   const [gameOver, setGameOver] = useState(false);
-  const [userResults, setUserResults] = useState<{ word: string, isReal: boolean, correct: boolean }[]>([]);
+  const [userResults, setUserResults] = useState<{ word: string, isReal: boolean, level: string, nearestWord?: string, correct: boolean }[]>([]);
+
+  // Ratings change after every answer; the ref keeps the latest for picking the next word
+  const ratingsRef = useRef<AbilityRatings>(ratings || emptyAbilityRatings());
+  const startAbility = useRef(ratingsRef.current.learner.value);
+  const plan = useRef<boolean[]>([]); // Real or fake, for every word of the round
+  const roundSeed = useRef(0);
+  const randomRef = useRef<Random>(Math.random);
   
   // Per word timer state
-  const [timeLeft, setTimeLeft] = useState(500); // 500 * 10ms = 5000ms = 5s
+  const wordTicks = speedMode ? SPEED_TICKS : WORD_TICKS;
+  const [timeLeft, setTimeLeft] = useState(WORD_TICKS);
   const timerRef = useRef<number | null>(null);
+  const wordShownAt = useRef(Date.now());
 
   useEffect(() => {
-    // Generate a mix of 10 real and 10 fake words, shuffled
-    const reals = realWords.sort(() => 0.5 - Math.random()).slice(0, 10).map(w => ({ text: w.word, isReal: true }));
-    const fakes = fakeWords.sort(() => 0.5 - Math.random()).slice(0, 10).map(w => ({ text: w, isReal: false }));
-    const mix = [...reals, ...fakes].sort(() => 0.5 - Math.random());
-    setWords(mix);
-  }, []);
-
-  // Timer logic for 5 seconds per word
+    if (!mode) return;
+    roundSeed.current = seed ?? randomSeed();
+    randomRef.current = createRandom(roundSeed.current);
+    // Half real and half fake words, in random order; each word is picked once the previous one is answered
+    plan.current = shuffle(Array.from({ length: WORDS_PER_ROUND }, (_, i) => i < WORDS_PER_ROUND / 2), randomRef.current);
+    startAbility.current = ratingsRef.current.learner.value;
+    wordShownAt.current = Date.now();
+    setTimeLeft(wordTicks);
+    setWords([makeRealWordItem(plan.current[0], mode, ratingsRef.current, [], randomRef.current)]);
+  }, [mode]);
+
+  // Timer logic for 5 seconds per word (3 in Speed Mode)
   useEffect(() => {
     if (gameOver || words.length === 0) return;
 
     timerRef.current = window.setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 0) {
-          // Time expired for this word
-          handleNext(false); // treat as wrong/missed
-          return 500; // reset
-        }
-        return prev - 1;
-      });
+      setTimeLeft((prev) => Math.max(0, prev - 1));
     }, 10); // tick every 10ms for smooth bar
 
     return () => {
@@ -67,17 +181,38 @@ export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
     };
   }, [currentIndex, gameOver, words]);
 
-  const handleNext = (isCorrect: boolean) => {
+  // Time expired for this word: treat it as wrong/missed. Kept out of the state updater, which
+  // React may run twice, so the attempt, the rating update and the next word happen once.
+  useEffect(() => {
+    if (timeLeft > 0 || gameOver || words.length === 0) return;
+    handleNext(false);
+  }, [timeLeft]);
+
+  // Report the round once every word has been answered
+  useEffect(() => {
+    if (!gameOver) return;
+    const correct = userResults.filter(r => r.correct).length;
+    onResult?.({ activity: 'realword', score: Math.round((correct / words.length) * 100), correct, total: words.length });
+  }, [gameOver]);
+
+  const handleNext = (isCorrect: boolean, answer = '') => {
     // Record result
     const currentWord = words[currentIndex];
-    setUserResults(prev => [...prev, { word: currentWord.text, isReal: currentWord.isReal, correct: isCorrect }]);
+    setUserResults(prev => [...prev, { word: currentWord.text, isReal: currentWord.item.kind === 'word', level: currentWord.level, nearestWord: currentWord.nearestWord, correct: isCorrect }]);
+    onAttempt?.({ activity: 'realword', item: currentWord.text, answer, correct: isCorrect, timeSpentMs: Date.now() - wordShownAt.current });
+    wordShownAt.current = Date.now();
+
+    const updated = updateRatings(ratingsRef.current, currentWord.item, isCorrect);
+    ratingsRef.current = updated;
+    onRatingsChange?.(updated);
 
     if (isCorrect) setScore(s => s + 1);
     
     // Reset timer immediately for UI responsiveness
-    setTimeLeft(500); 
+    setTimeLeft(wordTicks); 
 
-    if (currentIndex < words.length - 1) {
+    if (currentIndex < WORDS_PER_ROUND - 1) {
+      setWords([...words, makeRealWordItem(plan.current[currentIndex + 1], mode!, updated, words, randomRef.current)]);
       setCurrentIndex(prev => prev + 1);
     } else {
       setGameOver(true);
@@ -85,25 +220,67 @@ export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
   };
 
   const handleChoice = (choice: boolean) => {
-    const isCorrect = choice === words[currentIndex].isReal;
-    handleNext(isCorrect);
+    const isCorrect = choice === (words[currentIndex].item.kind === 'word');
+    handleNext(isCorrect, choice ? 'real' : 'fake');
   };
 
+  if (!mode) {
+    const current = ratingsRef.current.learner;
+    return (
+      <div className="flex flex-col items-center p-8 bg-white rounded-2xl shadow-xl max-w-2xl mx-auto mt-10">
+        <h2 className="text-2xl font-bold mb-2">Read and Select</h2>
+        <p className="text-gray-500 mb-6 text-center">Decide whether each word is real English. New pseudo-words are made for every round.</p>
+        <div className="w-full space-y-3">
+          <button
+            onClick={() => setMode('adaptive')}
+            className="w-full text-left p-4 border-2 border-det-blue bg-blue-50 rounded-2xl hover:bg-blue-100 transition-all"
+          >
+            <div className="font-bold text-det-blue">Adaptive (recommended)</div>
+            <div className="text-sm text-gray-500">
+              Like the real test, each word matches your running ability estimate
+              {current.attempts > 0 ? ` (currently ${abilityLevel(current.value)})` : ''}.
+            </div>
+          </button>
+          {(Object.keys(pseudoWordDifficultyLabels) as PseudoWordDifficulty[]).map(level => (
+            <button
+              key={level}
+              onClick={() => setMode(level)}
+              className="w-full text-left p-4 border-2 border-gray-200 rounded-2xl hover:border-det-blue hover:bg-blue-50 transition-all"
+            >
+              <div className="font-bold text-det-dark">{pseudoWordDifficultyLabels[level].label}</div>
+              <div className="text-sm text-gray-500">{pseudoWordDifficultyLabels[level].description}</div>
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 mt-6 text-sm font-bold text-gray-600 self-start">
+          <input type="checkbox" checked={speedMode} onChange={(e) => setSpeedMode(e.target.checked)} />
+          Speed Mode: {SPEED_TICKS / 100} seconds per word instead of {WORD_TICKS / 100}
+        </label>
+      </div>
+    );
+  }
+
   if (words.length === 0) return <div>Loading...</div>;
 
   if (gameOver) {
+    const ability = ratingsRef.current.learner.value;
+    const change = ability - startAbility.current;
     return (
       <div className="flex flex-col items-center justify-center p-8 bg-white rounded-2xl shadow-xl max-w-2xl mx-auto mt-10">
         <h2 className="text-2xl font-bold mb-4">Round Complete!</h2>
         <div className="text-6xl mb-6">🎯</div>
-        <p className="text-xl mb-6">Score: <span className="text-det-green font-bold">{score}/{words.length}</span></p>
-        
+        <p className="text-xl mb-4">Score: <span className="text-det-green font-bold">{score}/{words.length}</span></p>
+        {mode !== 'adaptive' && (
+          <div className="mb-6"><ChallengeCode challenge={createChallenge('realword', { pseudoWords: mode, speedMode }, roundSeed.current)} /></div>
+        )}
+
         <div className="w-full max-h-96 overflow-y-auto border border-gray-200 rounded-xl mb-6">
             <table className="w-full text-left">
                 <thead className="bg-gray-50 sticky top-0">
                     <tr>
                         <th className="p-3 text-xs font-bold text-gray-500 uppercase">Word</th>
                         <th className="p-3 text-xs font-bold text-gray-500 uppercase">Type</th>
+                        <th className="p-3 text-xs font-bold text-gray-500 uppercase">Level</th>
                         <th className="p-3 text-xs font-bold text-gray-500 uppercase text-right">Result</th>
                     </tr>
                 </thead>
@@ -113,7 +290,9 @@ export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
                             <td className="p-3 font-bold text-det-dark">{res.word}</td>
                             <td className="p-3 text-sm text-gray-500">
                                 {res.isReal ? <span className="text-det-blue font-bold">Real Word</span> : "Pseudo-word"}
+                                {!res.isReal && res.nearestWord && <span> (real: <i>{res.nearestWord}</i>)</span>}
                             </td>
+                            <td className="p-3 text-sm text-gray-500">{res.level}</td>
                             <td className="p-3 text-right">
                                 {res.correct ? (
                                     <span className="text-det-green font-bold">Correct ✓</span>
@@ -124,6 +303,14 @@ export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
                         </tr>
                     ))}
                 </tbody>
+                <tfoot className="bg-gray-50 sticky bottom-0">
+                    <tr>
+                        <td colSpan={3} className="p-3 text-xs font-bold text-gray-500 uppercase">Ability estimate</td>
+                        <td className="p-3 text-right font-bold text-det-dark">
+                            {abilityLevel(ability)} <span className="text-sm text-gray-500">({ability.toFixed(2)}, {change >= 0 ? '+' : ''}{change.toFixed(2)} this round)</span>
+                        </td>
+                    </tr>
+                </tfoot>
             </table>
         </div>
 
@@ -135,7 +322,7 @@ export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
   }
 
   // Calculate percentage for progress bar (500 ticks = 100%)
-  const timePercentage = (timeLeft / 500) * 100;
+  const timePercentage = (timeLeft / wordTicks) * 100;
   const barColor = timePercentage < 30 ? 'bg-det-red' : 'bg-det-green';
 
   return (
@@ -147,7 +334,7 @@ export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
         ></div>
       </div>
       
-      <div className="text-center text-gray-400 font-bold mb-2">Word {currentIndex + 1} of {words.length}</div>
+      <div className="text-center text-gray-400 font-bold mb-2">Word {currentIndex + 1} of {WORDS_PER_ROUND}</div>
 
       <div className="flex-1 flex flex-col items-center justify-center">
         <h3 className="text-det-dark/70 font-semibold mb-8 text-xl">Is this a real English word?</h3>
@@ -182,47 +369,180 @@ export const RealWordGame = ({ onComplete }: { onComplete: () => void }) => {
   );
 };
 
-// --- Game 2: Write About Photo ---
-export const PhotoGame = ({ onBack }: { onBack: () => void }) => {
+// --- Game 2: Write (or Speak) About Photo ---
+const PREP_SECONDS = 20;
+const MIN_SPEAKING_SECONDS = 30;
+const MAX_SPEAKING_SECONDS = 90;
+// What the simulated transcriber "hears" when no microphone is used
+const SIMULATED_ANSWER = photoMethod.map(s => s.example).join(" Um, ");
+
+export const PhotoGame = ({ onBack, onResult, onAttempt, mode = 'written', seed: fixedSeed, category: fixedCategory }: { onBack: () => void, onResult?: OnActivityResult, onAttempt?: OnAttempt, mode?: 'written' | 'spoken', seed?: number, category?: PhotoCategory }) => {
   const [text, setText] = useState("");
-  const [stage, setStage] = useState<'writing' | 'evaluating' | 'results' | 'timeout'>('writing');
-  const [result, setResult] = useState<any>(null);
+  const [stage, setStage] = useState<'writing' | 'preparing' | 'recording' | 'evaluating' | 'results' | 'timeout' | 'error'>(mode === 'spoken' ? 'preparing' : 'writing');
+  const [result, setResult] = useState<PhotoEvaluation | null>(null);
+  const [error, setError] = useState<AiServiceError | null>(null);
+
+  // Speaking mode only
+  const [transcriber, setTranscriber] = useState<Transcriber>(getDefaultTranscriber);
+  const [micError, setMicError] = useState<string | null>(null);
+  const [canStop, setCanStop] = useState(false);
+  const [fluency, setFluency] = useState<FluencyReport | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const recordingRef = useRef<AudioRecording | null>(null);
+  const sessionRef = useRef<TranscriptionSession | null>(null);
+  const startedAtRef = useRef(0);
+  const shownAtRef = useRef(Date.now());
+
+  const activity = mode === 'spoken' ? 'speakphoto' : 'photo';
+  const [seed, setSeed] = useState(() => fixedSeed ?? randomSeed());
+  const [category, setCategory] = useState<PhotoCategory | undefined>(fixedCategory);
 
-  // Placeholder image (using abstract or nature to simulate general DET photos)
-  const imageUrl = "https://picsum.photos/600/400"; 
+  // Photos come from the offline bank; the seed picks the same one every time
+  const photo = pickPhoto(seed, category);
+  const imageUrl = photoImageUrl(photo);
 
-  const handleSubmit = async () => {
+  // A new category means a new photo and a fresh attempt
+  const changeCategory = (value: string) => {
+    setCategory(value ? value as PhotoCategory : undefined);
+    setSeed(randomSeed());
+    setText("");
+    shownAtRef.current = Date.now();
+  };
+
+  // Challenges fix the photo, so the picker is hidden
+  const categoryPicker = fixedSeed === undefined && (
+    <select
+      value={category || ''}
+      onChange={(e) => changeCategory(e.target.value)}
+      className="p-1 border-2 border-gray-200 rounded-lg text-xs font-bold text-gray-600 focus:border-det-blue focus:outline-none bg-white"
+    >
+      <option value="">Any topic</option>
+      {(Object.keys(photoCategoryLabels) as PhotoCategory[]).map(c => <option key={c} value={c}>{photoCategoryLabels[c]}</option>)}
+    </select>
+  );
+
+  // The learner must speak for at least 30 s before stopping
+  useEffect(() => {
+    if (stage !== 'recording') return;
+    setCanStop(false);
+    const timer = setTimeout(() => setCanStop(true), MIN_SPEAKING_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [stage]);
+
+  useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+  const evaluate = async (answer: string) => {
     setStage('evaluating');
-    const evaluation = await evaluatePhotoDescription(text, imageUrl);
+    try {
+      const evaluation = await evaluatePhotoDescription(answer, photo);
+      setResult(evaluation);
+      setStage('results');
+      onResult?.({ activity, score: evaluation.score });
+      onAttempt?.({ activity, item: photo.scene, answer, correct: null, aiScore: evaluation.score, timeSpentMs: Date.now() - shownAtRef.current });
+    } catch (e) {
+      setError(asAiError(e, 'photoEvaluation'));
+      setStage('error');
+    }
+  };
+
+  const handleSubmit = () => evaluate(text);
+
+  // When the AI tutor cannot answer, the offline scorer grades the same text
+  const scoreOffline = () => {
+    const evaluation = scorePhotoDescription(text, photo);
     setResult(evaluation);
     setStage('results');
+    onResult?.({ activity, score: evaluation.score });
+    onAttempt?.({ activity, item: photo.scene, answer: text, correct: null, aiScore: evaluation.score, timeSpentMs: Date.now() - shownAtRef.current });
   };
 
+  // Second opinion from the offline scorer, unless it already gave the main score
+  const secondOpinion = useMemo(() => {
+    if (stage !== 'results' || getAiProviderId() === 'mock') return null;
+    return { evaluation: scorePhotoDescription(text, photo), signals: analyzeWriting(text) };
+  }, [stage, text, photo]);
+
   const handleTimeout = () => {
       // If time runs out, we force evaluation or show timeout screen
       if (text.length > 10) {
           handleSubmit();
       } else {
           setStage('timeout');
+          onResult?.({ activity, score: 0 });
+          onAttempt?.({ activity, item: photo.scene, answer: text, correct: null, aiScore: 0, timeSpentMs: Date.now() - shownAtRef.current });
       }
   };
 
+  const startSpeaking = async () => {
+      if (stage !== 'preparing') return;
+      setMicError(null);
+      if (transcriber.usesMicrophone) {
+          try {
+              recordingRef.current = await startRecording();
+          } catch (e) {
+              setMicError("Microphone access was denied. Allow it in your browser, or switch to the simulated transcriber.");
+              return;
+          }
+      }
+      sessionRef.current = transcriber.start(SIMULATED_ANSWER);
+      startedAtRef.current = Date.now();
+      setStage('recording');
+  };
+
+  const stopSpeaking = async () => {
+      if (stage !== 'recording') return;
+      setStage('evaluating');
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      const [heard, audio] = await Promise.all([
+          sessionRef.current ? sessionRef.current.stop() : Promise.resolve(""),
+          recordingRef.current ? recordingRef.current.stop() : Promise.resolve(null)
+      ]);
+      recordingRef.current = null;
+      sessionRef.current = null;
+
+      setText(heard);
+      setAudioUrl(audio ? URL.createObjectURL(audio) : null);
+      setFluency(analyzeFluency(heard, seconds));
+      if (heard.trim().length === 0) {
+          setStage('timeout');
+          onResult?.({ activity, score: 0 });
+          onAttempt?.({ activity, item: photo.scene, answer: '', correct: null, aiScore: 0, timeSpentMs: Date.now() - shownAtRef.current });
+          return;
+      }
+      evaluate(heard);
+  };
+
   if (stage === 'evaluating') {
     return (
       <div className="flex flex-col items-center justify-center h-full animate-pulse">
         <div className="text-4xl mb-4">🤖</div>
-        <h2 className="text-xl font-bold text-det-dark">AI Tutor is grading your writing...</h2>
+        <h2 className="text-xl font-bold text-det-dark">AI Tutor is grading your {mode === 'spoken' ? 'answer' : 'writing'}...</h2>
         <p className="text-gray-500">Checking vocabulary, structure, and spelling.</p>
       </div>
     );
   }
 
+  if (stage === 'error' && error) {
+    return (
+      <div>
+        <AiErrorNotice error={error} onRetry={handleSubmit} onBack={onBack} />
+        <div className="text-center mt-4">
+          <button onClick={scoreOffline} className="text-det-blue font-bold underline">Score it with the offline scorer instead</button>
+        </div>
+      </div>
+    );
+  }
+
   if (stage === 'timeout') {
       return (
         <div className="flex flex-col items-center justify-center h-full p-8 text-center">
             <h2 className="text-3xl font-extrabold text-det-red mb-4">Time's Up!</h2>
-            <p className="text-gray-600 mb-8">You didn't write enough in time. In the real test, keep typing!</p>
-            <button onClick={() => setStage('writing')} className="bg-det-blue text-white px-6 py-3 rounded-xl font-bold">Try Again</button>
+            <p className="text-gray-600 mb-8">
+                {mode === 'spoken'
+                    ? "We couldn't hear your answer. In the real test, keep talking until the time is up!"
+                    : "You didn't write enough in time. In the real test, keep typing!"}
+            </p>
+            <button onClick={() => setStage(mode === 'spoken' ? 'preparing' : 'writing')} className="bg-det-blue text-white px-6 py-3 rounded-xl font-bold">Try Again</button>
             <button onClick={onBack} className="mt-4 text-gray-500 font-bold">Exit</button>
         </div>
       )
@@ -233,8 +553,13 @@ export const PhotoGame = ({ onBack }: { onBack: () => void }) => {
       <div className="max-w-4xl mx-auto p-6 bg-white rounded-2xl shadow-lg my-8">
         <div className="flex justify-between items-start mb-6">
             <h2 className="text-2xl font-bold">Feedback</h2>
-            <div className={`px-4 py-2 rounded-lg font-bold text-white ${result.score > 70 ? 'bg-det-green' : 'bg-det-orange'}`}>
-                Score: {result.score}/100
+            <div className="flex gap-2">
+                <div className="px-4 py-2 rounded-lg font-bold text-gray-600 bg-gray-100" title="How much of what is in the photo you described">
+                    Content: {result.contentScore}/100
+                </div>
+                <div className={`px-4 py-2 rounded-lg font-bold text-white ${result.score > 70 ? 'bg-det-green' : 'bg-det-orange'}`}>
+                    Score: {result.score}/100
+                </div>
             </div>
         </div>
         
@@ -246,11 +571,64 @@ export const PhotoGame = ({ onBack }: { onBack: () => void }) => {
             <div className="bg-gray-50 p-4 rounded-xl">
                 <h3 className="font-bold text-det-orange mb-2">Corrections</h3>
                 <ul className="list-disc pl-5 dys-text text-sm">
-                    {result.corrections?.map((c: string, i: number) => <li key={i}>{c}</li>)}
+                    {result.corrections.map((c, i) => <li key={i}>{c}</li>)}
                 </ul>
             </div>
         </div>
 
+        {mode === 'spoken' && fluency && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                <div className="bg-gray-50 p-4 rounded-xl">
+                    <h3 className="font-bold text-purple-500 mb-2">Your Answer</h3>
+                    {audioUrl && <audio controls src={audioUrl} className="w-full mb-3" />}
+                    <p className="dys-text text-sm italic text-gray-600">"{text}"</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-xl">
+                    <h3 className="font-bold text-purple-500 mb-2">Fluency</h3>
+                    <div className="flex gap-6 mb-3">
+                        <div><span className="text-2xl font-extrabold text-det-dark">{fluency.wordsPerMinute}</span> <span className="text-xs font-bold text-gray-400 uppercase">words / min</span></div>
+                        <div><span className="text-2xl font-extrabold text-det-dark">{fluency.fillerCount}</span> <span className="text-xs font-bold text-gray-400 uppercase">fillers</span></div>
+                    </div>
+                    {fluency.fillers.length > 0 && (
+                        <div className="text-xs text-gray-500 mb-2">{fluency.fillers.map(f => `"${f.filler}" ×${f.count}`).join(', ')}</div>
+                    )}
+                    <ul className="list-disc pl-5 dys-text text-sm">
+                        {fluency.tips.map((tip, i) => <li key={i}>{tip}</li>)}
+                    </ul>
+                </div>
+            </div>
+        )}
+
+        {secondOpinion && (
+            <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 mb-8">
+                <div className="flex justify-between items-center mb-3">
+                    <h3 className="font-bold text-det-dark">Second Opinion <span className="text-xs font-bold text-gray-400 uppercase">offline scorer</span></h3>
+                    <div className={`px-3 py-1 rounded-lg font-bold text-sm ${Math.abs(secondOpinion.evaluation.score - result.score) > 15 ? 'bg-orange-100 text-det-orange' : 'bg-gray-200 text-gray-600'}`}>
+                        {secondOpinion.evaluation.score}/100
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-6 mb-3 text-sm">
+                    <div><span className="text-xl font-extrabold text-det-dark">{secondOpinion.signals.wordCount}</span> <span className="text-xs font-bold text-gray-400 uppercase">words</span></div>
+                    <div><span className="text-xl font-extrabold text-det-dark">{secondOpinion.signals.coverage}%</span> <span className="text-xs font-bold text-gray-400 uppercase">B2/C1 words</span></div>
+                    <div><span className="text-xl font-extrabold text-det-dark">{secondOpinion.signals.connectors.length}</span> <span className="text-xs font-bold text-gray-400 uppercase">connectors</span></div>
+                    <div><span className="text-xl font-extrabold text-det-dark">{secondOpinion.evaluation.contentScore}</span> <span className="text-xs font-bold text-gray-400 uppercase">content</span></div>
+                </div>
+                <div className="flex flex-wrap gap-2 mb-2">
+                    {secondOpinion.signals.stages.map(s => (
+                        <span key={s.stage} className={`text-xs font-bold px-2 py-1 rounded ${s.found ? 'bg-green-100 text-det-green' : 'bg-red-50 text-det-red'}`}>
+                            {s.found ? '✓' : '✗'} {s.stage}
+                        </span>
+                    ))}
+                </div>
+                {secondOpinion.signals.misspellings.length > 0 && (
+                    <p className="text-sm text-gray-600">
+                        Possible misspellings: {secondOpinion.signals.misspellings.map(m => `${m.word} → ${m.suggestion}`).join(', ')}
+                    </p>
+                )}
+                <p className="text-xs text-gray-400 mt-2">Counted from word lists only. A big gap from the AI score is worth a second look.</p>
+            </div>
+        )}
+
         <div className="bg-blue-50 p-4 rounded-xl border border-blue-100 mb-6">
             <h3 className="font-bold text-det-blue mb-2">Suggested Better Version</h3>
             <p className="dys-text italic text-gray-700">"{result.betterVersion}"</p>
@@ -261,20 +639,85 @@ export const PhotoGame = ({ onBack }: { onBack: () => void }) => {
     );
   }
 
+  if (mode === 'spoken') {
+    return (
+      <div className="flex flex-col h-full max-w-5xl mx-auto p-4">
+        <div className="flex justify-between items-center mb-6">
+           <div className="flex items-center gap-2">
+              <span className="bg-det-blue text-white px-2 py-1 rounded text-xs font-bold uppercase">Speaking</span>
+              <span className="text-gray-500 font-semibold">Speak about the photo</span>
+              <ChallengeCode challenge={createChallenge(activity, { photoCategory: category }, seed)} />
+              {stage === 'preparing' && categoryPicker}
+           </div>
+           {stage === 'preparing' && !micError && <Timer key={seed} duration={PREP_SECONDS} onFinish={startSpeaking} label="Prepare" />}
+           {stage === 'recording' && <Timer duration={MAX_SPEAKING_SECONDS} onFinish={stopSpeaking} label="Speaking" />}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 h-full">
+          <div className="rounded-2xl overflow-hidden shadow-md border border-gray-200 bg-gray-100 flex items-center justify-center relative">
+              <img src={imageUrl} alt={photo.scene} className="w-full h-full object-cover" />
+          </div>
+
+          <div className="flex flex-col">
+              {stage === 'preparing' ? (
+                  <>
+                      <h3 className="font-bold text-det-dark mb-3">Plan your answer</h3>
+                      <ol className="space-y-2 mb-6">
+                          {photoMethod.map(step => (
+                              <li key={step.step} className="bg-gray-50 rounded-xl p-3 text-sm">
+                                  <span className="font-bold text-det-blue">{step.step}. {step.name}</span>
+                                  <span className="text-gray-500"> — {step.detail}</span>
+                              </li>
+                          ))}
+                      </ol>
+                      {micError && <div className="mb-4 p-3 bg-red-50 rounded-xl border border-red-100 text-det-red font-bold text-sm">{micError}</div>}
+                      <select
+                          value={transcriber.id}
+                          onChange={(e) => { setTranscriber(transcribers.find(t => t.id === e.target.value) || transcriber); setMicError(null); }}
+                          className="mb-4 p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none bg-white"
+                      >
+                          {transcribers.filter(t => t.isAvailable()).map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                      </select>
+                      <button onClick={startSpeaking} className="mt-auto bg-det-red text-white py-3 px-6 rounded-xl font-bold shadow-md active:translate-y-0.5">● START SPEAKING NOW</button>
+                  </>
+              ) : (
+                  <>
+                      <div className="flex-1 flex flex-col items-center justify-center bg-gray-50 rounded-2xl mb-4">
+                          <div className="w-20 h-20 rounded-full bg-det-red text-white text-3xl flex items-center justify-center animate-pulse mb-4">🎤</div>
+                          <p className="font-bold text-det-dark">Recording...</p>
+                          <p className="text-sm text-gray-500">Speak for at least {MIN_SPEAKING_SECONDS} seconds.</p>
+                      </div>
+                      <button
+                          onClick={stopSpeaking}
+                          disabled={!canStop}
+                          className="bg-det-dark text-white py-3 px-6 rounded-xl font-bold shadow-md disabled:opacity-50"
+                      >
+                          ■ FINISH
+                      </button>
+                  </>
+              )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-full max-w-5xl mx-auto p-4">
       <div className="flex justify-between items-center mb-6">
          <div className="flex items-center gap-2">
             <span className="bg-det-orange text-white px-2 py-1 rounded text-xs font-bold uppercase">Writing</span>
             <span className="text-gray-500 font-semibold">Describe the image</span>
+            <ChallengeCode challenge={createChallenge(activity, { photoCategory: category }, seed)} />
+            {categoryPicker}
          </div>
          {/* STRICT 60s TIMER */}
-         <Timer duration={60} onFinish={handleTimeout} />
+         <Timer key={seed} duration={60} onFinish={handleTimeout} />
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 h-full">
         <div className="rounded-2xl overflow-hidden shadow-md border border-gray-200 bg-gray-100 flex items-center justify-center relative">
-            <img src={imageUrl} alt="DET Practice" className="w-full h-full object-cover" />
+            <img src={imageUrl} alt={photo.scene} className="w-full h-full object-cover" />
             <div className="absolute bottom-2 left-2 bg-black/50 text-white text-xs px-2 py-1 rounded">
                 Structure: Intro → Foreground → Background → Speculation
             </div>
@@ -311,22 +754,36 @@ export const PhotoGame = ({ onBack }: { onBack: () => void }) => {
 };
 
 // --- Game 3: Fill in the Blanks (Sentence Level) ---
-// Mimics "Complete the sentence with the correct word"
-export const FillBlankGame = ({ onBack }: { onBack: () => void }) => {
-    const [data, setData] = useState<{sentence: string, missingWord: string} | null>(null);
+// Mimics "Complete the sentence with the correct word".
+// With a seed, sentences come from the local bank, so the whole sequence can be replayed.
+export const FillBlankGame = ({ onBack, onResult, onAttempt, onSpellingAnalyzed, seed: fixedSeed }: { onBack: () => void, onResult?: OnActivityResult, onAttempt?: OnAttempt, onSpellingAnalyzed?: OnSpellingAnalyzed, seed?: number }) => {
+    const [data, setData] = useState<FillInBlankTask | null>(null);
+    const [error, setError] = useState<AiServiceError | null>(null);
     const [userInput, setUserInput] = useState("");
     const [feedback, setFeedback] = useState<'none' | 'correct' | 'incorrect'>('none');
+    const [analysis, setAnalysis] = useState<SpellingAnalysis | null>(null);
+    const shownAtRef = useRef(Date.now());
     const [loading, setLoading] = useState(false);
+    const [seed, setSeed] = useState(0);
     
     // Prefix logic: show first 1-2 letters depending on length
     const getPrefix = (word: string) => word.substring(0, Math.max(1, Math.floor(word.length / 3)));
     
-    const loadNew = async () => {
+    const loadNew = async (sentenceSeed: number) => {
         setLoading(true);
         setFeedback('none');
         setUserInput("");
-        const res = await generateFillInBlank();
-        setData(res);
+        setAnalysis(null);
+        setError(null);
+        setSeed(sentenceSeed);
+        const random = createRandom(sentenceSeed);
+        try {
+            const res = fixedSeed === undefined ? await generateFillInBlank(random) : pickSentenceTask(random);
+            setData(res);
+            shownAtRef.current = Date.now();
+        } catch (e) {
+            setError(asAiError(e, 'fillInBlank'));
+        }
         setLoading(false);
     };
 
@@ -336,20 +793,24 @@ export const FillBlankGame = ({ onBack }: { onBack: () => void }) => {
         }
     };
 
-    useEffect(() => { loadNew(); }, []);
+    useEffect(() => { loadNew(fixedSeed ?? randomSeed()); }, []);
 
     const checkAnswer = (isTimeout = false) => {
         if (!data) return;
         const prefix = getPrefix(data.missingWord);
         const fullAttempt = prefix + userInput;
         
-        if (fullAttempt.trim().toLowerCase() === data.missingWord.toLowerCase()) {
-            setFeedback('correct');
-        } else {
-            setFeedback('incorrect');
-        }
+        const result = analyzeSpelling(data.missingWord, fullAttempt);
+        const isCorrect = result.isCorrect;
+        setFeedback(isCorrect ? 'correct' : 'incorrect');
+        setAnalysis(result);
+        // An empty answer says nothing about spelling
+        if (userInput.trim()) onSpellingAnalyzed?.(result);
+        onResult?.({ activity: 'spelling', score: isCorrect ? 100 : 0, correct: isCorrect ? 1 : 0, total: 1 });
+        onAttempt?.({ activity: 'spelling', item: data.missingWord, answer: userInput.trim() ? fullAttempt : '', correct: isCorrect, timeSpentMs: Date.now() - shownAtRef.current });
     };
 
+    if (error) return <AiErrorNotice error={error} onRetry={() => loadNew(seed)} onBack={onBack} />;
     if (loading || !data) return <div className="text-center mt-20">Generating sentence...</div>;
 
     const prefix = getPrefix(data.missingWord);
@@ -359,7 +820,10 @@ export const FillBlankGame = ({ onBack }: { onBack: () => void }) => {
     return (
         <div className="max-w-3xl mx-auto mt-10 p-6 bg-white rounded-2xl shadow-md border border-gray-100">
              <div className="flex justify-between items-center mb-8 border-b border-gray-100 pb-4">
-                 <h2 className="text-xl font-bold text-det-dark">Complete the sentence</h2>
+                 <div className="flex items-center gap-3">
+                     <h2 className="text-xl font-bold text-det-dark">Complete the sentence</h2>
+                     {fixedSeed !== undefined && <ChallengeCode challenge={createChallenge('spelling', {}, seed)} />}
+                 </div>
                  <Timer duration={20} onFinish={handleTimeUp} label="0" />
              </div>
 
@@ -388,6 +852,12 @@ export const FillBlankGame = ({ onBack }: { onBack: () => void }) => {
                  <div className="mb-6 p-4 bg-red-50 rounded-xl border border-red-100">
                      <p className="text-det-red font-bold">Incorrect or Time Up!</p>
                      <p className="text-det-dark">The correct word was: <span className="font-extrabold">{data.missingWord}</span></p>
+                     {analysis && userInput.trim() && analysis.errors.length > 0 && (
+                         <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                             <span className="text-gray-500">You wrote <span className="font-bold">{prefix + userInput.trim()}</span>:</span>
+                             <SpellingErrorTags analysis={analysis} />
+                         </div>
+                     )}
                  </div>
              )}
 
@@ -399,7 +869,7 @@ export const FillBlankGame = ({ onBack }: { onBack: () => void }) => {
 
              <div className="flex justify-end">
                  {feedback !== 'none' ? (
-                     <button onClick={loadNew} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md hover:translate-y-[-2px] transition-transform">NEXT SENTENCE</button>
+                     <button onClick={() => loadNew(nextSeed(seed))} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md hover:translate-y-[-2px] transition-transform">NEXT SENTENCE</button>
                  ) : (
                      <button onClick={() => checkAnswer()} className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1">SUBMIT</button>
                  )}
@@ -409,124 +879,143 @@ export const FillBlankGame = ({ onBack }: { onBack: () => void }) => {
 };
 
 // --- Game 4: Complete the Text (C-Test / Paragraph Level) ---
-interface Token {
-    fullWord: string;
-    prefix: string;
-    isBlank: boolean;
-    userAnswer: string;
-    isCorrect?: boolean;
-}
-
-export const CompleteTextGame = ({ onBack }: { onBack: () => void }) => {
-    const [tokens, setTokens] = useState<Token[]>([]);
+// With a seed, the paragraph comes from the bank and the whole task can be rebuilt exactly;
+// otherwise the paragraph is generated and the seed only fixes which words are blanked.
+export const CompleteTextGame = ({ onBack, onResult, onAttempt, onSpellingAnalyzed, seed: fixedSeed, difficulty: initialDifficulty = 'standard' }: { onBack: () => void, onResult?: OnActivityResult, onAttempt?: OnAttempt, onSpellingAnalyzed?: OnSpellingAnalyzed, seed?: number, difficulty?: CTestDifficulty }) => {
+    const [text, setText] = useState("");
     const [topic, setTopic] = useState("");
+    const [seed, setSeed] = useState(0);
+    const [difficulty, setDifficulty] = useState<CTestDifficulty>(initialDifficulty);
+    const [fromBank, setFromBank] = useState(false);
+    const [answers, setAnswers] = useState<Record<number, string>>({});
+    const [scores, setScores] = useState<BlankScore[] | null>(null);
     const [loading, setLoading] = useState(true);
-    const [gameState, setGameState] = useState<'playing' | 'review'>('playing');
+    const [error, setError] = useState<AiServiceError | null>(null);
+    const shownAtRef = useRef(Date.now());
+    const gameState = scores ? 'review' : 'playing';
+
+    const test = useMemo(() => buildCTest(text, seed, difficulty), [text, seed, difficulty]);
 
     useEffect(() => {
-        loadLevel();
+        loadLevel(fixedSeed);
     }, []);
 
-    const loadLevel = async () => {
+    const loadLevel = async (levelSeed?: number) => {
         setLoading(true);
-        setGameState('playing');
-        const data = await generateParagraphTask();
+        setScores(null);
+        setAnswers({});
+        setError(null);
+        let data: ParagraphTask;
+        try {
+            data = levelSeed === undefined ? await generateParagraphTask() : seededParagraph(levelSeed);
+        } catch (e) {
+            setError(asAiError(e, 'paragraph'));
+            setLoading(false);
+            return;
+        }
         setTopic(data.topic);
-        
-        // Process text into C-Test tokens
-        const rawWords = data.text.split(/(\s+|[.,!?;])/); // Split keeping delimiters
-        const newTokens: Token[] = rawWords.map((w: string) => {
-            const isWord = /^[a-zA-Z]+$/.test(w);
-            // Randomly blank out ~40% of words that are long enough (>3 chars)
-            const shouldBlank = isWord && w.length > 3 && Math.random() > 0.6;
-            
-            if (shouldBlank) {
-                const prefixLen = Math.ceil(w.length / 2); // Show first half
-                const prefix = w.substring(0, 1); // DET style often shows just 1 or 2 letters. Let's do 1-2.
-                const visualPrefix = w.substring(0, Math.max(1, Math.floor(w.length / 2)));
-                
-                return {
-                    fullWord: w,
-                    prefix: visualPrefix,
-                    isBlank: true,
-                    userAnswer: ""
-                };
-            } else {
-                return { fullWord: w, prefix: "", isBlank: false, userAnswer: "" };
-            }
-        });
-        setTokens(newTokens);
+        setText(data.text);
+        setSeed(levelSeed ?? randomSeed());
+        setFromBank(levelSeed !== undefined);
         setLoading(false);
+        shownAtRef.current = Date.now();
     };
 
-    const handleInput = (index: number, value: string) => {
-        const newTokens = [...tokens];
-        newTokens[index].userAnswer = value;
-        setTokens(newTokens);
+    // Blank positions change with the difficulty, so answers typed so far no longer apply
+    const changeDifficulty = (value: CTestDifficulty) => {
+        setDifficulty(value);
+        setAnswers({});
     };
 
     const checkAnswers = () => {
-        const checkedTokens = tokens.map(t => {
-            if (!t.isBlank) return t;
-            const fullGuess = t.prefix + t.userAnswer;
-            // Loose check (case insensitive)
-            const isCorrect = fullGuess.toLowerCase() === t.fullWord.toLowerCase();
-            return { ...t, isCorrect };
+        const result = scoreCTest(test, answers);
+        setScores(result.blanks);
+        const timeSpentMs = Date.now() - shownAtRef.current;
+        result.blanks.forEach(b => {
+            const answered = !!answers[b.id]?.trim();
+            if (answered) onSpellingAnalyzed?.(analyzeSpelling(b.word, b.given));
+            onAttempt?.({ activity: 'completetext', item: b.word, answer: answered ? b.given : '', correct: b.credit === 1, timeSpentMs });
         });
-        setTokens(checkedTokens);
-        setGameState('review');
+        onResult?.({ activity: 'completetext', score: result.score, correct: result.blanks.filter(b => b.credit === 1).length, total: result.blanks.length });
     };
 
+    if (error) return <AiErrorNotice error={error} onRetry={() => loadLevel()} onBack={onBack} />;
     if (loading) return <div className="text-center mt-20">Generating paragraph task...</div>;
 
+    const scoreOf = (id: number) => scores?.find(b => b.id === id);
+    const mistakes = (scores || []).filter(b => b.credit < 1);
+
     return (
         <div className="max-w-4xl mx-auto mt-6 p-8 bg-white rounded-2xl shadow-md">
             <div className="flex justify-between items-center mb-6">
                 <div>
                     <h2 className="text-xl font-bold text-det-dark">Complete the text</h2>
-                    <p className="text-sm text-gray-500">Topic: {topic}</p>
+                    <p className="text-sm text-gray-500 mb-1">Topic: {topic}{!fromBank && ` · Seed ${seed}`}</p>
+                    {fromBank && <ChallengeCode challenge={createChallenge('completetext', { cTest: difficulty }, seed)} />}
+                </div>
+                <div className="flex items-center gap-4">
+                    <select
+                        value={difficulty}
+                        onChange={(e) => changeDifficulty(e.target.value as CTestDifficulty)}
+                        disabled={gameState === 'review'}
+                        title={cTestDifficultyLabels[difficulty].description}
+                        className="p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none"
+                    >
+                        {(Object.keys(cTestDifficultyLabels) as CTestDifficulty[]).map(level => (
+                            <option key={level} value={level}>{cTestDifficultyLabels[level].label}</option>
+                        ))}
+                    </select>
+                    {gameState === 'playing' && <Timer duration={180} onFinish={checkAnswers} label="Time Left" />}
                 </div>
-                {gameState === 'playing' && <Timer duration={180} onFinish={checkAnswers} label="Time Left" />}
             </div>
 
             <div className="leading-loose text-lg text-justify mb-8">
-                {tokens.map((token, idx) => {
-                    if (!token.isBlank) {
-                        return <span key={idx}>{token.fullWord}</span>;
+                {test.tokens.map((token, idx) => {
+                    if (token.kind === 'text') {
+                        return <span key={idx}>{token.text}</span>;
                     }
-                    
-                    const statusClass = gameState === 'playing' 
-                        ? 'border-gray-300 bg-gray-50' 
-                        : token.isCorrect 
-                            ? 'border-det-green bg-green-50 text-det-green' 
-                            : 'border-det-red bg-red-50 text-det-red';
+
+                    const credit = scoreOf(token.id)?.credit ?? 0;
+                    const statusClass = gameState === 'playing'
+                        ? 'border-gray-300 bg-gray-50'
+                        : credit === 1
+                            ? 'border-det-green bg-green-50 text-det-green'
+                            : credit > 0
+                                ? 'border-det-orange bg-orange-50 text-det-orange'
+                                : 'border-det-red bg-red-50 text-det-red';
 
                     return (
                         <div key={idx} className={`inline-flex items-center mx-1 border rounded px-1 py-0.5 ${statusClass}`}>
                             <span className="font-bold text-gray-600 select-none mr-0.5">{token.prefix}</span>
-                            <input 
+                            <input
                                 type="text"
-                                value={token.userAnswer}
-                                onChange={(e) => handleInput(idx, e.target.value)}
+                                value={answers[token.id] || ''}
+                                onChange={(e) => setAnswers(prev => ({ ...prev, [token.id]: e.target.value }))}
                                 disabled={gameState === 'review'}
                                 className={`bg-transparent outline-none min-w-[30px] w-auto max-w-[100px] ${gameState === 'review' ? 'font-bold' : ''}`}
-                                style={{ width: `${Math.max(2, (token.fullWord.length - token.prefix.length) * 0.8)}em`}}
+                                style={{ width: `${Math.max(2, token.answer.length * 0.8)}em`}}
                             />
+                            {token.suffix && <span className="font-bold text-gray-600 select-none">{token.suffix}</span>}
                         </div>
                     );
                 })}
             </div>
 
-            {gameState === 'review' && (
+            {gameState === 'review' && mistakes.length > 0 && (
                 <div className="mb-6 p-4 bg-gray-50 rounded-xl">
                     <h3 className="font-bold mb-2">Corrections:</h3>
                     <div className="flex flex-wrap gap-2">
-                        {tokens.filter(t => t.isBlank && !t.isCorrect).map((t, i) => (
-                            <span key={i} className="text-sm bg-white border border-red-200 px-2 py-1 rounded">
-                                <span className="text-red-500 line-through mr-2">{t.prefix + t.userAnswer}</span>
-                                <span className="text-det-green font-bold">{t.fullWord}</span>
-                            </span>
-                        ))}
+                        {mistakes.map(b => {
+                            const analysis = answers[b.id]?.trim() ? analyzeSpelling(b.word, b.given) : null;
+                            return (
+                                <span key={b.id} className="text-sm bg-white border border-red-200 px-2 py-1 rounded inline-flex items-center gap-2">
+                                    <span className="text-red-500 line-through">{b.given}</span>
+                                    <span className="text-det-green font-bold">{b.word}</span>
+                                    {b.credit > 0 && <span className="text-xs text-det-orange font-bold">{Math.round(b.credit * 100)}%</span>}
+                                    {analysis && <SpellingErrorTags analysis={analysis} />}
+                                </span>
+                            );
+                        })}
                     </div>
                 </div>
             )}
@@ -537,10 +1026,10 @@ export const CompleteTextGame = ({ onBack }: { onBack: () => void }) => {
                  ) : (
                      <>
                         <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
-                        <button onClick={loadLevel} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">Next Paragraph</button>
+                        <button onClick={() => loadLevel(fromBank ? nextSeed(seed) : undefined)} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">Next Paragraph</button>
                      </>
                  )}
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { WordDef } from '../data';
+import { toDayKey } from '../services/srsService';
+import { AttemptRecord, HistoryActivity, queryAttempts, summarizeAttempts, daysAgo } from '../services/attemptHistory';
+import {
+    activityLabels, TREND_DAYS, dailyTrend, practisedActivities, breakdownBy, weakestWords, photoScores
+} from '../services/analytics';
+
+// --- Charts (plain SVG, no chart library) ---
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const PADDING = 24;
+
+// Line through the non-empty points; gaps (null) are skipped rather than drawn as zero
+const LineChart = ({ values, max, labels, colorClass, formatValue }: {
+    values: (number | null)[],
+    max: number,
+    labels: string[],
+    colorClass: string,
+    formatValue: (value: number) => string
+}) => {
+    const step = values.length > 1 ? (CHART_WIDTH - PADDING * 2) / (values.length - 1) : 0;
+    const x = (i: number) => PADDING + i * step;
+    const y = (value: number) => CHART_HEIGHT - PADDING - (Math.min(value, max) / (max || 1)) * (CHART_HEIGHT - PADDING * 2);
+    const points = values.map((value, i) => ({ value, i })).filter((p): p is { value: number, i: number } => p.value !== null);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={`w-full h-auto ${colorClass}`}>
+            <line x1={PADDING} y1={y(0)} x2={CHART_WIDTH - PADDING} y2={y(0)} stroke="#e5e7eb" strokeWidth={1} />
+            <line x1={PADDING} y1={y(max)} x2={CHART_WIDTH - PADDING} y2={y(max)} stroke="#f3f4f6" strokeWidth={1} />
+            <text x={PADDING - 4} y={y(max) + 3} textAnchor="end" fontSize={8} fill="#9ca3af">{formatValue(max)}</text>
+            <text x={PADDING - 4} y={y(0) + 3} textAnchor="end" fontSize={8} fill="#9ca3af">{formatValue(0)}</text>
+            {points.length > 1 && (
+                <polyline
+                    points={points.map(p => `${x(p.i)},${y(p.value)}`).join(' ')}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                />
+            )}
+            {points.map(p => (
+                <circle key={p.i} cx={x(p.i)} cy={y(p.value)} r={3} fill="currentColor">
+                    <title>{`${labels[p.i]}: ${formatValue(p.value)}`}</title>
+                </circle>
+            ))}
+            {labels.length > 0 && (
+                <>
+                    <text x={x(0)} y={CHART_HEIGHT - 6} textAnchor="start" fontSize={8} fill="#9ca3af">{labels[0]}</text>
+                    <text x={x(labels.length - 1)} y={CHART_HEIGHT - 6} textAnchor="end" fontSize={8} fill="#9ca3af">{labels[labels.length - 1]}</text>
+                </>
+            )}
+        </svg>
+    );
+};
+
+const BAR_HEIGHT = 18;
+
+const BarChart = ({ rows }: { rows: { key: string, count: number, accuracy: number }[] }) => {
+    const labelWidth = 70;
+    const barWidth = CHART_WIDTH - labelWidth - 40;
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${rows.length * (BAR_HEIGHT + 6)}`} className="w-full h-auto">
+            {rows.map((row, i) => {
+                const top = i * (BAR_HEIGHT + 6);
+                const colorClass = row.accuracy >= 80 ? 'text-det-green' : row.accuracy >= 50 ? 'text-det-orange' : 'text-det-red';
+                return (
+                    <g key={row.key}>
+                        <text x={labelWidth - 6} y={top + BAR_HEIGHT / 2 + 3} textAnchor="end" fontSize={9} fontWeight="bold" fill="#4b5563">{row.key}</text>
+                        <rect x={labelWidth} y={top} width={barWidth} height={BAR_HEIGHT} rx={4} fill="#f3f4f6" />
+                        <rect x={labelWidth} y={top} width={(row.accuracy / 100) * barWidth} height={BAR_HEIGHT} rx={4} fill="currentColor" className={colorClass} />
+                        <text x={labelWidth + barWidth + 4} y={top + BAR_HEIGHT / 2 + 3} fontSize={9} fill="#6b7280">{row.accuracy}% ({row.count})</text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+const shortDay = (day: string) => day.slice(5).replace('-', '/');
+
+const Card = ({ title, children }: { title: string, children: React.ReactNode }) => (
+    <div className="bg-white p-6 rounded-2xl border border-gray-200">
+        <h3 className="font-bold text-lg mb-4">{title}</h3>
+        {children}
+    </div>
+);
+
+const Empty = ({ text }: { text: string }) => <p className="text-sm text-gray-500">{text}</p>;
+
+// --- Progress Analytics ---
+// extraWords: saved and imported words, so they count in the level and type breakdowns
+export const AnalyticsView = ({ attempts, extraWords }: { attempts: AttemptRecord[], extraWords: WordDef[] }) => {
+    const activities = practisedActivities(attempts);
+    const [selected, setSelected] = useState<HistoryActivity | null>(null);
+    const activity = selected && activities.includes(selected) ? selected : activities[0];
+
+    if (!activity) {
+        return (
+            <div className="max-w-xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-md text-center">
+                <div className="text-6xl mb-4">📈</div>
+                <h2 className="text-2xl font-bold text-det-dark mb-2">No data yet</h2>
+                <p className="text-gray-500">Answer a few questions in any activity and your progress will show up here.</p>
+            </div>
+        );
+    }
+
+    const recent = queryAttempts(attempts, { from: daysAgo(TREND_DAYS - 1) });
+    const trend = dailyTrend(attempts, activity);
+    const labels = trend.map(p => shortDay(p.day));
+    const seconds = trend.map(p => p.averageTimeMs === null ? null : Math.round(p.averageTimeMs / 100) / 10);
+    const maxSeconds = Math.max(10, ...seconds.filter((s): s is number => s !== null).map(Math.ceil));
+    const byLevel = breakdownBy(recent, 'level', extraWords);
+    const byType = breakdownBy(recent, 'type', extraWords);
+    const scores = photoScores(attempts);
+    const weakest = weakestWords(attempts, 10, 2, extraWords);
+
+    return (
+        <div className="max-w-5xl mx-auto">
+            <h2 className="text-3xl font-extrabold text-det-dark mb-2">Progress Analytics</h2>
+            <p className="text-gray-500 mb-8">Your last {TREND_DAYS} days of practice, by task, level and word.</p>
+
+            <div className="bg-white p-6 rounded-2xl border border-gray-200 mb-6 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs font-bold text-gray-400 uppercase">
+                            <th className="pb-2">Task</th>
+                            <th className="pb-2 text-right">Answers</th>
+                            <th className="pb-2 text-right">Accuracy</th>
+                            <th className="pb-2 text-right">Avg. score</th>
+                            <th className="pb-2 text-right">Avg. time</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {activities.map(a => {
+                            const summary = summarizeAttempts(recent.filter(r => r.activity === a));
+                            return (
+                                <tr
+                                    key={a}
+                                    onClick={() => setSelected(a)}
+                                    className={`border-t border-gray-100 cursor-pointer ${a === activity ? 'bg-blue-50 text-det-blue font-bold' : 'hover:bg-gray-50'}`}
+                                >
+                                    <td className="py-2">{activityLabels[a]}</td>
+                                    <td className="py-2 text-right">{summary.count}</td>
+                                    <td className="py-2 text-right">{summary.accuracy === null ? '–' : `${summary.accuracy}%`}</td>
+                                    <td className="py-2 text-right">{summary.averageScore === null ? '–' : summary.averageScore}</td>
+                                    <td className="py-2 text-right">{summary.count ? `${Math.round(summary.totalTimeMs / summary.count / 1000)}s` : '–'}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                <Card title={`${activityLabels[activity]}: accuracy`}>
+                    <LineChart values={trend.map(p => p.accuracy)} max={100} labels={labels} colorClass="text-det-green" formatValue={v => `${v}%`} />
+                </Card>
+                <Card title={`${activityLabels[activity]}: time per answer`}>
+                    <LineChart values={seconds} max={maxSeconds} labels={labels} colorClass="text-det-blue" formatValue={v => `${v}s`} />
+                </Card>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                <Card title="Accuracy by CEFR level">
+                    {byLevel.length ? <BarChart rows={byLevel} /> : <Empty text="No word answers in the last two weeks." />}
+                </Card>
+                <Card title="Accuracy by word type">
+                    {byType.length ? <BarChart rows={byType} /> : <Empty text="No word answers in the last two weeks." />}
+                </Card>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                <Card title="Photo description scores">
+                    {scores.length ? (
+                        <>
+                            <LineChart
+                                values={scores.map(s => s.score)}
+                                max={100}
+                                labels={scores.map(s => shortDay(toDayKey(new Date(s.timestamp))))}
+                                colorClass="text-det-orange"
+                                formatValue={v => `${v}`}
+                            />
+                            <p className="text-xs text-gray-400 mt-2">
+                                {scores.length} descriptions · latest {scores[scores.length - 1].score}/100 · best {Math.max(...scores.map(s => s.score))}/100
+                            </p>
+                        </>
+                    ) : <Empty text="Describe a photo to see your scores over time." />}
+                </Card>
+                <Card title="Weakest words">
+                    {weakest.length ? (
+                        <ul className="divide-y divide-gray-100">
+                            {weakest.map(w => (
+                                <li key={w.word} className="flex justify-between py-2 text-sm">
+                                    <span className="font-bold text-det-dark">{w.word}</span>
+                                    <span className={w.accuracy < 50 ? 'text-det-red font-bold' : 'text-det-orange font-bold'}>
+                                        {w.accuracy}% <span className="text-gray-400 font-normal">of {w.attempts}</span>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : <Empty text="Words you get wrong show up here once you have answered them twice." />}
+                </Card>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ActivityId } from '../types';
+import { activityLabels } from '../services/analytics';
+import { PseudoWordDifficulty, pseudoWordDifficultyLabels } from '../services/pseudoWords';
+import { CTestDifficulty, cTestDifficultyLabels } from '../services/cTest';
+import { PhotoCategory } from '../data';
+import { photoCategoryLabels } from '../services/photoBank';
+import { Challenge, challengeActivities, createChallenge, decodeChallenge, describeChallenge } from '../services/challenge';
+
+const selectClass = "p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none bg-white";
+
+// --- Open a shared code, or start a new challenge to share ---
+export const ChallengePanel = ({ onOpen }: { onOpen: (challenge: Challenge) => void }) => {
+    const [code, setCode] = useState("");
+    const [invalid, setInvalid] = useState(false);
+    const [activity, setActivity] = useState<ActivityId>('realword');
+    const [pseudoWords, setPseudoWords] = useState<PseudoWordDifficulty>('medium');
+    const [speedMode, setSpeedMode] = useState(false);
+    const [cTest, setCTest] = useState<CTestDifficulty>('standard');
+    const [photoCategory, setPhotoCategory] = useState<PhotoCategory | ''>('');
+
+    const decoded = code.trim() ? decodeChallenge(code) : null;
+
+    const open = () => {
+        if (decoded) onOpen(decoded);
+        else setInvalid(true);
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-10">
+            <h3 className="text-xl font-bold text-det-dark mb-1">Challenges</h3>
+            <p className="text-sm text-gray-500 mb-4">Everyone who opens the same code gets exactly the same items, so you can compete with friends or practise a set your tutor chose.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <div className="text-xs font-bold text-gray-400 uppercase mb-2">Enter a code</div>
+                    <div className="flex gap-2">
+                        <input
+                            value={code}
+                            onChange={(e) => { setCode(e.target.value); setInvalid(false); }}
+                            onKeyDown={(e) => e.key === 'Enter' && open()}
+                            placeholder="e.g. RS-HS-2F7KQ"
+                            className="flex-1 p-2 border-2 border-gray-200 rounded-xl font-mono font-bold uppercase tracking-wider text-det-dark focus:border-det-blue focus:outline-none"
+                        />
+                        <button onClick={open} disabled={!code.trim()} className="bg-det-blue text-white px-5 py-2 rounded-xl font-bold shadow-md disabled:opacity-50 disabled:shadow-none">Open</button>
+                    </div>
+                    {decoded && <p className="text-xs text-gray-500 mt-2">{describeChallenge(decoded)}</p>}
+                    {invalid && <p className="text-xs text-det-red font-bold mt-2">That code is not valid. Check it for typos.</p>}
+                </div>
+                <div>
+                    <div className="text-xs font-bold text-gray-400 uppercase mb-2">Create a challenge</div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select value={activity} onChange={(e) => setActivity(e.target.value as ActivityId)} className={selectClass}>
+                            {challengeActivities.map(a => <option key={a} value={a}>{activityLabels[a]}</option>)}
+                        </select>
+                        {activity === 'realword' && (
+                            <>
+                                <select value={pseudoWords} onChange={(e) => setPseudoWords(e.target.value as PseudoWordDifficulty)} className={selectClass}>
+                                    {(Object.keys(pseudoWordDifficultyLabels) as PseudoWordDifficulty[]).map(level => (
+                                        <option key={level} value={level}>{pseudoWordDifficultyLabels[level].label}</option>
+                                    ))}
+                                </select>
+                                <label className="flex items-center gap-1 text-sm font-bold text-gray-600">
+                                    <input type="checkbox" checked={speedMode} onChange={(e) => setSpeedMode(e.target.checked)} />
+                                    Speed Mode
+                                </label>
+                            </>
+                        )}
+                        {activity === 'completetext' && (
+                            <select value={cTest} onChange={(e) => setCTest(e.target.value as CTestDifficulty)} className={selectClass}>
+                                {(Object.keys(cTestDifficultyLabels) as CTestDifficulty[]).map(level => (
+                                    <option key={level} value={level}>{cTestDifficultyLabels[level].label}</option>
+                                ))}
+                            </select>
+                        )}
+                        {(activity === 'photo' || activity === 'speakphoto') && (
+                            <select value={photoCategory} onChange={(e) => setPhotoCategory(e.target.value as PhotoCategory | '')} className={selectClass}>
+                                <option value="">Any topic</option>
+                                {(Object.keys(photoCategoryLabels) as PhotoCategory[]).map(c => <option key={c} value={c}>{photoCategoryLabels[c]}</option>)}
+                            </select>
+                        )}
+                        <button
+                            onClick={() => onOpen(createChallenge(activity, { pseudoWords, speedMode, cTest, photoCategory: photoCategory || undefined }))}
+                            className="bg-det-green text-white px-5 py-2 rounded-xl font-bold shadow-md active:translate-y-0.5"
+                        >
+                            Start
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">The code to share is shown in the activity.</p>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { WordDef } from '../data';
+import { SrsDeck } from '../services/srsService';
+import { getAllCachedWordDetails } from '../services/wordDetailsCache';
+import {
+    ExportFormat, ExportFilters, exportFormatLabels, buildExportRows, renderExport, deckExportFileName, toPrintableHtml
+} from '../services/deckExport';
+import { downloadFile } from './ProfileBackup';
+
+export interface ExportableDeck {
+    id: string;
+    label: string;
+    words: WordDef[];
+}
+
+// --- Export decks to Anki, CSV or a printable sheet ---
+export const DeckExport = ({ decks, srsDeck, onBack }: { decks: ExportableDeck[], srsDeck: SrsDeck, onBack: () => void }) => {
+    const [deckId, setDeckId] = useState(decks[0]?.id || '');
+    const [filters, setFilters] = useState<ExportFilters>({ unknownOnly: false, c1Only: false });
+    const [format, setFormat] = useState<ExportFormat>('anki');
+
+    const deck = decks.find(d => d.id === deckId) || decks[0];
+    const rows = deck ? buildExportRows(deck.words, srsDeck, getAllCachedWordDetails(), filters) : [];
+    const withExample = rows.filter(row => row.example).length;
+    const title = [deck?.label, filters.unknownOnly && 'unknown words', filters.c1Only && 'C1'].filter(Boolean).join(' – ');
+
+    const download = () => {
+        const { mimeType } = exportFormatLabels[format];
+        downloadFile(deckExportFileName(title, format), renderExport(format, rows, deck.label), mimeType);
+    };
+
+    const print = () => {
+        const sheet = window.open('', '_blank');
+        if (!sheet) return;
+        sheet.document.write(toPrintableHtml(rows, title));
+        sheet.document.close();
+        sheet.focus();
+        sheet.print();
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-6 px-4">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-3xl font-extrabold text-det-dark">Export a Deck</h2>
+                <button onClick={onBack} className="text-gray-500 font-bold">← Categories</button>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6 space-y-4">
+                <label className="block text-xs font-bold text-gray-400 uppercase">
+                    Deck
+                    <select value={deck?.id} onChange={(e) => setDeckId(e.target.value)} className="mt-1 w-full p-3 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 normal-case bg-white">
+                        {decks.map(d => <option key={d.id} value={d.id}>{d.label} ({d.words.length})</option>)}
+                    </select>
+                </label>
+
+                <div className="flex gap-6 text-sm font-bold text-gray-600">
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={filters.unknownOnly} onChange={(e) => setFilters({ ...filters, unknownOnly: e.target.checked })} />
+                        Unknown words only
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={filters.c1Only} onChange={(e) => setFilters({ ...filters, c1Only: e.target.checked })} />
+                        C1 only
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                    {(Object.keys(exportFormatLabels) as ExportFormat[]).map(f => (
+                        <button
+                            key={f}
+                            onClick={() => setFormat(f)}
+                            className={`p-3 rounded-xl border-2 font-bold text-sm ${format === f ? 'border-det-blue bg-blue-50 text-det-blue' : 'border-gray-200 text-gray-500'}`}
+                        >
+                            {exportFormatLabels[f].label}
+                        </button>
+                    ))}
+                </div>
+
+                <p className="text-sm text-gray-500">
+                    {rows.length} words · {withExample} with an example sentence.
+                    {rows.length > withExample && ' Examples appear here once a card has been flipped in the flashcards.'}
+                </p>
+            </div>
+
+            {rows.length > 0 && (
+                <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6 overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs font-bold text-gray-400 uppercase">
+                                <th className="pb-2">Word</th>
+                                <th className="pb-2">Level</th>
+                                <th className="pb-2">Translation</th>
+                                <th className="pb-2">Example</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.slice(0, 8).map(row => (
+                                <tr key={row.word} className="border-t border-gray-100">
+                                    <td className="py-1 font-bold">{row.word}</td>
+                                    <td className="py-1">{row.level}</td>
+                                    <td className="py-1">{row.translation}</td>
+                                    <td className="py-1 italic text-gray-500">{row.example}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {rows.length > 8 && <p className="text-xs text-gray-400 mt-2">…and {rows.length - 8} more.</p>}
+                </div>
+            )}
+
+            <div className="flex gap-3">
+                <button onClick={download} disabled={rows.length === 0} className="flex-1 bg-det-blue text-white py-3 rounded-xl font-bold shadow-md disabled:opacity-50">
+                    Download {exportFormatLabels[format].label}
+                </button>
+                {format === 'html' && (
+                    <button onClick={print} disabled={rows.length === 0} className="bg-gray-200 text-gray-700 px-6 py-3 rounded-xl font-bold disabled:opacity-50">
+                        Print
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
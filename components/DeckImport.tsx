@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { WordDef } from '../data';
+import {
+    CustomDeck, ParsedTable, ColumnMapping, ImportRowStatus,
+    importFormatLabels, importRowStatusLabels, wordFields, parseWordList, guessMapping, previewImport, createCustomDeck
+} from '../services/deckImport';
+
+const PREVIEW_ROWS = 50;
+
+const statusStyles: Record<ImportRowStatus, string> = {
+    new: 'bg-green-100 text-det-green',
+    duplicate: 'bg-gray-100 text-gray-500',
+    existing: 'bg-orange-100 text-det-orange',
+    invalid: 'bg-red-100 text-det-red'
+};
+
+// --- Import a custom flashcard deck from CSV / TSV / Anki text ---
+export const DeckImport = ({ existingWords, onSave, onCancel }: {
+    existingWords: WordDef[],
+    onSave: (deck: CustomDeck) => void,
+    onCancel: () => void
+}) => {
+    const [text, setText] = useState("");
+    const [name, setName] = useState("");
+    const [table, setTable] = useState<ParsedTable | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [includeExisting, setIncludeExisting] = useState(true);
+
+    const load = (content: string) => {
+        setText(content);
+        const parsed = content.trim() ? parseWordList(content) : null;
+        setTable(parsed);
+        setMapping(parsed ? guessMapping(parsed) : null);
+    };
+
+    const loadFile = async (file: File | undefined) => {
+        if (!file) return;
+        if (!name) setName(file.name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' '));
+        load(await file.text());
+    };
+
+    const rows = table && mapping ? previewImport(table, mapping, existingWords) : [];
+    const counts = rows.reduce((acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }), {} as Partial<Record<ImportRowStatus, number>>);
+    const toImport = rows.filter(row => row.status === 'new' || (includeExisting && row.status === 'existing')).map(row => row.word);
+    const width = table ? Math.max(0, ...table.rows.map(r => r.length), table.header?.length || 0) : 0;
+    const columnName = (i: number) => table?.header?.[i] || `Column ${i + 1}`;
+
+    const save = () => {
+        if (!name.trim() || toImport.length === 0) return;
+        onSave(createCustomDeck(name, toImport));
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto mt-6 px-4">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-3xl font-extrabold text-det-dark">Import a Deck</h2>
+                <button onClick={onCancel} className="text-gray-500 font-bold">Cancel</button>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6">
+                <p className="text-sm text-gray-500 mb-4">
+                    Upload a CSV or TSV file, or an Anki export (<i>Notes in Plain Text</i>), or paste the list below. One word per line; columns can hold the type, CEFR level and translation.
+                </p>
+                <input
+                    type="file"
+                    accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                    onChange={(e) => loadFile(e.target.files?.[0])}
+                    className="block w-full text-sm text-gray-500 mb-4 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:font-bold file:bg-blue-50 file:text-det-blue"
+                />
+                <textarea
+                    value={text}
+                    onChange={(e) => load(e.target.value)}
+                    placeholder={'word,type,level,translation\nresilient,adj.,B2,résilient'}
+                    rows={5}
+                    spellCheck={false}
+                    className="w-full p-3 border-2 border-gray-200 rounded-xl font-mono text-sm focus:border-det-blue focus:outline-none"
+                />
+            </div>
+
+            {table && mapping && (
+                <>
+                    <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="font-bold text-lg">Columns</h3>
+                            <span className="text-xs font-bold text-gray-400 uppercase">{importFormatLabels[table.format]} · {table.rows.length} rows</span>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {wordFields.map(field => (
+                                <label key={field} className="text-xs font-bold text-gray-400 uppercase">
+                                    {field}
+                                    <select
+                                        value={mapping[field] ?? ''}
+                                        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                        className="mt-1 w-full p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 normal-case bg-white"
+                                    >
+                                        <option value="">{field === 'word' ? 'Choose a column' : 'None'}</option>
+                                        {Array.from({ length: width }, (_, i) => <option key={i} value={i}>{columnName(i)}</option>)}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6">
+                        <div className="flex flex-wrap gap-2 mb-4">
+                            {(Object.keys(importRowStatusLabels) as ImportRowStatus[]).filter(status => counts[status]).map(status => (
+                                <span key={status} className={`text-xs font-bold px-2 py-1 rounded ${statusStyles[status]}`}>
+                                    {importRowStatusLabels[status]}: {counts[status]}
+                                </span>
+                            ))}
+                        </div>
+                        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs font-bold text-gray-400 uppercase">
+                                        <th className="pb-2">#</th>
+                                        {wordFields.map(field => <th key={field} className="pb-2">{field}</th>)}
+                                        <th className="pb-2"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.slice(0, PREVIEW_ROWS).map(row => (
+                                        <tr key={row.line} className={`border-t border-gray-100 ${row.status === 'duplicate' || row.status === 'invalid' ? 'opacity-50' : ''}`}>
+                                            <td className="py-1 text-gray-400">{row.line}</td>
+                                            <td className="py-1 font-bold">{row.word.word}</td>
+                                            <td className="py-1">{row.word.type}</td>
+                                            <td className="py-1">{row.word.level}</td>
+                                            <td className="py-1">{row.word.translation}</td>
+                                            <td className="py-1"><span className={`text-xs font-bold px-2 py-0.5 rounded ${statusStyles[row.status]}`}>{importRowStatusLabels[row.status]}</span></td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {rows.length > PREVIEW_ROWS && <p className="text-xs text-gray-400 mt-2">…and {rows.length - PREVIEW_ROWS} more rows.</p>}
+                        </div>
+                        {counts.existing ? (
+                            <label className="flex items-center gap-2 mt-4 text-sm font-bold text-gray-600">
+                                <input type="checkbox" checked={includeExisting} onChange={(e) => setIncludeExisting(e.target.checked)} />
+                                Include words already in another deck (they keep a single review schedule)
+                            </label>
+                        ) : null}
+                    </div>
+
+                    <div className="flex gap-3 items-center">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Deck name"
+                            className="flex-1 p-3 border-2 border-gray-200 rounded-xl font-bold focus:border-det-blue focus:outline-none"
+                        />
+                        <button
+                            onClick={save}
+                            disabled={!name.trim() || toImport.length === 0}
+                            className="bg-det-green text-white px-6 py-3 rounded-xl font-bold shadow-md disabled:opacity-50"
+                        >
+                            Import {toImport.length} words
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Timer, AiErrorNotice, ChallengeCode } from './Activities';
+import { OnActivityResult, OnAttempt } from '../types';
+import { readingPassages } from '../data';
+import { generateReadingPassage } from '../services/geminiService';
+import { AiServiceError, asAiError } from '../services/aiErrors';
+import { createRandom, randomSeed, nextSeed, pick } from '../services/random';
+import { createChallenge } from '../services/challenge';
+import {
+    InteractiveReadingTask, ReadingStepType, SentenceBlank, readingStepLabels,
+    buildInteractiveReading, getReadingSteps, scoreCompleteSentences, scoreHighlight, scoreChoice
+} from '../services/interactiveReading';
+
+type PassageSource = 'bank' | 'ai';
+
+const optionClass = (option: string, answer: string, choice: string | null, checked: boolean) => {
+    if (checked && option === answer) return 'border-det-green bg-green-50';
+    if (checked && option === choice) return 'border-det-red bg-red-50';
+    if (option === choice) return 'border-det-blue bg-blue-50';
+    return 'border-gray-200 hover:border-gray-300';
+};
+
+// Radio-style list shared by "Complete the Passage", "Identify the Idea" and "Title the Passage"
+const ChoiceList = ({ options, answer, choice, checked, onChoose }: {
+    options: string[], answer: string, choice: string | null, checked: boolean, onChoose: (option: string) => void
+}) => (
+    <div className="space-y-2">
+        {options.map(option => (
+            <button
+                key={option}
+                onClick={() => onChoose(option)}
+                disabled={checked}
+                className={`w-full text-left p-3 rounded-xl border-2 transition-colors ${optionClass(option, answer, choice, checked)}`}
+            >
+                {option}
+            </button>
+        ))}
+    </div>
+);
+
+// --- Game 7: Interactive Reading ---
+// A seed starts a replayable chain of bank passages, with the same questions and option order
+export const InteractiveReadingGame = ({ onBack, onResult, onAttempt, seed: fixedSeed }: { onBack: () => void, onResult?: OnActivityResult, onAttempt?: OnAttempt, seed?: number }) => {
+    const [source, setSource] = useState<PassageSource>('bank');
+    const [seed, setSeed] = useState(() => fixedSeed ?? randomSeed());
+    const [task, setTask] = useState<InteractiveReadingTask | null>(null);
+    const [error, setError] = useState<AiServiceError | null>(null);
+    const [stepIndex, setStepIndex] = useState(0);
+    const [checked, setChecked] = useState(false);
+    const [scores, setScores] = useState<Partial<Record<ReadingStepType, number>>>({});
+    const [finished, setFinished] = useState(false);
+    const stepStartedAt = useRef(Date.now());
+
+    // Answers for each question type
+    const [sentenceAnswers, setSentenceAnswers] = useState<Record<number, string>>({});
+    const [passageChoice, setPassageChoice] = useState<string | null>(null);
+    const [anchor, setAnchor] = useState<number | null>(null);
+    const [range, setRange] = useState<{ start: number, end: number } | null>(null);
+    const [ideaChoice, setIdeaChoice] = useState<string | null>(null);
+    const [titleChoice, setTitleChoice] = useState<string | null>(null);
+
+    const loadPassage = async (passageSeed: number) => {
+        setTask(null);
+        setError(null);
+        setStepIndex(0);
+        setChecked(false);
+        setScores({});
+        setFinished(false);
+        setSentenceAnswers({});
+        setPassageChoice(null);
+        setAnchor(null);
+        setRange(null);
+        setIdeaChoice(null);
+        setTitleChoice(null);
+        stepStartedAt.current = Date.now();
+        setSeed(passageSeed);
+        const random = createRandom(passageSeed);
+        if (source === 'bank') {
+            setTask(buildInteractiveReading(pick(readingPassages, random), random));
+            return;
+        }
+        try {
+            setTask(buildInteractiveReading(await generateReadingPassage(), random));
+        } catch (e) {
+            setError(asAiError(e, 'readingPassage'));
+        }
+    };
+
+    useEffect(() => { loadPassage(seed); }, [source]);
+
+    if (error) return <AiErrorNotice error={error} onRetry={() => loadPassage(seed)} onBack={onBack} />;
+    if (!task) return <div className="text-center mt-20">Preparing passage...</div>;
+
+    const steps = getReadingSteps(task);
+    const step = steps[stepIndex];
+
+    const scoreStep = (type: ReadingStepType) => {
+        switch (type) {
+            case 'completeSentences': return scoreCompleteSentences(task, sentenceAnswers);
+            case 'completePassage': return scoreChoice(task.completePassage.answer, passageChoice);
+            case 'highlight': return scoreHighlight(task, range?.start ?? null, range?.end ?? null);
+            case 'mainIdea': return scoreChoice(task.mainIdea!.answer, ideaChoice);
+            case 'title': return scoreChoice(task.title.answer, titleChoice);
+        }
+    };
+
+    const stepAnswer = (type: ReadingStepType) => {
+        switch (type) {
+            case 'completeSentences': return task.completeSentences.map(b => sentenceAnswers[b.wordIndex] || '').join(', ');
+            case 'completePassage': return passageChoice || '';
+            case 'highlight': return range ? task.words.slice(range.start, range.end + 1).join(' ') : '';
+            case 'mainIdea': return ideaChoice || '';
+            case 'title': return titleChoice || '';
+        }
+    };
+
+    const recordStep = (type: ReadingStepType, score: number) => {
+        onAttempt?.({
+            activity: 'interactivereading', item: `${task.topic}: ${readingStepLabels[type]}`, answer: stepAnswer(type),
+            correct: score === 100, aiScore: score, timeSpentMs: Date.now() - stepStartedAt.current
+        });
+    };
+
+    const check = () => {
+        const score = scoreStep(step);
+        setScores(prev => ({ ...prev, [step]: score }));
+        setChecked(true);
+        recordStep(step, score);
+    };
+
+    // Steps that were never checked (e.g. when time runs out) score 0
+    const finish = (finalScores: Partial<Record<ReadingStepType, number>>) => {
+        const complete = Object.fromEntries(steps.map(s => [s, finalScores[s] ?? 0])) as Record<ReadingStepType, number>;
+        setScores(complete);
+        setFinished(true);
+        const average = Math.round(steps.reduce((sum, s) => sum + complete[s], 0) / steps.length);
+        onResult?.({ activity: 'interactivereading', score: average, correct: steps.filter(s => complete[s] === 100).length, total: steps.length });
+    };
+
+    // The question on screen is graded as it stands
+    const timeUp = () => {
+        if (checked) {
+            finish(scores);
+            return;
+        }
+        const score = scoreStep(step);
+        recordStep(step, score);
+        finish({ ...scores, [step]: score });
+    };
+
+    const next = () => {
+        if (stepIndex + 1 >= steps.length) {
+            finish(scores);
+            return;
+        }
+        setStepIndex(i => i + 1);
+        setChecked(false);
+        stepStartedAt.current = Date.now();
+    };
+
+    const clickWord = (index: number) => {
+        if (checked) return;
+        if (anchor === null) {
+            setAnchor(index);
+            setRange({ start: index, end: index });
+        } else {
+            setRange({ start: Math.min(anchor, index), end: Math.max(anchor, index) });
+            setAnchor(null);
+        }
+    };
+
+    const renderPassage = () => {
+        const blanks = new Map<number, SentenceBlank>(task.completeSentences.map(b => [b.wordIndex, b]));
+        return (
+            <p className="leading-loose text-lg text-justify">
+                {task.words.map((word, i) => {
+                    const blank = blanks.get(i);
+                    if (step === 'completeSentences' && blank) {
+                        const answer = sentenceAnswers[i] || '';
+                        const status = !checked ? 'border-gray-300' : answer === blank.answer ? 'border-det-green text-det-green' : 'border-det-red text-det-red';
+                        return (
+                            <span key={i}>
+                                {blank.prefix}
+                                <select
+                                    value={answer}
+                                    onChange={(e) => setSentenceAnswers(prev => ({ ...prev, [i]: e.target.value }))}
+                                    disabled={checked}
+                                    className={`mx-1 border-b-2 bg-gray-50 font-bold focus:outline-none ${status}`}
+                                >
+                                    <option value="">Select a word</option>
+                                    {blank.options.map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                                {blank.suffix}{' '}
+                            </span>
+                        );
+                    }
+                    if (step === 'highlight') {
+                        const selected = range !== null && i >= range.start && i <= range.end;
+                        const expected = checked && i >= task.highlight!.start && i <= task.highlight!.end;
+                        const cls = expected ? 'bg-green-200' : selected ? 'bg-yellow-200' : 'hover:bg-gray-100';
+                        return <span key={i}><span onClick={() => clickWord(i)} className={`cursor-pointer rounded px-0.5 ${cls}`}>{word}</span>{' '}</span>;
+                    }
+                    return <span key={i}>{word} </span>;
+                })}
+            </p>
+        );
+    };
+
+    if (finished) {
+        const average = Math.round(steps.reduce((sum, s) => sum + (scores[s] ?? 0), 0) / steps.length);
+        return (
+            <div className="max-w-2xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-md">
+                <h2 className="text-2xl font-bold text-det-dark mb-1">Interactive Reading complete</h2>
+                <p className="text-sm text-gray-500 mb-2">Topic: {task.topic}</p>
+                {source === 'bank' && <div className="mb-6"><ChallengeCode challenge={createChallenge('interactivereading', {}, seed)} /></div>}
+                <table className="w-full mb-6">
+                    <tbody>
+                        {steps.map(s => (
+                            <tr key={s} className="border-b border-gray-100">
+                                <td className="py-2 font-bold text-gray-600">{readingStepLabels[s]}</td>
+                                <td className={`py-2 text-right font-extrabold ${(scores[s] ?? 0) >= 70 ? 'text-det-green' : 'text-det-orange'}`}>{scores[s] ?? 0}/100</td>
+                            </tr>
+                        ))}
+                        <tr>
+                            <td className="py-3 font-extrabold text-det-dark">Overall</td>
+                            <td className="py-3 text-right font-extrabold text-xl text-det-blue">{average}/100</td>
+                        </tr>
+                    </tbody>
+                </table>
+                <div className="flex justify-end gap-4">
+                    <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
+                    <button onClick={() => loadPassage(nextSeed(seed))} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">Next Passage</button>
+                </div>
+            </div>
+        );
+    }
+
+    const { before, after, answer, options } = task.completePassage;
+
+    return (
+        <div className="max-w-4xl mx-auto mt-6 p-8 bg-white rounded-2xl shadow-md">
+            <div className="flex justify-between items-center mb-6 border-b border-gray-100 pb-4">
+                <div>
+                    <span className="text-xs font-bold text-gray-400 uppercase">Question {stepIndex + 1} of {steps.length}</span>
+                    <h2 className="text-xl font-bold text-det-dark">{readingStepLabels[step]}</h2>
+                </div>
+                <div className="flex items-center gap-4">
+                    {fixedSeed === undefined && (
+                        <select
+                            value={source}
+                            onChange={(e) => setSource(e.target.value as PassageSource)}
+                            className="p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none bg-white"
+                        >
+                            <option value="bank">Passage bank</option>
+                            <option value="ai">AI passages</option>
+                        </select>
+                    )}
+                    <Timer duration={480} onFinish={timeUp} label="Time Left" />
+                </div>
+            </div>
+
+            {step === 'completePassage' ? (
+                <div className="mb-6">
+                    <p className="leading-loose text-lg text-justify mb-4">
+                        {before.join(' ')}{' '}
+                        <span className={`inline-block px-2 rounded font-bold ${passageChoice ? 'bg-blue-50 text-det-blue' : 'bg-gray-100 text-gray-400'}`}>
+                            {passageChoice || '__________'}
+                        </span>{' '}
+                        {after.join(' ')}
+                    </p>
+                    <p className="text-sm font-bold text-gray-500 mb-2">Select the best sentence to fill in the gap.</p>
+                    <ChoiceList options={options} answer={answer} choice={passageChoice} checked={checked} onChoose={setPassageChoice} />
+                </div>
+            ) : (
+                <div className="mb-6">{renderPassage()}</div>
+            )}
+
+            {step === 'completeSentences' && <p className="text-sm font-bold text-gray-500 mb-6">Select the best option for each missing word.</p>}
+            {step === 'highlight' && (
+                <div className="mb-6 p-4 bg-gray-50 rounded-xl">
+                    <p className="font-bold text-det-dark mb-1">{task.highlight!.question}</p>
+                    <p className="text-xs text-gray-400">Click the first and the last word of the answer in the passage.</p>
+                </div>
+            )}
+            {step === 'mainIdea' && (
+                <div className="mb-6">
+                    <p className="text-sm font-bold text-gray-500 mb-2">Select the idea that is expressed in the passage.</p>
+                    <ChoiceList options={task.mainIdea!.options} answer={task.mainIdea!.answer} choice={ideaChoice} checked={checked} onChoose={setIdeaChoice} />
+                </div>
+            )}
+            {step === 'title' && (
+                <div className="mb-6">
+                    <p className="text-sm font-bold text-gray-500 mb-2">Select the best title for the passage.</p>
+                    <ChoiceList options={task.title.options} answer={task.title.answer} choice={titleChoice} checked={checked} onChoose={setTitleChoice} />
+                </div>
+            )}
+
+            {checked && (
+                <div className="mb-6 p-4 bg-gray-50 rounded-xl flex justify-between items-center">
+                    <span className="font-bold">Score for this question</span>
+                    <span className={`font-extrabold text-xl ${(scores[step] ?? 0) >= 70 ? 'text-det-green' : 'text-det-orange'}`}>{scores[step]}/100</span>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-4">
+                <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
+                {checked
+                    ? <button onClick={next} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">{stepIndex + 1 >= steps.length ? 'SEE RESULTS' : 'NEXT'}</button>
+                    : <button onClick={check} className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1">CHECK</button>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Timer, AiErrorNotice, ChallengeCode } from './Activities';
+import { OnActivityResult, OnAttempt } from '../types';
+import { generateFillInBlank } from '../services/geminiService';
+import { AiServiceError, asAiError } from '../services/aiErrors';
+import { pickRandomSentence } from '../services/sentenceBank';
+import { createRandom, randomSeed, nextSeed } from '../services/random';
+import { createChallenge } from '../services/challenge';
+import { isSpeechSynthesisAvailable, speak } from '../services/speechService';
+import { scoreListenType, ListenTypeScore, CharDiffType } from '../services/listenType';
+
+const MAX_PLAYS = 3;
+
+type SentenceSource = 'bank' | 'ai';
+
+const segmentClass: Record<CharDiffType, string> = {
+    match: 'text-det-dark',
+    minor: 'bg-orange-100 text-det-orange',
+    wrong: 'bg-red-100 text-det-red',
+    missing: 'bg-red-100 text-det-red underline',
+    extra: 'text-gray-400 line-through'
+};
+
+// --- Game 6: Listen and Type ---
+// A seed starts a replayable chain of bank sentences
+export const ListenTypeGame = ({ onBack, onResult, onAttempt, seed: fixedSeed }: { onBack: () => void, onResult?: OnActivityResult, onAttempt?: OnAttempt, seed?: number }) => {
+    const [source, setSource] = useState<SentenceSource>('bank');
+    const [seed, setSeed] = useState(() => fixedSeed ?? randomSeed());
+    const [sentence, setSentence] = useState<string | null>(null);
+    const [plays, setPlays] = useState(0);
+    const [speaking, setSpeaking] = useState(false);
+    const [typed, setTyped] = useState("");
+    const [result, setResult] = useState<ListenTypeScore | null>(null);
+    const [error, setError] = useState<AiServiceError | null>(null);
+    const shownAtRef = useRef(Date.now());
+
+    const loadSentence = async (sentenceSeed: number) => {
+        setSentence(null);
+        setResult(null);
+        setTyped("");
+        setPlays(0);
+        setError(null);
+        shownAtRef.current = Date.now();
+        setSeed(sentenceSeed);
+        const random = createRandom(sentenceSeed);
+        if (source === 'bank') {
+            setSentence(pickRandomSentence(random));
+            return;
+        }
+        try {
+            const task = await generateFillInBlank(random);
+            setSentence(task.sentence);
+        } catch (e) {
+            setError(asAiError(e, 'fillInBlank'));
+        }
+    };
+
+    useEffect(() => { loadSentence(seed); }, [source]);
+
+    // Stop talking if the learner leaves mid-sentence
+    useEffect(() => () => { if (isSpeechSynthesisAvailable()) window.speechSynthesis.cancel(); }, []);
+
+    const play = async () => {
+        if (!sentence || plays >= MAX_PLAYS || speaking) return;
+        setPlays(p => p + 1);
+        setSpeaking(true);
+        await speak(sentence);
+        setSpeaking(false);
+    };
+
+    const submit = () => {
+        if (!sentence || result) return;
+        const score = scoreListenType(sentence, typed);
+        setResult(score);
+        onResult?.({ activity: 'listentype', score: score.score });
+        onAttempt?.({ activity: 'listentype', item: sentence, answer: typed, correct: score.score === 100, aiScore: score.score, timeSpentMs: Date.now() - shownAtRef.current });
+    };
+
+    if (!isSpeechSynthesisAvailable()) {
+        return (
+            <div className="max-w-xl mx-auto mt-10 p-6 bg-gray-50 rounded-2xl text-center">
+                <p className="font-bold text-det-dark mb-4">Speech synthesis is not available in this browser.</p>
+                <button onClick={onBack} className="text-gray-500 font-bold">Exit</button>
+            </div>
+        );
+    }
+
+    if (error) return <AiErrorNotice error={error} onRetry={() => loadSentence(seed)} onBack={onBack} />;
+    if (!sentence) return <div className="text-center mt-20">Preparing sentence...</div>;
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10 p-6 bg-white rounded-2xl shadow-md border border-gray-100">
+            <div className="flex justify-between items-center mb-8 border-b border-gray-100 pb-4">
+                <div className="flex items-center gap-2">
+                    <span className="bg-purple-500 text-white px-2 py-1 rounded text-xs font-bold uppercase">Listening</span>
+                    <h2 className="text-xl font-bold text-det-dark">Type the statement that you hear</h2>
+                    {source === 'bank' && <ChallengeCode challenge={createChallenge('listentype', {}, seed)} />}
+                </div>
+                {!result && <Timer key={sentence} duration={60} onFinish={submit} />}
+            </div>
+
+            <div className="flex items-center gap-4 mb-6">
+                <button
+                    onClick={play}
+                    disabled={plays >= MAX_PLAYS || speaking || !!result}
+                    className="w-16 h-16 rounded-full bg-det-blue text-white text-2xl flex items-center justify-center shadow-md active:translate-y-0.5 disabled:opacity-50"
+                >
+                    {speaking ? '🔊' : '▶'}
+                </button>
+                <span className="text-sm font-bold text-gray-500 flex-1">{MAX_PLAYS - plays} of {MAX_PLAYS} plays left</span>
+                {fixedSeed === undefined && (
+                    <select
+                        value={source}
+                        onChange={(e) => setSource(e.target.value as SentenceSource)}
+                        className="p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none bg-white"
+                    >
+                        <option value="bank">Sentence bank</option>
+                        <option value="ai">AI sentences</option>
+                    </select>
+                )}
+            </div>
+
+            <textarea
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                disabled={!!result}
+                spellCheck={false}
+                placeholder="Type what you heard..."
+                className="w-full h-28 border-2 border-gray-200 rounded-2xl p-4 resize-none focus:outline-none focus:border-det-blue text-lg dys-text mb-6"
+            />
+
+            {result && (
+                <div className="mb-6 p-4 bg-gray-50 rounded-xl">
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 className="font-bold">Comparison</h3>
+                        <span className={`font-extrabold text-xl ${result.score >= 80 ? 'text-det-green' : 'text-det-orange'}`}>{result.score}/100</span>
+                    </div>
+                    <p className="dys-text text-lg font-mono mb-3">
+                        {result.segments.map((seg, i) => (
+                            <span key={i} className={segmentClass[seg.type]}>{seg.type === 'extra' ? seg.actual : seg.expected}</span>
+                        ))}
+                    </p>
+                    <p className="text-sm text-gray-600 mb-1">Sentence: <span className="font-bold">{sentence}</span></p>
+                    <p className="text-xs text-gray-400">
+                        <span className="text-det-orange font-bold">Orange</span>: spelling slips (swapped letters, double letters, vowels), counted as half a mistake.{' '}
+                        <span className="text-det-red font-bold">Red</span>: missing or wrong letters.
+                    </p>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-4">
+                <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
+                {result
+                    ? <button onClick={() => loadSentence(nextSeed(seed))} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">NEXT SENTENCE</button>
+                    : <button onClick={submit} disabled={plays === 0} className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1 disabled:opacity-50">SUBMIT</button>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { RealWordGame, PhotoGame, FillBlankGame, CompleteTextGame } from './Activities';
+import { ListenTypeGame } from './ListenTypeGame';
+import { ReadAloudGame } from './ReadAloudGame';
+import { InteractiveReadingGame } from './InteractiveReadingGame';
+import { WritingSampleGame } from './WritingSampleGame';
+import { ActivityId, ActivityResult, OnAttempt } from '../types';
+import { buildExamReport, subscoreLabels, Subscore } from '../services/examScoring';
+import { AbilityRatings } from '../services/adaptiveRating';
+
+// Sections run back to back, like the real test. Each game keeps its own timers;
+// `rounds` is how many graded items the section collects before moving on.
+interface ExamSection {
+  activity: ActivityId;
+  title: string;
+  rounds: number;
+}
+
+const examSections: ExamSection[] = [
+  { activity: 'realword', title: 'Read and Select', rounds: 1 },
+  { activity: 'spelling', title: 'Fill in the Blanks', rounds: 3 },
+  { activity: 'completetext', title: 'Read and Complete', rounds: 1 },
+  { activity: 'listentype', title: 'Listen and Type', rounds: 3 },
+  { activity: 'readaloud', title: 'Read Aloud', rounds: 3 },
+  { activity: 'photo', title: 'Write About the Photo', rounds: 1 },
+  { activity: 'speakphoto', title: 'Speak About the Photo', rounds: 1 },
+  { activity: 'interactivereading', title: 'Interactive Reading', rounds: 1 },
+  { activity: 'writingsample', title: 'Writing Sample', rounds: 1 }
+];
+
+export const MockExam = ({ onExit, onAttempt, ratings, onRatingsChange }: {
+  onExit: () => void,
+  onAttempt?: OnAttempt,
+  ratings?: AbilityRatings,
+  onRatingsChange?: (ratings: AbilityRatings) => void
+}) => {
+  const [stage, setStage] = useState<'intro' | 'running' | 'report'>('intro');
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [round, setRound] = useState(0);
+  const [results, setResults] = useState<ActivityResult[]>([]);
+  const [elapsed, setElapsed] = useState(0);
+
+  // Overall exam clock
+  useEffect(() => {
+    if (stage !== 'running') return;
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  const section = examSections[sectionIndex];
+
+  const advance = (nextResults: ActivityResult[]) => {
+    setResults(nextResults);
+    const sectionRounds = nextResults.filter(r => r.activity === section.activity).length;
+    if (sectionRounds < section.rounds) {
+      setRound(r => r + 1);
+    } else if (sectionIndex < examSections.length - 1) {
+      setSectionIndex(i => i + 1);
+      setRound(0);
+    } else {
+      setStage('report');
+    }
+  };
+
+  const handleResult = (result: ActivityResult) => advance([...results, result]);
+
+  // Leaving a section early (e.g. after an AI error) scores the missing rounds as 0
+  const skipSection = () => {
+    const done = results.filter(r => r.activity === section.activity).length;
+    const missing = Array.from({ length: section.rounds - done }, () => ({ activity: section.activity, score: 0 }));
+    advance([...results, ...missing]);
+  };
+
+  const start = () => {
+    setResults([]);
+    setSectionIndex(0);
+    setRound(0);
+    setElapsed(0);
+    setStage('running');
+  };
+
+  if (stage === 'intro') {
+    return (
+      <div className="max-w-2xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-md border border-gray-100 text-center">
+        <div className="text-5xl mb-4">🏁</div>
+        <h2 className="text-3xl font-extrabold text-det-dark mb-2">Full Simulation</h2>
+        <p className="text-gray-500 mb-6">The sections below run back to back with their real time limits. You get no feedback until the end, just like on test day.</p>
+        <ol className="text-left bg-gray-50 rounded-xl p-4 mb-8 space-y-2">
+          {examSections.map((s, i) => (
+            <li key={s.activity} className="flex justify-between font-bold text-det-dark">
+              <span>{i + 1}. {s.title}</span>
+              <span className="text-gray-400 text-sm">{s.rounds > 1 ? `${s.rounds} items` : '1 item'}</span>
+            </li>
+          ))}
+        </ol>
+        <div className="flex justify-center gap-4">
+          <button onClick={onExit} className="text-gray-500 font-bold px-4">Cancel</button>
+          <button onClick={start} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-[0_4px_0_0_#46a302] active:translate-y-0.5 active:shadow-none">Start the Exam</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (stage === 'report') {
+    const report = buildExamReport(results);
+    return (
+      <div className="max-w-3xl mx-auto mt-6 p-8 bg-white rounded-2xl shadow-md border border-gray-100">
+        <h2 className="text-2xl font-bold text-det-dark mb-6 text-center">Your Estimated Results</h2>
+        <div className="flex flex-col items-center mb-8">
+          <div className="w-40 h-40 rounded-full border-8 border-det-green flex flex-col items-center justify-center">
+            <span className="text-5xl font-extrabold text-det-dark">{report.overall}</span>
+            <span className="text-xs font-bold text-gray-400 uppercase">of 160</span>
+          </div>
+          <p className="text-sm text-gray-400 mt-3">Completed in {Math.floor(elapsed / 60)} min {elapsed % 60} s</p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          {(Object.keys(subscoreLabels) as Subscore[]).map(key => (
+            <div key={key} className="bg-gray-50 rounded-xl p-4 text-center">
+              <div className="text-xs font-bold text-gray-400 uppercase mb-1">{subscoreLabels[key]}</div>
+              <div className="text-2xl font-extrabold text-det-blue">{report.subscores[key].score}</div>
+              {report.subscores[key].inferred && <div className="text-[10px] text-gray-400 mt-1">not measured, estimated</div>}
+            </div>
+          ))}
+        </div>
+
+        <table className="w-full text-left mb-8">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="p-3 text-xs font-bold text-gray-500 uppercase">Section</th>
+              <th className="p-3 text-xs font-bold text-gray-500 uppercase text-right">Score</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {report.sections.map(s => (
+              <tr key={s.activity}>
+                <td className="p-3 font-bold text-det-dark">{examSections.find(e => e.activity === s.activity)?.title}</td>
+                <td className={`p-3 text-right font-bold ${s.score >= 70 ? 'text-det-green' : 'text-det-orange'}`}>{s.score}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-400 mb-6 text-center">This is a practice estimate, not an official DET score.</p>
+        <div className="flex justify-center gap-4">
+          <button onClick={onExit} className="text-gray-500 font-bold px-4">Back to Dashboard</button>
+          <button onClick={() => setStage('intro')} className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md">Retake</button>
+        </div>
+      </div>
+    );
+  }
+
+  const gameKey = `${section.activity}-${round}`;
+
+  return (
+    <div>
+      <div className="max-w-4xl mx-auto flex justify-between items-center mb-4 bg-white border border-gray-200 rounded-xl px-4 py-2">
+        <span className="text-xs font-bold text-gray-400 uppercase">Section {sectionIndex + 1} of {examSections.length} • {section.title}</span>
+        {section.rounds > 1 && <span className="text-xs font-bold text-gray-400">Item {round + 1} / {section.rounds}</span>}
+        <span className="text-xs font-bold text-gray-400">{Math.floor(elapsed / 60)}:{(elapsed % 60).toString().padStart(2, '0')}</span>
+      </div>
+      {section.activity === 'realword' && <RealWordGame key={gameKey} mode="adaptive" onComplete={skipSection} onResult={handleResult} onAttempt={onAttempt} ratings={ratings} onRatingsChange={onRatingsChange} />}
+      {section.activity === 'spelling' && <FillBlankGame key={gameKey} onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+      {section.activity === 'completetext' && <CompleteTextGame key={gameKey} onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+      {section.activity === 'listentype' && <ListenTypeGame key={gameKey} onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+      {section.activity === 'readaloud' && <ReadAloudGame key={gameKey} onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+      {section.activity === 'photo' && <PhotoGame key={gameKey} onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+      {section.activity === 'speakphoto' && <PhotoGame key={gameKey} mode="spoken" onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+      {section.activity === 'interactivereading' && <InteractiveReadingGame key={gameKey} onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+      {section.activity === 'writingsample' && <WritingSampleGame key={gameKey} onBack={skipSection} onResult={handleResult} onAttempt={onAttempt} />}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { MIN_PIN_LENGTH, isValidPin } from '../services/profileLock';
+
+// --- Modal asking for a PIN; onVerify resolves to false for a wrong one ---
+export const PinPrompt = ({ title, description, confirmLabel = 'Unlock', onVerify, onSuccess, onCancel, onForgot }: {
+    title: string,
+    description?: string,
+    confirmLabel?: string,
+    onVerify: (pin: string) => Promise<boolean>,
+    onSuccess: () => void,
+    onCancel: () => void,
+    onForgot?: () => void
+}) => {
+    const [pin, setPin] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [checking, setChecking] = useState(false);
+
+    const submit = async () => {
+        if (!pin || checking) return;
+        setChecking(true);
+        const ok = await onVerify(pin);
+        setChecking(false);
+        if (ok) {
+            onSuccess();
+        } else {
+            setError("Wrong PIN. Try again.");
+            setPin("");
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+            <div className="bg-white p-8 rounded-2xl shadow-xl max-w-sm w-full text-center">
+                <div className="text-5xl mb-4">🔒</div>
+                <h2 className="text-xl font-extrabold text-det-dark mb-2">{title}</h2>
+                {description && <p className="text-sm text-gray-500 mb-4">{description}</p>}
+                <input
+                    type="password"
+                    value={pin}
+                    onChange={(e) => { setPin(e.target.value); setError(null); }}
+                    onKeyDown={(e) => e.key === 'Enter' && submit()}
+                    autoFocus
+                    placeholder="PIN or passphrase"
+                    className="w-full text-center text-xl p-3 border-2 border-gray-200 rounded-xl mb-2 focus:border-det-blue focus:outline-none font-bold"
+                />
+                <p className="text-xs text-det-red font-bold h-4 mb-4">{error}</p>
+                <div className="flex gap-3">
+                    <button onClick={onCancel} className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-xl font-bold">Cancel</button>
+                    <button onClick={submit} disabled={!pin || checking} className="flex-1 bg-det-blue text-white py-3 rounded-xl font-bold shadow-md disabled:opacity-50">
+                        {checking ? 'Checking…' : confirmLabel}
+                    </button>
+                </div>
+                {onForgot && <button onClick={onForgot} className="mt-4 text-xs text-gray-400 hover:text-gray-600 font-bold">Forgot your PIN?</button>}
+            </div>
+        </div>
+    );
+};
+
+// --- Form choosing a new PIN, typed twice ---
+export const PinSetupForm = ({ submitLabel, onSubmit }: { submitLabel: string, onSubmit: (pin: string) => Promise<void> }) => {
+    const [pin, setPin] = useState("");
+    const [repeat, setRepeat] = useState("");
+    const [saving, setSaving] = useState(false);
+
+    const problem = !pin ? null
+        : !isValidPin(pin) ? `Use at least ${MIN_PIN_LENGTH} characters.`
+        : repeat && repeat !== pin ? "The two entries do not match."
+        : null;
+
+    const submit = async () => {
+        if (!isValidPin(pin) || pin !== repeat) return;
+        setSaving(true);
+        await onSubmit(pin);
+        setSaving(false);
+        setPin("");
+        setRepeat("");
+    };
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+                <input type="password" value={pin} onChange={(e) => setPin(e.target.value)} placeholder="New PIN" className="p-3 border-2 border-gray-200 rounded-xl text-sm font-bold focus:border-det-blue focus:outline-none" />
+                <input type="password" value={repeat} onChange={(e) => setRepeat(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && submit()} placeholder="Repeat PIN" className="p-3 border-2 border-gray-200 rounded-xl text-sm font-bold focus:border-det-blue focus:outline-none" />
+            </div>
+            <p className="text-xs text-det-red font-bold h-4 mb-2">{problem}</p>
+            <button onClick={submit} disabled={!isValidPin(pin) || pin !== repeat || saving} className="bg-det-blue text-white px-6 py-3 rounded-xl font-bold shadow-md disabled:opacity-50">
+                {submitLabel}
+            </button>
+        </div>
+    );
+};
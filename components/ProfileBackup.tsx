@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { SyncSettings } from './SyncSettings';
+import { PinPrompt } from './PinPrompt';
+import { isProfileProtected, verifyProfilePin } from '../services/profileLock';
+import {
+    ProfileExport, ImportMode, exportProfile, exportFileName, parseProfileExport, importProfile, isProfileImportError
+} from '../services/profileStorage';
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const downloadJson = (fileName: string, data: unknown) =>
+    downloadFile(fileName, JSON.stringify(data, null, 2), 'application/json');
+
+// Reads a backup file, reporting validation problems instead of throwing
+export const readProfileFile = async (file: File): Promise<{ backup: ProfileExport | null, error: string | null, issues: string[] }> => {
+    try {
+        return { backup: parseProfileExport(await file.text()), error: null, issues: [] };
+    } catch (e) {
+        if (isProfileImportError(e)) return { backup: null, error: e.message, issues: e.issues };
+        return { backup: null, error: "The file could not be read.", issues: [] };
+    }
+};
+
+export const BackupSummary = ({ backup }: { backup: ProfileExport }) => (
+    <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="bg-gray-50 rounded-xl p-3">
+            <div className="text-xl font-extrabold text-det-blue">{Object.keys(backup.data.srs).length}</div>
+            <div className="text-xs font-bold text-gray-400 uppercase">Cards</div>
+        </div>
+        <div className="bg-gray-50 rounded-xl p-3">
+            <div className="text-xl font-extrabold text-det-green">{backup.data.completedDays.length}</div>
+            <div className="text-xs font-bold text-gray-400 uppercase">Days done</div>
+        </div>
+        <div className="bg-gray-50 rounded-xl p-3">
+            <div className="text-xl font-extrabold text-det-orange">{backup.data.attempts.length}</div>
+            <div className="text-xs font-bold text-gray-400 uppercase">Answers</div>
+        </div>
+    </div>
+);
+
+// --- Profile backup: sync settings, export to / import from a JSON file ---
+export const ProfileBackup = ({ profile, onImported }: { profile: string, onImported: () => void }) => {
+    const [backup, setBackup] = useState<ProfileExport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [issues, setIssues] = useState<string[]>([]);
+    const [mode, setMode] = useState<ImportMode>('merge');
+
+    const handleExport = () => downloadJson(exportFileName(profile), exportProfile(profile));
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        const result = await readProfileFile(file);
+        setBackup(result.backup);
+        setError(result.error);
+        setIssues(result.issues);
+    };
+
+    const [confirmingReplace, setConfirmingReplace] = useState(false);
+
+    const applyImport = () => {
+        if (!backup) return;
+        importProfile(profile, backup, mode);
+        onImported();
+    };
+
+    // Replacing wipes the current progress, so a protected profile asks for its PIN
+    const handleImport = () => {
+        if (!backup) return;
+        if (mode === 'merge') applyImport();
+        else if (isProfileProtected(profile)) setConfirmingReplace(true);
+        else if (confirm(`Replace all progress of "${profile}" with this backup? This cannot be undone.`)) applyImport();
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-6">
+            <h2 className="text-2xl font-bold text-det-dark mb-1">Backup & Sync</h2>
+            <p className="text-gray-500 mb-6">Keep your progress safe and take it to your other devices.</p>
+
+            <SyncSettings profile={profile} onSynced={onImported} />
+
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6">
+                <h3 className="font-bold text-lg mb-2">Export</h3>
+                <p className="text-sm text-gray-500 mb-4">Downloads flashcards, plan, saved words, spelling statistics and answer history of <b>{profile}</b>.</p>
+                <button onClick={handleExport} className="bg-det-blue text-white px-6 py-3 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1">
+                    Download backup
+                </button>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100">
+                <h3 className="font-bold text-lg mb-2">Import</h3>
+                <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    className="block w-full text-sm text-gray-500 mb-4 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:font-bold file:bg-blue-50 file:text-det-blue"
+                />
+
+                {error && (
+                    <div className="bg-red-50 border border-red-100 text-det-red rounded-xl p-4 text-sm mb-4">
+                        <p className="font-bold">{error}</p>
+                        {issues.length > 0 && <ul className="list-disc list-inside mt-1">{issues.map(issue => <li key={issue}>{issue}</li>)}</ul>}
+                    </div>
+                )}
+
+                {backup && (
+                    <>
+                        <p className="text-sm text-gray-500 mb-3">
+                            Backup of <b>{backup.profile || 'unnamed profile'}</b>{backup.exportedAt && ` from ${new Date(backup.exportedAt).toLocaleString()}`}
+                        </p>
+                        <BackupSummary backup={backup} />
+                        <div className="flex gap-4 my-4 text-sm font-bold text-gray-600">
+                            <label className="flex items-center gap-2">
+                                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                                Merge with current progress
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                                Replace current progress
+                            </label>
+                        </div>
+                        <button onClick={handleImport} className="bg-det-green text-white px-6 py-3 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1">
+                            Import
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {confirmingReplace && (
+                <PinPrompt
+                    title="Replace progress"
+                    description={`Enter your PIN to replace all progress of "${profile}" with this backup.`}
+                    confirmLabel="Replace"
+                    onVerify={pin => verifyProfilePin(profile, pin)}
+                    onSuccess={applyImport}
+                    onCancel={() => setConfirmingReplace(false)}
+                />
+            )}
+        </div>
+    );
+};
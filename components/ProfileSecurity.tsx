@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { PinPrompt, PinSetupForm } from './PinPrompt';
+import {
+    isProfileProtected, setProfilePin, removeProfilePin, verifyProfilePin, hasAdminPin, setAdminPin, verifyAdminPin
+} from '../services/profileLock';
+
+// --- Profile PIN and device admin PIN ---
+export const ProfileSecurity = ({ profile }: { profile: string }) => {
+    const [isProtected, setIsProtected] = useState(() => isProfileProtected(profile));
+    const [adminSet, setAdminSet] = useState(hasAdminPin);
+    // Changing an existing PIN needs the current one first
+    const [prompt, setPrompt] = useState<'profile' | 'admin' | null>(null);
+    const [editing, setEditing] = useState<'profile' | 'admin' | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const saveProfilePin = async (pin: string) => {
+        await setProfilePin(profile, pin);
+        setIsProtected(true);
+        setEditing(null);
+        setMessage(`"${profile}" is now protected. You will need the PIN to open it, switch away from it and reset progress.`);
+    };
+
+    const removePin = () => {
+        removeProfilePin(profile);
+        setIsProtected(false);
+        setEditing(null);
+        setMessage(`"${profile}" is no longer protected.`);
+    };
+
+    const saveAdminPin = async (pin: string) => {
+        await setAdminPin(pin);
+        setAdminSet(true);
+        setEditing(null);
+        setMessage("Admin PIN saved. Use it to reset a forgotten profile PIN.");
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-6">
+            <h2 className="text-2xl font-bold text-det-dark mb-1">PIN & Security</h2>
+            <p className="text-gray-500 mb-6">On a shared computer, a PIN keeps others from opening or resetting your progress.</p>
+
+            {message && <div className="bg-green-50 border border-green-100 text-det-green font-bold text-sm rounded-xl p-4 mb-6">{message}</div>}
+
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6">
+                <h3 className="font-bold text-lg mb-2">Profile PIN</h3>
+                {!isProtected || editing === 'profile' ? (
+                    <>
+                        <p className="text-sm text-gray-500 mb-4">{isProtected ? 'Choose a new PIN or passphrase.' : `"${profile}" can be opened by anyone using this computer.`}</p>
+                        <PinSetupForm submitLabel={isProtected ? 'Change PIN' : 'Protect profile'} onSubmit={saveProfilePin} />
+                        {isProtected && <button onClick={removePin} className="mt-4 text-sm text-det-red font-bold hover:underline">Remove PIN</button>}
+                    </>
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-500 mb-4">🔒 This profile is protected.</p>
+                        <button onClick={() => setPrompt('profile')} className="bg-gray-200 text-gray-700 px-6 py-3 rounded-xl font-bold">Change or remove PIN</button>
+                    </>
+                )}
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100">
+                <h3 className="font-bold text-lg mb-2">Admin PIN</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                    One per computer, for the parent or teacher who manages it. It resets forgotten profile PINs without losing progress.
+                </p>
+                {!adminSet || editing === 'admin'
+                    ? <PinSetupForm submitLabel={adminSet ? 'Change admin PIN' : 'Set admin PIN'} onSubmit={saveAdminPin} />
+                    : <button onClick={() => setPrompt('admin')} className="bg-gray-200 text-gray-700 px-6 py-3 rounded-xl font-bold">Change admin PIN</button>}
+            </div>
+
+            {prompt && (
+                <PinPrompt
+                    title={prompt === 'profile' ? 'Enter your current PIN' : 'Enter the admin PIN'}
+                    confirmLabel="Continue"
+                    onVerify={pin => prompt === 'profile' ? verifyProfilePin(profile, pin) : verifyAdminPin(pin)}
+                    onSuccess={() => { setEditing(prompt); setPrompt(null); setMessage(null); }}
+                    onCancel={() => setPrompt(null)}
+                />
+            )}
+        </div>
+    );
+};
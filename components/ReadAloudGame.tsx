@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Timer, ChallengeCode } from './Activities';
+import { OnActivityResult, OnAttempt } from '../types';
+import { scoreReadAloud, ReadAloudScore } from '../services/readAloud';
+import { pickRandomSentence } from '../services/sentenceBank';
+import { createRandom, randomSeed, nextSeed } from '../services/random';
+import { createChallenge } from '../services/challenge';
+import { AudioRecording, TranscriptionSession, Transcriber, transcribers, getDefaultTranscriber, startRecording } from '../services/speechService';
+
+const RECORDING_SECONDS = 20;
+
+// --- Game 5: Read Aloud ---
+export const ReadAloudGame = ({ onBack, onResult, onAttempt, seed: fixedSeed }: { onBack: () => void, onResult?: OnActivityResult, onAttempt?: OnAttempt, seed?: number }) => {
+    const [seed, setSeed] = useState(() => fixedSeed ?? randomSeed());
+    const [sentence, setSentence] = useState(() => pickRandomSentence(createRandom(seed)));
+    const [stage, setStage] = useState<'ready' | 'recording' | 'scoring' | 'results'>('ready');
+    const [transcriber, setTranscriber] = useState<Transcriber>(getDefaultTranscriber);
+    const [score, setScore] = useState<ReadAloudScore | null>(null);
+    const [transcript, setTranscript] = useState("");
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [micError, setMicError] = useState<string | null>(null);
+
+    const recordingRef = useRef<AudioRecording | null>(null);
+    const sessionRef = useRef<TranscriptionSession | null>(null);
+    const shownAtRef = useRef(Date.now());
+
+    // Release the previous recording when a new one replaces it
+    useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+    const startReading = async () => {
+        setMicError(null);
+        if (transcriber.usesMicrophone) {
+            try {
+                recordingRef.current = await startRecording();
+            } catch (e) {
+                setMicError("Microphone access was denied. Allow it in your browser, or use the simulated transcriber.");
+                return;
+            }
+        }
+        sessionRef.current = transcriber.start(sentence);
+        setStage('recording');
+    };
+
+    const stopReading = async () => {
+        if (stage !== 'recording') return;
+        setStage('scoring');
+        const [heard, audio] = await Promise.all([
+            sessionRef.current ? sessionRef.current.stop() : Promise.resolve(""),
+            recordingRef.current ? recordingRef.current.stop() : Promise.resolve(null)
+        ]);
+        recordingRef.current = null;
+        sessionRef.current = null;
+
+        const result = scoreReadAloud(sentence, heard);
+        setTranscript(heard);
+        setAudioUrl(audio ? URL.createObjectURL(audio) : null);
+        setScore(result);
+        setStage('results');
+        onResult?.({ activity: 'readaloud', score: result.accuracy, correct: result.correct, total: result.total });
+        onAttempt?.({ activity: 'readaloud', item: sentence, answer: heard, correct: result.correct === result.total, aiScore: result.accuracy, timeSpentMs: Date.now() - shownAtRef.current });
+    };
+
+    const nextSentence = () => {
+        const next = nextSeed(seed);
+        setSeed(next);
+        setSentence(pickRandomSentence(createRandom(next)));
+        setScore(null);
+        setTranscript("");
+        setAudioUrl(null);
+        setStage('ready');
+        shownAtRef.current = Date.now();
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10 p-6 bg-white rounded-2xl shadow-md border border-gray-100">
+            <div className="flex justify-between items-center mb-8 border-b border-gray-100 pb-4">
+                <div className="flex items-center gap-2">
+                    <span className="bg-det-blue text-white px-2 py-1 rounded text-xs font-bold uppercase">Speaking</span>
+                    <h2 className="text-xl font-bold text-det-dark">Read aloud</h2>
+                    <ChallengeCode challenge={createChallenge('readaloud', {}, seed)} />
+                </div>
+                {stage === 'recording'
+                    ? <Timer duration={RECORDING_SECONDS} onFinish={stopReading} label="Recording" />
+                    : (
+                        <select
+                            value={transcriber.id}
+                            onChange={(e) => setTranscriber(transcribers.find(t => t.id === e.target.value) || transcriber)}
+                            disabled={stage !== 'ready'}
+                            className="p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none bg-white"
+                        >
+                            {transcribers.filter(t => t.isAvailable()).map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                        </select>
+                    )}
+            </div>
+
+            <p className="text-sm text-gray-500 mb-4">Read the sentence out loud, clearly and at a natural pace.</p>
+
+            <div className="text-2xl leading-loose dys-text mb-8 text-det-dark font-bold">
+                {stage === 'results' && score
+                    ? score.words.map((w, i) => (
+                        <span
+                            key={i}
+                            title={w.status === 'mispronounced' ? `Heard: "${w.heard}"` : w.status === 'missed' ? 'Not heard' : undefined}
+                            className={`mr-2 ${w.status === 'correct' ? 'text-det-green' : w.status === 'mispronounced' ? 'text-det-red underline decoration-wavy' : 'text-gray-400 line-through'}`}
+                        >
+                            {w.word}
+                        </span>
+                    ))
+                    : sentence}
+            </div>
+
+            {micError && <div className="mb-6 p-4 bg-red-50 rounded-xl border border-red-100 text-det-red font-bold text-sm">{micError}</div>}
+
+            {stage === 'results' && score && (
+                <div className="mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-gray-50 p-4 rounded-xl">
+                        <div className="text-xs font-bold text-gray-400 uppercase mb-1">Accuracy</div>
+                        <div className={`text-3xl font-extrabold ${score.accuracy >= 80 ? 'text-det-green' : 'text-det-orange'}`}>{score.accuracy}%</div>
+                        <div className="text-sm text-gray-500">{score.correct} / {score.total} words recognised</div>
+                    </div>
+                    <div className="bg-gray-50 p-4 rounded-xl">
+                        <div className="text-xs font-bold text-gray-400 uppercase mb-1">What we heard</div>
+                        <p className="dys-text text-sm italic text-gray-600">"{transcript || '...'}"</p>
+                        {audioUrl && <audio controls src={audioUrl} className="w-full mt-2" />}
+                    </div>
+                    {score.words.some(w => w.status !== 'correct') && (
+                        <div className="md:col-span-2 text-sm text-gray-500">
+                            Practise these words: <span className="font-bold text-det-red">{score.words.filter(w => w.status !== 'correct').map(w => w.word).join(', ')}</span>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-4">
+                <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
+                {stage === 'ready' && <button onClick={startReading} className="bg-det-red text-white py-3 px-8 rounded-xl font-bold shadow-md active:translate-y-0.5">● RECORD</button>}
+                {stage === 'recording' && <button onClick={stopReading} className="bg-det-dark text-white py-3 px-8 rounded-xl font-bold shadow-md active:translate-y-0.5">■ STOP</button>}
+                {stage === 'scoring' && <span className="py-3 px-8 font-bold text-gray-400 animate-pulse">Scoring...</span>}
+                {stage === 'results' && <button onClick={nextSentence} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">NEXT SENTENCE</button>}
+            </div>
+        </div>
+    );
+};
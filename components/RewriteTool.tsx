@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { AiErrorNotice } from './Activities';
+import { WordDef } from '../data';
+import { rewriteText } from '../services/geminiService';
+import { AiServiceError, asAiError } from '../services/aiErrors';
+import { RewriteSet, countWords } from '../services/aiSchemas';
+import { rewriteStyleLabels, diffWords, WordDiffType } from '../services/rewrite';
+
+const diffClass: Record<WordDiffType, string> = {
+    same: 'text-det-dark',
+    added: 'bg-green-100 text-det-green font-bold rounded px-0.5',
+    removed: 'text-det-red line-through opacity-60'
+};
+
+// --- Rewrite Tool (study plan day 11: synonyms & paraphrasing) ---
+export const RewriteTool = ({ savedWords, onSaveWord }: { savedWords: string[], onSaveWord: (word: WordDef) => void }) => {
+    const [text, setText] = useState("");
+    const [original, setOriginal] = useState("");
+    const [result, setResult] = useState<RewriteSet | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<AiServiceError | null>(null);
+
+    const saved = new Set(savedWords.map(w => w.toLowerCase()));
+
+    const rewrite = async () => {
+        const input = text.trim();
+        if (!input) return;
+        setLoading(true);
+        setError(null);
+        setResult(null);
+        try {
+            setResult(await rewriteText(input));
+            setOriginal(input);
+        } catch (e) {
+            setError(asAiError(e, 'rewrite'));
+        }
+        setLoading(false);
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto mt-6">
+            <h2 className="text-2xl font-bold text-det-dark mb-1">Rewrite Tool</h2>
+            <p className="text-gray-500 mb-6">Write or paste a sentence or paragraph, then compare four paraphrases with your version.</p>
+
+            <div className="bg-white p-6 rounded-2xl shadow-md border border-gray-100 mb-8">
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    spellCheck={false}
+                    placeholder="e.g. I think it's really important to get enough sleep before the exam."
+                    className="w-full h-32 border-2 border-gray-200 rounded-2xl p-4 resize-none focus:outline-none focus:border-det-blue text-lg dys-text mb-4"
+                />
+                <div className="flex justify-between items-center">
+                    <span className="text-sm font-bold text-gray-400">{countWords(text)} words</span>
+                    <button
+                        onClick={rewrite}
+                        disabled={loading || !text.trim()}
+                        className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1 disabled:opacity-50"
+                    >
+                        {loading ? 'REWRITING...' : 'REWRITE'}
+                    </button>
+                </div>
+            </div>
+
+            {error && <AiErrorNotice error={error} onRetry={rewrite} />}
+
+            {result && (
+                <div className="grid gap-4">
+                    {result.rewrites.map(rewrite => (
+                        <div key={rewrite.style} className="bg-white p-6 rounded-2xl border-2 border-gray-100">
+                            <div className="flex items-baseline gap-2 mb-3">
+                                <h3 className="font-bold text-lg text-det-dark">{rewriteStyleLabels[rewrite.style].title}</h3>
+                                <span className="text-xs text-gray-400">{rewriteStyleLabels[rewrite.style].hint}</span>
+                            </div>
+                            <p className="text-lg mb-3">{rewrite.text}</p>
+                            <p className="text-sm leading-relaxed p-3 bg-gray-50 rounded-xl mb-3">
+                                {diffWords(original, rewrite.text).map((part, i) => (
+                                    <span key={i}><span className={diffClass[part.type]}>{part.text}</span>{' '}</span>
+                                ))}
+                            </p>
+                            {rewrite.newWords.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span className="text-xs font-bold text-gray-400 uppercase">New vocabulary</span>
+                                    {rewrite.newWords.map(word => {
+                                        const isSaved = saved.has(word.word.toLowerCase());
+                                        return (
+                                            <button
+                                                key={word.word}
+                                                onClick={() => onSaveWord(word)}
+                                                disabled={isSaved}
+                                                className={`text-sm px-3 py-1 rounded-lg border-2 font-bold ${isSaved ? 'border-det-green text-det-green bg-green-50' : 'border-gray-200 text-gray-600 hover:border-det-blue'}`}
+                                            >
+                                                {isSaved ? '✓' : '+'} {word.word} <span className="font-normal text-gray-400">{word.type} {word.level}</span>
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                    <p className="text-xs text-gray-400 text-center">Saved words go to the "My Words" flashcard deck.</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,178 @@
+import React, { useState, useRef } from 'react';
+import { SpellingErrorTags } from './Activities';
+import { OnSpellingAnalyzed, OnAttempt } from '../types';
+import { buildSentence } from '../services/sentenceBank';
+import {
+    SpellingStats, SpellingDrillItem, SpellingAnalysis,
+    spellingErrorTypes, spellingErrorLabels, analyzeSpelling, getWeakestPatterns, buildSpellingDrill
+} from '../services/spellingAnalyzer';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// --- Spelling Patterns: statistics and targeted drills ---
+export const SpellingDrill = ({ stats, onSpellingAnalyzed, onAttempt }: { stats: SpellingStats, onSpellingAnalyzed: OnSpellingAnalyzed, onAttempt?: OnAttempt }) => {
+    const [items, setItems] = useState<SpellingDrillItem[] | null>(null);
+    const [index, setIndex] = useState(0);
+    const [input, setInput] = useState("");
+    const [analysis, setAnalysis] = useState<SpellingAnalysis | null>(null);
+    const [correctCount, setCorrectCount] = useState(0);
+    const shownAtRef = useRef(Date.now());
+
+    const weakest = getWeakestPatterns(stats, 3);
+    const totalErrors = spellingErrorTypes.reduce((sum, type) => sum + (stats.byType[type] || 0), 0);
+
+    const startDrill = () => {
+        setItems(buildSpellingDrill(stats));
+        setIndex(0);
+        setInput("");
+        setAnalysis(null);
+        setCorrectCount(0);
+        shownAtRef.current = Date.now();
+    };
+
+    if (!items) {
+        return (
+            <div className="max-w-3xl mx-auto mt-6">
+                <h2 className="text-2xl font-bold text-det-dark mb-1">Spelling Patterns</h2>
+                <p className="text-gray-500 mb-6">Every word you type in Complete the Sentence and Complete the Text is analysed to find your recurring spelling patterns.</p>
+
+                <div className="grid grid-cols-2 gap-4 mb-6">
+                    <div className="bg-white p-4 rounded-2xl border-2 border-gray-100">
+                        <div className="text-3xl font-extrabold text-det-blue">{stats.attempts}</div>
+                        <div className="text-xs font-bold text-gray-400 uppercase">Words analysed</div>
+                    </div>
+                    <div className="bg-white p-4 rounded-2xl border-2 border-gray-100">
+                        <div className="text-3xl font-extrabold text-det-green">
+                            {stats.attempts ? Math.round((1 - stats.mistakes / stats.attempts) * 100) : 0}%
+                        </div>
+                        <div className="text-xs font-bold text-gray-400 uppercase">Spelled correctly</div>
+                    </div>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6">
+                    <h3 className="font-bold text-lg mb-4">Mistakes by type</h3>
+                    {totalErrors === 0 ? (
+                        <p className="text-sm text-gray-500">No spelling mistakes recorded yet.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {spellingErrorTypes.filter(type => stats.byType[type]).map(type => (
+                                <div key={type}>
+                                    <div className="flex justify-between text-sm font-bold mb-1">
+                                        <span className={weakest.includes(type) ? 'text-det-orange' : 'text-gray-600'}>{spellingErrorLabels[type].label}</span>
+                                        <span className="text-gray-400">{stats.byType[type]}</span>
+                                    </div>
+                                    <div className="w-full bg-gray-100 h-2 rounded-full overflow-hidden">
+                                        <div className={`${weakest.includes(type) ? 'bg-det-orange' : 'bg-gray-300'} h-full`} style={{ width: `${(stats.byType[type]! / totalErrors) * 100}%` }}></div>
+                                    </div>
+                                    {stats.words[type] && <div className="text-xs text-gray-400 mt-1">{stats.words[type]!.slice(0, 5).join(', ')}</div>}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {weakest.length > 0 && (
+                    <div className="bg-orange-50 p-6 rounded-2xl border border-orange-100 mb-6">
+                        <h3 className="font-bold text-det-orange mb-2">Your weakest patterns</h3>
+                        <ul className="space-y-1 text-sm text-det-dark">
+                            {weakest.map(type => <li key={type}><span className="font-bold">{spellingErrorLabels[type].label}:</span> {spellingErrorLabels[type].tip}</li>)}
+                        </ul>
+                    </div>
+                )}
+
+                <button
+                    onClick={startDrill}
+                    disabled={weakest.length === 0}
+                    className="w-full bg-det-blue text-white py-3 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1 disabled:opacity-50"
+                >
+                    START TARGETED DRILL
+                </button>
+            </div>
+        );
+    }
+
+    if (index >= items.length) {
+        return (
+            <div className="max-w-xl mx-auto mt-10 p-8 bg-white rounded-2xl shadow-md text-center">
+                <div className="text-6xl mb-4">🎯</div>
+                <h2 className="text-2xl font-bold text-det-dark mb-2">Drill complete</h2>
+                <p className="text-gray-500 mb-6">{correctCount} of {items.length} words spelled correctly.</p>
+                <div className="flex justify-center gap-4">
+                    <button onClick={() => setItems(null)} className="bg-gray-200 text-gray-700 px-6 py-3 rounded-xl font-bold">Back to Patterns</button>
+                    <button onClick={startDrill} className="bg-det-blue text-white px-6 py-3 rounded-xl font-bold shadow-md">New Drill</button>
+                </div>
+            </div>
+        );
+    }
+
+    const item = items[index];
+    const prefix = item.word.word[0];
+    const [before, after = ''] = buildSentence(item.word).split(new RegExp(`\\b${escapeRegExp(item.word.word)}\\b`, 'i'));
+
+    const check = () => {
+        if (analysis) return;
+        const result = analyzeSpelling(item.word.word, prefix + input);
+        setAnalysis(result);
+        if (result.isCorrect) setCorrectCount(c => c + 1);
+        if (input.trim()) onSpellingAnalyzed(result);
+        onAttempt?.({ activity: 'spelling', item: item.word.word, answer: input.trim() ? prefix + input : '', correct: result.isCorrect, timeSpentMs: Date.now() - shownAtRef.current });
+    };
+
+    const next = () => {
+        setIndex(i => i + 1);
+        setInput("");
+        setAnalysis(null);
+        shownAtRef.current = Date.now();
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10 p-6 bg-white rounded-2xl shadow-md border border-gray-100">
+            <div className="flex justify-between items-center mb-6 border-b border-gray-100 pb-4">
+                <div>
+                    <span className="text-xs font-bold text-gray-400 uppercase">Word {index + 1} of {items.length}</span>
+                    <h2 className="text-xl font-bold text-det-dark">{spellingErrorLabels[item.pattern].label}</h2>
+                </div>
+                <button onClick={() => setItems(null)} className="text-gray-500 font-bold">Exit</button>
+            </div>
+
+            <div className="text-xl leading-loose dys-text mb-4 text-det-dark">
+                <span>{before}</span>
+                <div className="inline-flex items-center mx-1 bg-gray-100 border border-gray-300 rounded px-2 py-1">
+                    <span className="font-bold text-gray-500">{prefix}</span>
+                    <input
+                        type="text"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && (analysis ? next() : check())}
+                        disabled={!!analysis}
+                        autoFocus
+                        spellCheck={false}
+                        className={`bg-transparent outline-none font-bold w-40 ${!analysis ? 'text-det-dark' : analysis.isCorrect ? 'text-det-green' : 'text-det-red'}`}
+                    />
+                </div>
+                <span>{after}</span>
+            </div>
+            {item.word.translation && <p className="text-sm text-gray-400 mb-6">French: {item.word.translation}</p>}
+
+            {analysis && (
+                <div className={`mb-6 p-4 rounded-xl border ${analysis.isCorrect ? 'bg-green-50 border-green-100' : 'bg-red-50 border-red-100'}`}>
+                    {analysis.isCorrect
+                        ? <p className="text-det-green font-bold">✨ Correct!</p>
+                        : (
+                            <>
+                                <p className="text-det-dark mb-2">The correct spelling is <span className="font-extrabold">{item.word.word}</span></p>
+                                <SpellingErrorTags analysis={analysis} />
+                            </>
+                        )}
+                    <p className="text-xs text-gray-500 mt-2">{spellingErrorLabels[item.pattern].tip}</p>
+                </div>
+            )}
+
+            <div className="flex justify-end">
+                {analysis
+                    ? <button onClick={next} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">NEXT</button>
+                    : <button onClick={check} className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1">CHECK</button>}
+            </div>
+        </div>
+    );
+};
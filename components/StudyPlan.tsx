@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { AttemptRecord } from '../services/attemptHistory';
+import { toDayKey } from '../services/srsService';
+import {
+    PlanSettings, PlanDay, PlanTask, MIN_DAILY_MINUTES, MAX_DAILY_MINUTES,
+    createPlanSettings, planLength, planDayNumber, daysBetween, taskProgress
+} from '../services/studyPlanner';
+
+const DEFAULT_PLAN_DAYS = 14;
+const DEFAULT_MINUTES = 30;
+
+const formatDay = (dayKey: string) =>
+    new Date(`${dayKey}T00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+const inDays = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return toDayKey(date);
+};
+
+// --- Exam date and daily time ---
+export const PlanSetup = ({ settings, onSave }: { settings: PlanSettings | null, onSave: (settings: PlanSettings) => void }) => {
+    const [examDate, setExamDate] = useState(settings?.examDate || inDays(DEFAULT_PLAN_DAYS));
+    const [minutes, setMinutes] = useState(settings?.dailyMinutes || DEFAULT_MINUTES);
+    const valid = examDate > toDayKey() && minutes >= MIN_DAILY_MINUTES && minutes <= MAX_DAILY_MINUTES;
+    const changed = !settings || settings.examDate !== examDate || settings.dailyMinutes !== minutes;
+
+    // Editing keeps the plan's day numbers; starting over counts from today
+    const save = () => valid && onSave(settings ? { ...settings, examDate, dailyMinutes: minutes } : createPlanSettings(examDate, minutes));
+
+    return (
+        <div className="flex flex-wrap items-end gap-4">
+            <label className="text-xs font-bold text-gray-400 uppercase">
+                Exam date
+                <input
+                    type="date"
+                    value={examDate}
+                    min={inDays(1)}
+                    onChange={(e) => setExamDate(e.target.value)}
+                    className="mt-1 block p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none"
+                />
+            </label>
+            <label className="text-xs font-bold text-gray-400 uppercase">
+                Minutes per day
+                <input
+                    type="number"
+                    value={minutes}
+                    min={MIN_DAILY_MINUTES}
+                    max={MAX_DAILY_MINUTES}
+                    step={5}
+                    onChange={(e) => setMinutes(Number(e.target.value))}
+                    className="mt-1 block w-28 p-2 border-2 border-gray-200 rounded-xl text-sm font-bold text-gray-600 focus:border-det-blue focus:outline-none"
+                />
+            </label>
+            <button onClick={save} disabled={!valid || !changed} className="bg-det-blue text-white px-5 py-2 rounded-xl font-bold shadow-md disabled:opacity-50 disabled:shadow-none">
+                {settings ? 'Update Plan' : 'Create My Plan'}
+            </button>
+            {settings && (
+                <button
+                    onClick={() => valid && confirm('Start the plan again from today? Days already ticked will be cleared.') && onSave(createPlanSettings(examDate, minutes))}
+                    disabled={!valid}
+                    className="text-sm text-gray-500 font-bold hover:text-gray-700 py-2"
+                >
+                    Restart from today
+                </button>
+            )}
+        </div>
+    );
+};
+
+// --- One day's tasks, with today's progress ---
+export const PlanTaskList = ({ day, attempts, onStart }: { day: PlanDay, attempts: AttemptRecord[], onStart: (task: PlanTask) => void }) => (
+    <div className="space-y-2">
+        {day.tasks.map(task => {
+            const progress = taskProgress(task, attempts, day.date);
+            const done = progress >= task.target;
+            return (
+                <div key={task.id} className={`flex items-center gap-4 p-3 rounded-xl border ${done ? 'bg-green-50 border-green-100' : 'bg-white border-gray-100'}`}>
+                    <span className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${done ? 'bg-det-green text-white' : 'border-2 border-gray-300 text-transparent'}`}>✓</span>
+                    <div className="flex-1">
+                        <div className="font-bold text-det-dark">{task.label}</div>
+                        <div className="text-xs text-gray-500">
+                            {task.minutes} min · {progress}/{task.target} answers{task.reason && ` · ${task.reason}`}
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => onStart(task)}
+                        className={`px-4 py-1.5 rounded-lg font-bold text-sm ${done ? 'text-det-blue hover:underline' : 'bg-det-blue text-white shadow-md active:translate-y-0.5'}`}
+                    >
+                        {done ? 'Practise again' : 'Start'}
+                    </button>
+                </div>
+            );
+        })}
+    </div>
+);
+
+// --- Full plan ---
+export const StudyPlanView = ({ settings, days, completedDays, attempts, onSaveSettings, onToggleDay, onStartTask }: {
+    settings: PlanSettings | null,
+    days: PlanDay[],
+    completedDays: number[],
+    attempts: AttemptRecord[],
+    onSaveSettings: (settings: PlanSettings) => void,
+    onToggleDay: (day: number) => void,
+    onStartTask: (task: PlanTask) => void
+}) => {
+    const today = settings ? planDayNumber(settings) : 0;
+    const pastDays = settings ? Array.from({ length: Math.min(today - 1, planLength(settings)) }, (_, i) => i + 1) : [];
+
+    const DayToggle = ({ day }: { day: number }) => (
+        <button
+            onClick={() => onToggleDay(day)}
+            title="Mark as done"
+            className={`w-8 h-8 rounded-full border-2 flex items-center justify-center mr-4 transition-colors ${completedDays.includes(day) ? 'bg-det-green border-det-green text-white' : 'border-gray-300 text-transparent hover:border-det-green'}`}
+        >
+            ✓
+        </button>
+    );
+
+    return (
+        <div className="max-w-4xl mx-auto">
+            <h2 className="text-2xl font-bold mb-2">Study Plan</h2>
+            <p className="text-gray-500 mb-6">
+                {settings
+                    ? `Exam on ${formatDay(settings.examDate)}: ${Math.max(0, daysBetween(toDayKey(), settings.examDate))} days to go. The plan adapts to your weakest activities every day.`
+                    : 'Enter your exam date and the time you can practise each day to get a plan built around your weak areas.'}
+            </p>
+
+            <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-8">
+                <PlanSetup key={settings ? `${settings.startDate}:${settings.examDate}:${settings.dailyMinutes}` : 'new'} settings={settings} onSave={onSaveSettings} />
+            </div>
+
+            <div className="grid gap-4">
+                {pastDays.map(day => (
+                    <div key={day} className="flex items-center p-4 rounded-xl border-2 bg-gray-50 border-gray-200 opacity-60">
+                        <DayToggle day={day} />
+                        <span className="text-xs font-bold text-gray-400 uppercase mr-2">Day {day}</span>
+                        <span className="font-bold text-det-dark">{completedDays.includes(day) ? 'Completed' : 'Missed'}</span>
+                    </div>
+                ))}
+                {days.map(day => (
+                    <div key={day.day} className={`p-4 rounded-xl border-2 transition-all ${day.day === today ? 'bg-blue-50 border-blue-100' : completedDays.includes(day.day) ? 'bg-gray-50 border-gray-200 opacity-60' : 'bg-white border-gray-100 hover:border-det-blue'}`}>
+                        <div className="flex items-center">
+                            <DayToggle day={day.day} />
+                            <div className="flex-1">
+                                <span className="text-xs font-bold text-gray-400 uppercase mr-2">Day {day.day} · {day.day === today ? 'Today' : formatDay(day.date)}</span>
+                                <span className="font-bold text-det-dark">{day.title}</span>
+                            </div>
+                            {day.day !== today && <div className="text-sm text-gray-500 hidden sm:block">{day.tasks.reduce((sum, t) => sum + t.minutes, 0)} min</div>}
+                        </div>
+                        {day.day === today && <div className="mt-4"><PlanTaskList day={day} attempts={attempts} onStart={onStartTask} /></div>}
+                        {day.day > today && <div className="text-xs text-gray-500 mt-2 ml-12">{day.tasks.map(t => t.label).join(' · ')}</div>}
+                    </div>
+                ))}
+            </div>
+            {settings && days.length === 0 && <div className="p-4 text-center text-gray-500">Plan Completed! Good luck on your test!</div>}
+        </div>
+    );
+};
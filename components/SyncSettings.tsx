@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { getSyncUrl, setSyncServer, getSyncStatus, checkSyncServer, syncProfile } from '../services/syncService';
+
+// --- Sync server settings, shown under Backup & Sync ---
+export const SyncSettings = ({ profile, onSynced }: { profile: string, onSynced: () => void }) => {
+    const [url, setUrl] = useState(getSyncUrl() || "");
+    const [token, setToken] = useState("");
+    const [status, setStatus] = useState(() => getSyncStatus(profile));
+    const [message, setMessage] = useState<{ text: string, isError: boolean } | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const connect = async () => {
+        setBusy(true);
+        setMessage(null);
+        const problem = await checkSyncServer(url, token);
+        if (!problem) {
+            setSyncServer({ url, token });
+            setToken("");
+            setMessage({ text: "Connected. Your progress will now follow you to other devices.", isError: false });
+        } else {
+            setMessage({ text: problem.status === 401 ? problem.message : "No sync server answered at this address.", isError: true });
+        }
+        setStatus(getSyncStatus(profile));
+        setBusy(false);
+    };
+
+    const disconnect = () => {
+        setSyncServer(null);
+        setUrl("");
+        setMessage(null);
+        setStatus(getSyncStatus(profile));
+    };
+
+    const syncNow = async () => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            const changed = await syncProfile(profile);
+            setMessage({ text: changed ? "Progress from your other devices was added." : "Everything is up to date.", isError: false });
+            if (changed) onSynced();
+        } catch (e) {
+            setMessage({ text: e instanceof Error ? e.message : "Sync failed.", isError: true });
+        }
+        setStatus(getSyncStatus(profile));
+        setBusy(false);
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl border-2 border-gray-100 mb-6">
+            <h3 className="font-bold text-lg mb-2">Sync server</h3>
+            <p className="text-sm text-gray-500 mb-4">
+                Optional. Run <code className="bg-gray-100 px-1 rounded">npm run sync-server</code> on a computer your devices can reach, then enter its address and the <code className="bg-gray-100 px-1 rounded">SYNC_TOKEN</code> it was started with on each device.
+            </p>
+
+            <div className="flex gap-2 mb-4">
+                <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="http://192.168.1.10:8787"
+                    disabled={status.enabled}
+                    className="flex-1 p-3 border-2 border-gray-200 rounded-xl text-sm font-bold focus:border-det-blue focus:outline-none disabled:bg-gray-50"
+                />
+                {status.enabled
+                    ? <button onClick={disconnect} className="bg-gray-200 text-gray-700 px-4 rounded-xl font-bold">Disconnect</button>
+                    : <button onClick={connect} disabled={!url.trim() || !token.trim() || busy} className="bg-det-blue text-white px-4 rounded-xl font-bold disabled:opacity-50">Connect</button>}
+            </div>
+            {!status.enabled && (
+                <input
+                    type="password"
+                    value={token}
+                    onChange={(e) => setToken(e.target.value)}
+                    placeholder="Sync token"
+                    className="w-full p-3 border-2 border-gray-200 rounded-xl text-sm font-bold focus:border-det-blue focus:outline-none mb-4"
+                />
+            )}
+
+            {status.enabled && (
+                <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-500">
+                        {status.pending > 0 ? `${status.pending} changes waiting to upload` : 'No changes waiting'}
+                        {' · '}
+                        {status.lastSyncAt ? `last sync ${new Date(status.lastSyncAt).toLocaleString()}` : 'never synced'}
+                    </span>
+                    <button onClick={syncNow} disabled={busy} className="text-det-blue font-bold hover:underline disabled:opacity-50">
+                        {busy ? 'Syncing…' : 'Sync now'}
+                    </button>
+                </div>
+            )}
+
+            {message && <p className={`text-sm font-bold mt-3 ${message.isError ? 'text-det-red' : 'text-det-green'}`}>{message.text}</p>}
+        </div>
+    );
+};
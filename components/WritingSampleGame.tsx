@@ -0,0 +1,203 @@
+import React, { useState, useRef } from 'react';
+import { Timer, AiErrorNotice, ChallengeCode } from './Activities';
+import { OnActivityResult, OnAttempt } from '../types';
+import { writingPrompts, transitionWords } from '../data';
+import { evaluateWritingSample } from '../services/geminiService';
+import { AiServiceError, asAiError } from '../services/aiErrors';
+import { WritingEvaluation, countWords, rubricCriteria } from '../services/aiSchemas';
+import {
+    PREP_SECONDS, WRITING_DURATIONS, MIN_WORDS, TARGET_WORDS,
+    rubricLabels, findConnectors, splitOnConnectors, rubricPercent
+} from '../services/writingSample';
+import { createRandom, randomSeed, nextSeed, pick } from '../services/random';
+import { createChallenge } from '../services/challenge';
+
+const pickPrompt = (seed: number) => pick(writingPrompts, createRandom(seed));
+
+const wordCountClass = (count: number) =>
+    count < MIN_WORDS ? 'text-det-red' : count < TARGET_WORDS ? 'text-det-orange' : 'text-det-green';
+
+// --- Game 8: Writing Sample ---
+export const WritingSampleGame = ({ onBack, onResult, onAttempt, seed: fixedSeed }: { onBack: () => void, onResult?: OnActivityResult, onAttempt?: OnAttempt, seed?: number }) => {
+    const [seed, setSeed] = useState(() => fixedSeed ?? randomSeed());
+    const [question, setQuestion] = useState(() => pickPrompt(seed));
+    const [minutes, setMinutes] = useState(WRITING_DURATIONS[0]);
+    const [phase, setPhase] = useState<'prep' | 'writing' | 'evaluating' | 'result'>('prep');
+    const [text, setText] = useState("");
+    const [evaluation, setEvaluation] = useState<WritingEvaluation | null>(null);
+    const [error, setError] = useState<AiServiceError | null>(null);
+    const writingStartedAt = useRef(0);
+
+    const wordCount = countWords(text);
+
+    const startWriting = () => {
+        writingStartedAt.current = Date.now();
+        setPhase('writing');
+    };
+
+    const evaluate = async () => {
+        const timeSpentMs = Date.now() - writingStartedAt.current;
+        setPhase('evaluating');
+        setError(null);
+        try {
+            const result = await evaluateWritingSample(question.prompt, text);
+            setEvaluation(result);
+            setPhase('result');
+            onResult?.({ activity: 'writingsample', score: rubricPercent(result) });
+            onAttempt?.({ activity: 'writingsample', item: question.prompt, answer: text, correct: null, aiScore: rubricPercent(result), timeSpentMs });
+        } catch (e) {
+            setError(asAiError(e, 'writingSample'));
+        }
+    };
+
+    // Follows the seed chain, skipping the prompt just answered
+    const nextPrompt = () => {
+        let next = nextSeed(seed);
+        while (writingPrompts.length > 1 && pickPrompt(next) === question) next = nextSeed(next);
+        setSeed(next);
+        setQuestion(pickPrompt(next));
+        setText("");
+        setEvaluation(null);
+        setPhase('prep');
+    };
+
+    if (error) return <AiErrorNotice error={error} onRetry={evaluate} onBack={onBack} />;
+    if (phase === 'evaluating') return <div className="text-center mt-20">Grading your writing sample...</div>;
+
+    if (phase === 'prep') {
+        return (
+            <div className="max-w-3xl mx-auto mt-10 p-6 bg-white rounded-2xl shadow-md border border-gray-100">
+                <div className="flex justify-between items-center mb-6 border-b border-gray-100 pb-4">
+                    <div className="flex items-center gap-2">
+                        <span className="bg-det-blue text-white px-2 py-1 rounded text-xs font-bold uppercase">Writing</span>
+                        <h2 className="text-xl font-bold text-det-dark">Prepare your answer</h2>
+                        <ChallengeCode challenge={createChallenge('writingsample', {}, seed)} />
+                    </div>
+                    <Timer duration={PREP_SECONDS} onFinish={startWriting} label="Preparation" />
+                </div>
+                <p className="text-lg font-bold text-det-dark mb-6">{question.prompt}</p>
+                <div className="flex items-center gap-3 mb-8">
+                    <span className="text-sm font-bold text-gray-500">Writing time</span>
+                    {WRITING_DURATIONS.map(d => (
+                        <button
+                            key={d}
+                            onClick={() => setMinutes(d)}
+                            className={`px-4 py-1 rounded-lg border-2 text-sm font-bold ${minutes === d ? 'border-det-blue text-det-blue bg-blue-50' : 'border-gray-200 text-gray-500'}`}
+                        >
+                            {d} min
+                        </button>
+                    ))}
+                </div>
+                <div className="flex justify-end gap-4">
+                    <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
+                    <button onClick={startWriting} className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1">START WRITING</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (phase === 'writing') {
+        return (
+            <div className="max-w-3xl mx-auto mt-10 p-6 bg-white rounded-2xl shadow-md border border-gray-100">
+                <div className="flex justify-between items-center mb-4 border-b border-gray-100 pb-4">
+                    <h2 className="text-xl font-bold text-det-dark">Writing Sample</h2>
+                    <Timer duration={minutes * 60} onFinish={evaluate} label="Time Left" />
+                </div>
+                <p className="font-bold text-det-dark mb-4">{question.prompt}</p>
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    spellCheck={false}
+                    placeholder="Write your answer here..."
+                    className="w-full h-64 border-2 border-gray-200 rounded-2xl p-4 resize-none focus:outline-none focus:border-det-blue text-lg dys-text mb-2"
+                />
+                <div className="flex justify-between items-center mb-6">
+                    <span className={`text-sm font-bold ${wordCountClass(wordCount)}`}>{wordCount} words</span>
+                    <span className="text-xs text-gray-400">Minimum {MIN_WORDS} · Target {TARGET_WORDS}+</span>
+                </div>
+                <div className="flex justify-end gap-4">
+                    <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
+                    <button onClick={evaluate} disabled={wordCount === 0} className="bg-det-blue text-white py-3 px-8 rounded-xl font-bold shadow-md active:shadow-none active:translate-y-1 disabled:opacity-50">SUBMIT</button>
+                </div>
+            </div>
+        );
+    }
+
+    const connectors = findConnectors(text);
+    const usedUsages = new Set(connectors.map(c => c.usage));
+    const missingUsages = [...new Set(transitionWords.map(t => t.usage))].filter(u => !usedUsages.has(u));
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10 p-6 bg-white rounded-2xl shadow-md border border-gray-100">
+            <div className="flex justify-between items-center mb-6 border-b border-gray-100 pb-4">
+                <h2 className="text-xl font-bold text-det-dark">Writing Sample feedback</h2>
+                <span className="font-extrabold text-2xl text-det-blue">{rubricPercent(evaluation!)}/100</span>
+            </div>
+
+            <table className="w-full mb-6">
+                <tbody>
+                    {rubricCriteria.map(key => {
+                        const { score, comment } = evaluation!.criteria[key];
+                        return (
+                            <tr key={key} className="border-b border-gray-100 align-top">
+                                <td className="py-3 pr-4 font-bold text-gray-600 whitespace-nowrap">{rubricLabels[key]}</td>
+                                <td className="py-3 pr-4 whitespace-nowrap">
+                                    {[1, 2, 3, 4, 5].map(n => (
+                                        <span key={n} className={`inline-block w-3 h-3 rounded-full mr-1 ${n <= score ? 'bg-det-green' : 'bg-gray-200'}`}></span>
+                                    ))}
+                                    <span className="text-xs font-bold text-gray-400 ml-1">{score}/5</span>
+                                </td>
+                                <td className="py-3 text-sm text-gray-600">{comment}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            <p className="text-gray-700 mb-6">{evaluation!.summary}</p>
+
+            <div className="mb-6 p-4 bg-gray-50 rounded-xl">
+                <h3 className="font-bold mb-2">Your answer <span className="text-xs font-normal text-gray-400">({wordCount} words, connectors in green)</span></h3>
+                <p className="dys-text whitespace-pre-wrap">
+                    {splitOnConnectors(text).map((part, i) => (
+                        <span key={i} className={part.isConnector ? 'bg-green-100 text-det-green font-bold rounded px-0.5' : ''}>{part.text}</span>
+                    ))}
+                </p>
+            </div>
+
+            <div className="mb-6">
+                <h3 className="font-bold mb-2">Connectors used</h3>
+                {connectors.length === 0
+                    ? <p className="text-sm text-gray-500">None from the study list.</p>
+                    : (
+                        <div className="flex flex-wrap gap-2">
+                            {connectors.map(c => (
+                                <span key={c.word} className="text-sm bg-green-50 border border-green-200 text-det-green font-bold px-2 py-1 rounded">
+                                    {c.word}{c.count > 1 ? ` ×${c.count}` : ''} <span className="font-normal text-gray-500">({c.usage})</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                {missingUsages.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-2">
+                        Next time, try: {missingUsages.map(u => `${u} (${transitionWords.find(t => t.usage === u)!.word})`).join(', ')}.
+                    </p>
+                )}
+            </div>
+
+            {evaluation!.corrections.length > 0 && (
+                <div className="mb-6">
+                    <h3 className="font-bold mb-2">Corrections</h3>
+                    <ul className="list-disc pl-5 text-sm text-gray-600 space-y-1">
+                        {evaluation!.corrections.map((c, i) => <li key={i}>{c}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-4">
+                <button onClick={onBack} className="text-gray-500 font-bold px-4">Exit</button>
+                <button onClick={nextPrompt} className="bg-det-green text-white py-3 px-8 rounded-xl font-bold shadow-md">NEXT PROMPT</button>
+            </div>
+        </div>
+    );
+};
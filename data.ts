@@ -8,179 +8,152 @@ export interface WordDef {
 
 export const realWords: WordDef[] = [
   // Existing B2/C1 Selection
-  { word: "absorb", type: "v.", level: "B2" },
-  { word: "accommodation", type: "n.", level: "B2" },
-  { word: "accomplish", type: "v.", level: "B2" },
-  { word: "adequate", type: "adj.", level: "B2" },
-  { word: "ambitious", type: "adj.", level: "B2" },
-  { word: "anticipate", type: "v.", level: "B2" },
-  { word: "appropriate", type: "adj.", level: "B2" },
-  { word: "assistance", type: "n.", level: "B2" },
-  { word: "beneficial", type: "adj.", level: "B2" },
-  { word: "capability", type: "n.", level: "C1" },
-  { word: "circumstance", type: "n.", level: "B2" },
-  { word: "comprehensive", type: "adj.", level: "B2" },
-  { word: "conscientious", type: "adj.", level: "C1" },
-  { word: "controversial", type: "adj.", level: "B2" },
-  { word: "curriculum", type: "n.", level: "B2" },
-  { word: "deficiency", type: "n.", level: "C1" },
-  { word: "demonstrate", type: "v.", level: "B2" },
-  { word: "depression", type: "n.", level: "B2" },
-  { word: "differentiate", type: "v.", level: "C1" },
-  { word: "disastrous", type: "adj.", level: "C1" },
-  { word: "distinguish", type: "v.", level: "B2" },
-  { word: "elaborate", type: "adj.", level: "C1" },
-  { word: "embarrassment", type: "n.", level: "C1" },
-  { word: "enthusiastic", type: "adj.", level: "B2" },
-  { word: "entrepreneur", type: "n.", level: "B2" },
-  { word: "equivalent", type: "adj.", level: "B2" },
-  { word: "evaluate", type: "v.", level: "B2" },
-  { word: "exaggerate", type: "v.", level: "C1" },
-  { word: "extraordinary", type: "adj.", level: "B2" },
-  { word: "fascinating", type: "adj.", level: "B2" },
-  { word: "fluctuation", type: "n.", level: "C1" },
-  { word: "fundamental", type: "adj.", level: "B2" },
-  { word: "genuine", type: "adj.", level: "B2" },
-  { word: "guarantee", type: "n/v", level: "B2" },
-  { word: "hierarchy", type: "n.", level: "C1" },
-  { word: "hypothesis", type: "n.", level: "B2" },
-  { word: "identical", type: "adj.", level: "B2" },
-  { word: "implement", type: "v.", level: "B2" },
-  { word: "indigenous", type: "adj.", level: "C1" },
-  { word: "inevitable", type: "adj.", level: "B2" },
-  { word: "infrastructure", type: "n.", level: "B2" },
-  { word: "initiative", type: "n.", level: "B2" },
-  { word: "integration", type: "n.", level: "C1" },
-  { word: "interpretation", type: "n.", level: "B2" },
-  { word: "intervention", type: "n.", level: "C1" },
-  { word: "investigation", type: "n.", level: "B2" },
-  { word: "justification", type: "n.", level: "C1" },
-  { word: "legislation", type: "n.", level: "C1" },
-  { word: "maintenance", type: "n.", level: "C1" },
-  { word: "manufacture", type: "v.", level: "B2" },
-  { word: "mechanism", type: "n.", level: "B2" },
-  { word: "negotiation", type: "n.", level: "B2" },
-  { word: "nevertheless", type: "adv.", level: "B2" },
-  { word: "observation", type: "n.", level: "B2" },
-  { word: "opportunity", type: "n.", level: "B2" },
-  { word: "parliament", type: "n.", level: "C1" },
-  { word: "participant", type: "n.", level: "B2" },
-  { word: "perception", type: "n.", level: "B2" },
-  { word: "permanent", type: "adj.", level: "B2" },
-  { word: "phenomenon", type: "n.", level: "B2" },
-  { word: "philosophy", type: "n.", level: "B2" },
-  { word: "practitioner", type: "n.", level: "C1" },
-  { word: "preliminary", type: "adj.", level: "C1" },
-  { word: "preparation", type: "n.", level: "B2" },
-  { word: "prescription", type: "n.", level: "C1" },
-  { word: "privilege", type: "n.", level: "C1" },
-  { word: "probability", type: "n.", level: "B2" },
-  { word: "professional", type: "adj.", level: "B2" },
-  { word: "psychological", type: "adj.", level: "B2" },
-  { word: "questionnaire", type: "n.", level: "B2" },
-  { word: "recommendation", type: "n.", level: "B2" },
-  { word: "rehabilitation", type: "n.", level: "C1" },
-  { word: "reinforce", type: "v.", level: "B2" },
-  { word: "reliable", type: "adj.", level: "B2" },
-  { word: "representative", type: "n.", level: "B2" },
-  { word: "requirement", type: "n.", level: "B2" },
-  { word: "sophisticated", type: "adj.", level: "B2" },
-  { word: "specification", type: "n.", level: "C1" },
-  { word: "spectacular", type: "adj.", level: "B2" },
-  { word: "straightforward", type: "adj.", level: "C1" },
-  { word: "substantially", type: "adv.", level: "C1" },
-  { word: "sustainable", type: "adj.", level: "B2" },
-  { word: "theoretical", type: "adj.", level: "C1" },
-  { word: "transformation", type: "n.", level: "B2" },
-  { word: "transportation", type: "n.", level: "B2" },
-  { word: "unprecedented", type: "adj.", level: "C1" },
-  { word: "vulnerable", type: "adj.", level: "C1" },
-  { word: "widespread", type: "adj.", level: "B2" },
+  { word: "absorb", type: "v.", level: "B2", translation: "absorber" },
+  { word: "accommodation", type: "n.", level: "B2", translation: "logement" },
+  { word: "accomplish", type: "v.", level: "B2", translation: "accomplir" },
+  { word: "adequate", type: "adj.", level: "B2", translation: "adéquat" },
+  { word: "ambitious", type: "adj.", level: "B2", translation: "ambitieux" },
+  { word: "anticipate", type: "v.", level: "B2", translation: "anticiper" },
+  { word: "appropriate", type: "adj.", level: "B2", translation: "approprié" },
+  { word: "assistance", type: "n.", level: "B2", translation: "aide" },
+  { word: "beneficial", type: "adj.", level: "B2", translation: "bénéfique" },
+  { word: "capability", type: "n.", level: "C1", translation: "capacité" },
+  { word: "circumstance", type: "n.", level: "B2", translation: "circonstance" },
+  { word: "comprehensive", type: "adj.", level: "B2", translation: "complet" },
+  { word: "conscientious", type: "adj.", level: "C1", translation: "consciencieux" },
+  { word: "controversial", type: "adj.", level: "B2", translation: "controversé" },
+  { word: "curriculum", type: "n.", level: "B2", translation: "programme scolaire" },
+  { word: "deficiency", type: "n.", level: "C1", translation: "carence" },
+  { word: "demonstrate", type: "v.", level: "B2", translation: "démontrer" },
+  { word: "depression", type: "n.", level: "B2", translation: "dépression" },
+  { word: "differentiate", type: "v.", level: "C1", translation: "différencier" },
+  { word: "disastrous", type: "adj.", level: "C1", translation: "désastreux" },
+  { word: "distinguish", type: "v.", level: "B2", translation: "distinguer" },
+  { word: "elaborate", type: "adj.", level: "C1", translation: "élaboré" },
+  { word: "embarrassment", type: "n.", level: "C1", translation: "gêne" },
+  { word: "enthusiastic", type: "adj.", level: "B2", translation: "enthousiaste" },
+  { word: "entrepreneur", type: "n.", level: "B2", translation: "entrepreneur" },
+  { word: "equivalent", type: "adj.", level: "B2", translation: "équivalent" },
+  { word: "evaluate", type: "v.", level: "B2", translation: "évaluer" },
+  { word: "exaggerate", type: "v.", level: "C1", translation: "exagérer" },
+  { word: "extraordinary", type: "adj.", level: "B2", translation: "extraordinaire" },
+  { word: "fascinating", type: "adj.", level: "B2", translation: "fascinant" },
+  { word: "fluctuation", type: "n.", level: "C1", translation: "fluctuation" },
+  { word: "fundamental", type: "adj.", level: "B2", translation: "fondamental" },
+  { word: "genuine", type: "adj.", level: "B2", translation: "authentique" },
+  { word: "guarantee", type: "n/v", level: "B2", translation: "garantie / garantir" },
+  { word: "hierarchy", type: "n.", level: "C1", translation: "hiérarchie" },
+  { word: "hypothesis", type: "n.", level: "B2", translation: "hypothèse" },
+  { word: "identical", type: "adj.", level: "B2", translation: "identique" },
+  { word: "implement", type: "v.", level: "B2", translation: "mettre en œuvre" },
+  { word: "indigenous", type: "adj.", level: "C1", translation: "autochtone" },
+  { word: "inevitable", type: "adj.", level: "B2", translation: "inévitable" },
+  { word: "infrastructure", type: "n.", level: "B2", translation: "infrastructure" },
+  { word: "initiative", type: "n.", level: "B2", translation: "initiative" },
+  { word: "integration", type: "n.", level: "C1", translation: "intégration" },
+  { word: "interpretation", type: "n.", level: "B2", translation: "interprétation" },
+  { word: "intervention", type: "n.", level: "C1", translation: "intervention" },
+  { word: "investigation", type: "n.", level: "B2", translation: "enquête" },
+  { word: "justification", type: "n.", level: "C1", translation: "justification" },
+  { word: "legislation", type: "n.", level: "C1", translation: "législation" },
+  { word: "maintenance", type: "n.", level: "C1", translation: "entretien" },
+  { word: "manufacture", type: "v.", level: "B2", translation: "fabriquer" },
+  { word: "mechanism", type: "n.", level: "B2", translation: "mécanisme" },
+  { word: "negotiation", type: "n.", level: "B2", translation: "négociation" },
+  { word: "nevertheless", type: "adv.", level: "B2", translation: "néanmoins" },
+  { word: "observation", type: "n.", level: "B2", translation: "observation" },
+  { word: "opportunity", type: "n.", level: "B2", translation: "occasion" },
+  { word: "parliament", type: "n.", level: "C1", translation: "parlement" },
+  { word: "participant", type: "n.", level: "B2", translation: "participant" },
+  { word: "perception", type: "n.", level: "B2", translation: "perception" },
+  { word: "permanent", type: "adj.", level: "B2", translation: "permanent" },
+  { word: "phenomenon", type: "n.", level: "B2", translation: "phénomène" },
+  { word: "philosophy", type: "n.", level: "B2", translation: "philosophie" },
+  { word: "practitioner", type: "n.", level: "C1", translation: "praticien" },
+  { word: "preliminary", type: "adj.", level: "C1", translation: "préliminaire" },
+  { word: "preparation", type: "n.", level: "B2", translation: "préparation" },
+  { word: "prescription", type: "n.", level: "C1", translation: "ordonnance" },
+  { word: "privilege", type: "n.", level: "C1", translation: "privilège" },
+  { word: "probability", type: "n.", level: "B2", translation: "probabilité" },
+  { word: "professional", type: "adj.", level: "B2", translation: "professionnel" },
+  { word: "psychological", type: "adj.", level: "B2", translation: "psychologique" },
+  { word: "questionnaire", type: "n.", level: "B2", translation: "questionnaire" },
+  { word: "recommendation", type: "n.", level: "B2", translation: "recommandation" },
+  { word: "rehabilitation", type: "n.", level: "C1", translation: "réhabilitation" },
+  { word: "reinforce", type: "v.", level: "B2", translation: "renforcer" },
+  { word: "reliable", type: "adj.", level: "B2", translation: "fiable" },
+  { word: "representative", type: "n.", level: "B2", translation: "représentant" },
+  { word: "requirement", type: "n.", level: "B2", translation: "exigence" },
+  { word: "sophisticated", type: "adj.", level: "B2", translation: "sophistiqué" },
+  { word: "specification", type: "n.", level: "C1", translation: "spécification" },
+  { word: "spectacular", type: "adj.", level: "B2", translation: "spectaculaire" },
+  { word: "straightforward", type: "adj.", level: "C1", translation: "simple, direct" },
+  { word: "substantially", type: "adv.", level: "C1", translation: "considérablement" },
+  { word: "sustainable", type: "adj.", level: "B2", translation: "durable" },
+  { word: "theoretical", type: "adj.", level: "C1", translation: "théorique" },
+  { word: "transformation", type: "n.", level: "B2", translation: "transformation" },
+  { word: "transportation", type: "n.", level: "B2", translation: "transport" },
+  { word: "unprecedented", type: "adj.", level: "C1", translation: "sans précédent" },
+  { word: "vulnerable", type: "adj.", level: "C1", translation: "vulnérable" },
+  { word: "widespread", type: "adj.", level: "B2", translation: "répandu" },
   // Newly Added DET High-Utility Words
-  { word: "acquire", type: "v.", level: "B2" },
-  { word: "alternative", type: "n/adj", level: "B2" },
-  { word: "analyze", type: "v.", level: "B2" },
-  { word: "approach", type: "n/v", level: "B2" },
-  { word: "aspect", type: "n.", level: "B2" },
-  { word: "assess", type: "v.", level: "B2" },
-  { word: "assume", type: "v.", level: "B2" },
-  { word: "authority", type: "n.", level: "B2" },
-  { word: "available", type: "adj.", level: "B2" },
-  { word: "benefit", type: "n/v", level: "B2" },
-  { word: "concept", type: "n.", level: "B2" },
-  { word: "consist", type: "v.", level: "B2" },
-  { word: "constitute", type: "v.", level: "C1" },
-  { word: "context", type: "n.", level: "B2" },
-  { word: "create", type: "v.", level: "A2" }, // Common but vital
-  { word: "data", type: "n.", level: "B2" },
-  { word: "define", type: "v.", level: "B2" },
-  { word: "derive", type: "v.", level: "B2" },
-  { word: "distribute", type: "v.", level: "B2" },
-  { word: "economy", type: "n.", level: "B2" },
-  { word: "environment", type: "n.", level: "B1" },
-  { word: "establish", type: "v.", level: "B2" },
-  { word: "estimate", type: "v.", level: "B2" },
-  { word: "factor", type: "n.", level: "B2" },
-  { word: "finance", type: "n.", level: "B2" },
-  { word: "formula", type: "n.", level: "C1" },
-  { word: "function", type: "n/v", level: "B2" },
-  { word: "identify", type: "v.", level: "B2" },
-  { word: "income", type: "n.", level: "B2" },
-  { word: "indicate", type: "v.", level: "B2" },
-  { word: "individual", type: "n/adj", level: "B2" },
-  { word: "involve", type: "v.", level: "B2" },
-  { word: "issue", type: "n.", level: "B2" },
-  { word: "labor", type: "n.", level: "C1" },
-  { word: "legal", type: "adj.", level: "B2" },
-  { word: "major", type: "adj.", level: "B2" },
-  { word: "method", type: "n.", level: "B2" },
-  { word: "occur", type: "v.", level: "B2" },
-  { word: "percent", type: "n.", level: "B2" },
-  { word: "period", type: "n.", level: "B2" },
-  { word: "policy", type: "n.", level: "B2" },
-  { word: "principle", type: "n.", level: "C1" },
-  { word: "procedure", type: "n.", level: "B2" },
-  { word: "process", type: "n.", level: "B2" },
-  { word: "required", type: "adj.", level: "B2" },
-  { word: "research", type: "n.", level: "B2" },
-  { word: "response", type: "n.", level: "B2" },
-  { word: "role", type: "n.", level: "B2" },
-  { word: "section", type: "n.", level: "B2" },
-  { word: "sector", type: "n.", level: "C1" },
-  { word: "significant", type: "adj.", level: "B2" },
-  { word: "similar", type: "adj.", level: "B1" },
-  { word: "source", type: "n.", level: "B2" },
-  { word: "specific", type: "adj.", level: "B2" },
-  { word: "structure", type: "n.", level: "B2" },
-  { word: "theory", type: "n.", level: "B2" },
-  { word: "vary", type: "v.", level: "B2" }
-];
-
-// Pseudo-words: Structurally correct English morphology but meaningless
-export const fakeWords: string[] = [
-  "braliance", "compoltion", "defract", "elusivity", "flumptious", 
-  "glamerate", "histeric", "intervost", "juridiction", "klonder", 
-  "luminent", "mignify", "noctulance", "obliverate", "plender", 
-  "quantious", "replind", "scrampt", "tempolary", "unbrive", 
-  "veridicality", "wimbley", "xylophate", "yorbid", "zandor",
-  "transvade", "sublimate", "prelaption", "conferance", "depolish",
-  "ambulate", "fravolous", "glandure", "harvical", "instep",
-  "jesture", "klimber", "loptious", "marvelousness", "naptual",
-  "opturate", "proform", "qualifyer", "rantify", "splune",
-  "trundle", "ubilance", "vendure", "westral", "yonderly",
-  "blandishment", "crunkle", "dorp", "frill", "gorp",
-  "harkle", "jibber", "kempt", "larkle", "mimp",
-  "nark", "piffle", "quib", "rort", "snark",
-  "thrum", "umber", "vorp", "wiffle", "yarble",
-  "abstrusion", "beleaguerment", "circumvade", "disgrunt", "enfeeblement",
-  "flabbergastation", "grandiloquence", "hippopotomonstrosesquippedaliophobia", "interfenestration", "juxtapositionality",
-  "kerfuffle", "lugubriosity", "magniloquence", "obfuscation", "perspicacity",
-  "quixotism", "recalcitrance", "sesquipedalianism", "tintinnabulation", "ubiquity",
-  "verisimilitude", "weltschmerz", "xenophobia", "zeitgeist", "abjuration",
-  "bloviate", "crapulent", "defenestrate", "epistemology", "fatuous",
-  "gerrymander", "hegemony", "iconoclast", "jingoism", "kitsch",
-  "laconic", "maudlin", "nefarious", "obsequious", "panacea",
-  "quixotic", "redoubtable", "sycophant", "truculent", "ululate"
+  { word: "acquire", type: "v.", level: "B2", translation: "acquérir" },
+  { word: "alternative", type: "n/adj", level: "B2", translation: "alternative" },
+  { word: "analyze", type: "v.", level: "B2", translation: "analyser" },
+  { word: "approach", type: "n/v", level: "B2", translation: "approche / aborder" },
+  { word: "aspect", type: "n.", level: "B2", translation: "aspect" },
+  { word: "assess", type: "v.", level: "B2", translation: "évaluer" },
+  { word: "assume", type: "v.", level: "B2", translation: "supposer" },
+  { word: "authority", type: "n.", level: "B2", translation: "autorité" },
+  { word: "available", type: "adj.", level: "B2", translation: "disponible" },
+  { word: "benefit", type: "n/v", level: "B2", translation: "avantage / bénéficier" },
+  { word: "concept", type: "n.", level: "B2", translation: "concept" },
+  { word: "consist", type: "v.", level: "B2", translation: "consister" },
+  { word: "constitute", type: "v.", level: "C1", translation: "constituer" },
+  { word: "context", type: "n.", level: "B2", translation: "contexte" },
+  { word: "create", type: "v.", level: "A2", translation: "créer" }, // Common but vital
+  { word: "data", type: "n.", level: "B2", translation: "données" },
+  { word: "define", type: "v.", level: "B2", translation: "définir" },
+  { word: "derive", type: "v.", level: "B2", translation: "dériver" },
+  { word: "distribute", type: "v.", level: "B2", translation: "distribuer" },
+  { word: "economy", type: "n.", level: "B2", translation: "économie" },
+  { word: "environment", type: "n.", level: "B1", translation: "environnement" },
+  { word: "establish", type: "v.", level: "B2", translation: "établir" },
+  { word: "estimate", type: "v.", level: "B2", translation: "estimer" },
+  { word: "factor", type: "n.", level: "B2", translation: "facteur" },
+  { word: "finance", type: "n.", level: "B2", translation: "finance" },
+  { word: "formula", type: "n.", level: "C1", translation: "formule" },
+  { word: "function", type: "n/v", level: "B2", translation: "fonction / fonctionner" },
+  { word: "identify", type: "v.", level: "B2", translation: "identifier" },
+  { word: "income", type: "n.", level: "B2", translation: "revenu" },
+  { word: "indicate", type: "v.", level: "B2", translation: "indiquer" },
+  { word: "individual", type: "n/adj", level: "B2", translation: "individu / individuel" },
+  { word: "involve", type: "v.", level: "B2", translation: "impliquer" },
+  { word: "issue", type: "n.", level: "B2", translation: "problème, question" },
+  { word: "labor", type: "n.", level: "C1", translation: "travail, main-d'œuvre" },
+  { word: "legal", type: "adj.", level: "B2", translation: "légal" },
+  { word: "major", type: "adj.", level: "B2", translation: "majeur" },
+  { word: "method", type: "n.", level: "B2", translation: "méthode" },
+  { word: "occur", type: "v.", level: "B2", translation: "se produire" },
+  { word: "percent", type: "n.", level: "B2", translation: "pour cent" },
+  { word: "period", type: "n.", level: "B2", translation: "période" },
+  { word: "policy", type: "n.", level: "B2", translation: "politique" },
+  { word: "principle", type: "n.", level: "C1", translation: "principe" },
+  { word: "procedure", type: "n.", level: "B2", translation: "procédure" },
+  { word: "process", type: "n.", level: "B2", translation: "processus" },
+  { word: "required", type: "adj.", level: "B2", translation: "requis" },
+  { word: "research", type: "n.", level: "B2", translation: "recherche" },
+  { word: "response", type: "n.", level: "B2", translation: "réponse" },
+  { word: "role", type: "n.", level: "B2", translation: "rôle" },
+  { word: "section", type: "n.", level: "B2", translation: "section" },
+  { word: "sector", type: "n.", level: "C1", translation: "secteur" },
+  { word: "significant", type: "adj.", level: "B2", translation: "important, significatif" },
+  { word: "similar", type: "adj.", level: "B1", translation: "similaire" },
+  { word: "source", type: "n.", level: "B2", translation: "source" },
+  { word: "specific", type: "adj.", level: "B2", translation: "spécifique" },
+  { word: "structure", type: "n.", level: "B2", translation: "structure" },
+  { word: "theory", type: "n.", level: "B2", translation: "théorie" },
+  { word: "vary", type: "v.", level: "B2", translation: "varier" }
 ];
 
 export const transitionWords = [
@@ -210,26 +183,26 @@ export const photoVocab = {
 
 // Structured list for Flashcards
 export const photoWords: WordDef[] = [
-    { word: "Foreground", type: "n.", level: "B1" },
-    { word: "Background", type: "n.", level: "B1" },
-    { word: "Strolling", type: "v.", level: "B2" },
-    { word: "Bustling", type: "adj.", level: "C1" },
-    { word: "Serene", type: "adj.", level: "C1" },
-    { word: "Chaotic", type: "adj.", level: "B2" },
-    { word: "Vibrant", type: "adj.", level: "B2" },
-    { word: "Somber", type: "adj.", level: "C1" },
-    { word: "Pondering", type: "v.", level: "C1" },
-    { word: "Gazing", type: "v.", level: "B2" },
-    { word: "Commuting", type: "v.", level: "B2" },
-    { word: "Pedestrian", type: "n.", level: "B2" },
-    { word: "Skyscraper", type: "n.", level: "B1" },
-    { word: "Rural", type: "adj.", level: "B2" },
-    { word: "Urban", type: "adj.", level: "B2" },
-    { word: "Landscape", type: "n.", level: "B1" },
-    { word: "Portrait", type: "n.", level: "B1" },
-    { word: "Atmosphere", type: "n.", level: "B2" },
-    { word: "Distinct", type: "adj.", level: "B2" },
-    { word: "Vivid", type: "adj.", level: "B2" }
+    { word: "Foreground", type: "n.", level: "B1", translation: "Premier plan" },
+    { word: "Background", type: "n.", level: "B1", translation: "Arrière-plan" },
+    { word: "Strolling", type: "v.", level: "B2", translation: "Se promener" },
+    { word: "Bustling", type: "adj.", level: "C1", translation: "Animé" },
+    { word: "Serene", type: "adj.", level: "C1", translation: "Serein" },
+    { word: "Chaotic", type: "adj.", level: "B2", translation: "Chaotique" },
+    { word: "Vibrant", type: "adj.", level: "B2", translation: "Vibrant, plein de vie" },
+    { word: "Somber", type: "adj.", level: "C1", translation: "Sombre" },
+    { word: "Pondering", type: "v.", level: "C1", translation: "Réfléchir" },
+    { word: "Gazing", type: "v.", level: "B2", translation: "Contempler" },
+    { word: "Commuting", type: "v.", level: "B2", translation: "Faire le trajet" },
+    { word: "Pedestrian", type: "n.", level: "B2", translation: "Piéton" },
+    { word: "Skyscraper", type: "n.", level: "B1", translation: "Gratte-ciel" },
+    { word: "Rural", type: "adj.", level: "B2", translation: "Rural" },
+    { word: "Urban", type: "adj.", level: "B2", translation: "Urbain" },
+    { word: "Landscape", type: "n.", level: "B1", translation: "Paysage" },
+    { word: "Portrait", type: "n.", level: "B1", translation: "Portrait" },
+    { word: "Atmosphere", type: "n.", level: "B2", translation: "Atmosphère" },
+    { word: "Distinct", type: "adj.", level: "B2", translation: "Distinct" },
+    { word: "Vivid", type: "adj.", level: "B2", translation: "Vif, éclatant" }
 ];
 
 // Unified type for handling all word lists in flashcards
@@ -248,19 +221,220 @@ export const photoMethod = [
   { step: 4, name: "Speculation/Conclusion", detail: "Guess feelings/reasons (10-15s)", example: "The image conveys a sense of urban life. I would assume it's rush hour." }
 ];
 
-export const studyPlan = [
-  { day: 1, topic: "Vocabulaire B2 (Nouns/Verbs)", activity: "Flashcards & Real Word Game" },
-  { day: 2, topic: "Description Photo (Structure)", activity: "Write About Photo Practice" },
-  { day: 3, topic: "Mots de Transition & Spelling", activity: "Fill in the Blank & Spelling Drill" },
-  { day: 4, topic: "Vocabulaire C1 (Abstract)", activity: "Flashcards & Context Sentences" },
-  { day: 5, topic: "Dictée & Orthographe", activity: "Fill in the Blanks (Dysorthography Focus)" },
-  { day: 6, topic: "Speaking (Describe Photo)", activity: "Oral Simulation (Self-Timed)" },
-  { day: 7, topic: "Review Week 1", activity: "Full Mix Game" },
-  { day: 8, topic: "Advanced Connectors", activity: "Fill in the Blank with Transition Words" },
-  { day: 9, topic: "Speed Reading", activity: "Real Word Game (Speed Mode)" },
-  { day: 10, topic: "Complex Sentences", activity: "Write About Photo (Hard Mode)" },
-  { day: 11, topic: "Synonyms & Paraphrasing", activity: "Gemini Rewrite Tool" },
-  { day: 12, topic: "Final Vocab Polish", activity: "Flashcards (Only Hard Words)" },
-  { day: 13, topic: "Full Simulation Part 1", activity: "All Games" },
-  { day: 14, topic: "Full Simulation Part 2", activity: "Relax & Confidence" },
-];
\ No newline at end of file
+// Short B2/C1 paragraphs (60-80 words) used when content is generated offline
+export const paragraphBank = [
+  { topic: "Urban Green Spaces", text: "Urban parks are far more than decorative areas between buildings. Research consistently shows that regular access to green spaces reduces stress and encourages physical activity. Furthermore, trees absorb pollutants and lower summer temperatures in dense neighbourhoods. Nevertheless, many cities struggle to maintain these areas because land is expensive and budgets are limited. Consequently, some councils now work with local volunteers, who plant flowers, organise events and help keep the parks clean and safe." },
+  { topic: "The History of Printing", text: "Before the invention of the printing press, books were copied by hand, which made them rare and extremely expensive. When Gutenberg introduced movable type in the fifteenth century, the cost of producing texts fell dramatically. As a result, ideas spread across Europe faster than ever before. Literacy rates gradually increased, and ordinary people began to question established authorities. Historians therefore consider printing one of the most significant technological transformations in human history." },
+  { topic: "Sleep and Memory", text: "Scientists have long suspected that sleep plays a fundamental role in learning. Recent experiments indicate that the brain replays new information during deep sleep, strengthening the connections between neurons. Students who sleep well after studying tend to remember vocabulary and formulas more accurately. Conversely, those who stay awake all night often perform worse, even though they spent more time revising. Ultimately, a consistent sleep schedule may be one of the most reliable study strategies available." },
+  { topic: "Renewable Energy", text: "Solar and wind power have become considerably cheaper over the past decade. In many regions, building a new solar farm now costs less than operating an old coal plant. However, renewable sources depend on the weather, so energy must be stored for cloudy or calm days. Engineers are developing larger batteries and smarter grids to solve this problem. If these technologies succeed, the transition to sustainable energy could happen much faster than experts originally anticipated." },
+  { topic: "Remote Work", text: "Since the pandemic, millions of employees have discovered the advantages of working from home. They save time on commuting and often report a better balance between their professional and personal lives. Admittedly, remote work also creates challenges. Some people feel isolated, while managers worry about communication and team spirit. For this reason, many companies now adopt a hybrid approach, in which staff spend part of the week in the office and the rest at home." },
+  { topic: "Coral Reefs", text: "Coral reefs cover less than one percent of the ocean floor, yet they support roughly a quarter of all marine species. These fragile ecosystems are extremely vulnerable to rising water temperatures. When the sea becomes too warm, corals expel the algae that feed them and turn white, a process known as bleaching. Although reefs can recover, repeated heatwaves leave them little time to do so. Protecting them therefore requires global action on climate change." }
+];
+
+// Interactive Reading: questions written for the paragraphs above.
+// `highlight.answer` must appear word for word in the passage; `mainIdea.options[0]` is the correct answer.
+export interface ReadingPassage {
+  topic: string;
+  text: string;
+  highlight?: { question: string; answer: string };
+  mainIdea?: { options: string[] };
+}
+
+export const readingPassages: ReadingPassage[] = [
+  {
+    ...paragraphBank[0],
+    highlight: { question: "What do trees do in dense neighbourhoods?", answer: "absorb pollutants and lower summer temperatures" },
+    mainIdea: { options: [
+      "Urban parks bring health and environmental benefits but are difficult to maintain.",
+      "Cities should sell park land to reduce their budgets.",
+      "Volunteers are better gardeners than council workers.",
+      "Trees are the main cause of high summer temperatures."
+    ] }
+  },
+  {
+    ...paragraphBank[1],
+    highlight: { question: "What happened to the cost of producing texts after movable type was introduced?", answer: "fell dramatically" },
+    mainIdea: { options: [
+      "The printing press made texts cheaper and changed how ideas spread.",
+      "Gutenberg was the first person to copy books by hand.",
+      "Literacy rates fell after the fifteenth century.",
+      "Historians disagree about when printing was invented."
+    ] }
+  },
+  {
+    ...paragraphBank[2],
+    highlight: { question: "What does the brain do during deep sleep?", answer: "replays new information" },
+    mainIdea: { options: [
+      "Sleep helps the brain consolidate what we learn.",
+      "Students should revise all night before an exam.",
+      "Neurons stop working during deep sleep.",
+      "Vocabulary is harder to learn than formulas."
+    ] }
+  },
+  {
+    ...paragraphBank[3],
+    highlight: { question: "Why must renewable energy be stored?", answer: "renewable sources depend on the weather" },
+    mainIdea: { options: [
+      "Renewables are now cheap, but storing their energy is the key challenge.",
+      "Coal plants are cheaper to build than solar farms.",
+      "Wind power is more reliable than solar power.",
+      "Batteries have already solved every energy problem."
+    ] }
+  },
+  {
+    ...paragraphBank[4],
+    highlight: { question: "What do employees save by working from home?", answer: "time on commuting" },
+    mainIdea: { options: [
+      "Remote work has clear benefits and drawbacks, which leads many firms to hybrid models.",
+      "Managers prefer employees to work from home every day.",
+      "Working from home always makes people feel isolated.",
+      "The pandemic forced all companies to close their offices."
+    ] }
+  },
+  {
+    ...paragraphBank[5],
+    highlight: { question: "What share of marine species do coral reefs support?", answer: "roughly a quarter of all marine species" },
+    mainIdea: { options: [
+      "Coral reefs are rich but fragile ecosystems threatened by warming seas.",
+      "Corals turn white because they are naturally unhealthy.",
+      "Coral reefs cover most of the ocean floor.",
+      "Reefs recover quickly from any number of heatwaves."
+    ] }
+  }
+];
+
+// Writing Sample prompts (DET: 30 s to prepare, 3-5 minutes to write)
+export const writingPrompts = [
+  { topic: "Technology", prompt: "Some people think that smartphones have made us less sociable. Do you agree or disagree? Give reasons and examples." },
+  { topic: "Education", prompt: "Describe a teacher who had an important influence on you. Explain what they did and why it mattered." },
+  { topic: "Environment", prompt: "What can individuals do to protect the environment in their daily lives? Is individual action enough?" },
+  { topic: "Work", prompt: "Would you prefer to work for a large company or start your own business? Explain your choice." },
+  { topic: "Travel", prompt: "Describe a place you have visited that surprised you. What did you expect, and what was different?" },
+  { topic: "Society", prompt: "Some cities are banning cars from their centres. What are the advantages and disadvantages of this policy?" }
+];
+
+// Offline photo bank for "Write / Speak About the Photo". The pictures themselves are drawn in
+// services/photoBank.ts; this metadata lets the grader check what a description should contain.
+export type PhotoCategory = 'city' | 'nature' | 'home' | 'work' | 'leisure';
+
+export interface BankPhoto {
+  id: string;
+  category: PhotoCategory;
+  scene: string;          // Scene type, also used as the photo's title
+  people: string[];       // Who is in the picture and what they are doing
+  objects: string[];      // Things a complete description could mention
+  descriptions: string[]; // Reference answers: a full four-stage one, then a short one
+}
+
+export const photoBank: BankPhoto[] = [
+  {
+    id: "street-market",
+    category: "city",
+    scene: "Outdoor street market",
+    people: ["a vendor in a green apron behind a fruit stall", "a woman with a shopping bag choosing fruit", "a man holding a child's hand"],
+    objects: ["striped awnings", "crates of fruit", "apples", "oranges", "shopping bag", "apartment buildings", "blue sky"],
+    descriptions: [
+      "This picture shows a lively street market on a sunny day. In the foreground, a vendor in a green apron is standing behind a stall full of apples and oranges, while a woman with a shopping bag is choosing some fruit. Next to her, a man is holding a child's hand. In the background, there are colourful apartment buildings under a clear blue sky. The image conveys a sense of a bustling neighbourhood, and I would assume it is a weekend morning.",
+      "A busy outdoor market where a vendor sells fruit to shoppers under striped awnings."
+    ]
+  },
+  {
+    id: "rush-hour",
+    category: "city",
+    scene: "Pedestrian crossing at rush hour",
+    people: ["commuters walking across a zebra crossing", "a man in a suit carrying a briefcase", "a woman looking at her phone"],
+    objects: ["zebra crossing", "red bus", "traffic light", "skyscrapers", "briefcase", "phone"],
+    descriptions: [
+      "This image appears to be a busy city centre at rush hour. In the foreground, several commuters are walking across a zebra crossing; a man in a suit is carrying a briefcase and a woman is looking at her phone. Behind them, a red bus is waiting at a traffic light, and in the background tall skyscrapers rise into the sky. It seems as though everyone is in a hurry to get to work.",
+      "Commuters cross a busy street in front of a red bus and tall skyscrapers."
+    ]
+  },
+  {
+    id: "mountain-lake",
+    category: "nature",
+    scene: "Mountain lake",
+    people: ["two people paddling a red canoe"],
+    objects: ["lake", "snow-capped mountains", "pine trees", "canoe", "clouds", "reflection"],
+    descriptions: [
+      "This picture shows a calm lake surrounded by mountains. In the foreground, two people are paddling a red canoe across the water, and dark pine trees line the shore. In the background, snow-capped mountains are reflected in the lake, and a few white clouds drift across the sky. The scene looks serene, and I would assume the people are on holiday, enjoying the peace and quiet.",
+      "Two people paddle a red canoe on a calm lake below snowy mountains and pine trees."
+    ]
+  },
+  {
+    id: "beach-sunset",
+    category: "nature",
+    scene: "Beach at sunset",
+    people: ["a parent and a child building a sandcastle", "a person walking a dog along the shore"],
+    objects: ["setting sun", "waves", "sandcastle", "beach umbrella", "palm tree", "dog", "seagulls"],
+    descriptions: [
+      "This image shows a beach at sunset. In the foreground, a parent and a child are building a sandcastle next to a striped beach umbrella. Further along the shore, someone is walking a dog, and a palm tree leans over the sand. In the background, the sun is setting over the sea and a few seagulls are flying above the waves. The photo conveys a warm, relaxed atmosphere, as if the family is enjoying the last hour of a holiday.",
+      "A family builds a sandcastle on the beach while the sun sets over the sea."
+    ]
+  },
+  {
+    id: "family-dinner",
+    category: "home",
+    scene: "Family dinner at home",
+    people: ["four family members sitting around a table", "a grandmother serving food", "a child raising a glass"],
+    objects: ["dining table", "plates", "bowl of salad", "glasses", "hanging lamp", "window", "picture frame"],
+    descriptions: [
+      "This picture appears to be a family dinner at home. In the foreground, four people are sitting around a dining table covered with plates, glasses and a large bowl of salad. An older woman, probably the grandmother, is serving food, while a child is raising a glass. In the background, a lamp hangs above the table and there is a framed picture next to a window. It seems as though they are celebrating something together.",
+      "A family shares a meal around a dining table under a hanging lamp."
+    ]
+  },
+  {
+    id: "late-study",
+    category: "home",
+    scene: "Student studying at night",
+    people: ["a young man working on a laptop at a desk"],
+    objects: ["laptop", "desk lamp", "stack of books", "mug", "bookshelf", "plant", "window", "moon"],
+    descriptions: [
+      "This image shows a student studying late at night. In the foreground, a young man is sitting at a desk and typing on a laptop, lit by a desk lamp. Next to him, there is a stack of books and a mug. In the background, a bookshelf stands against the wall, a plant sits in the corner, and through the window we can see the moon. I would assume he is preparing for an important exam, because he is still working so late.",
+      "A young man works on a laptop at his desk late at night, next to a pile of books."
+    ]
+  },
+  {
+    id: "construction-site",
+    category: "work",
+    scene: "Construction site",
+    people: ["workers in yellow helmets and orange vests", "a worker pointing at a plan"],
+    objects: ["crane", "scaffolding", "unfinished building", "bricks", "wheelbarrow", "helmets", "plan"],
+    descriptions: [
+      "This picture shows a busy construction site. In the foreground, two workers in yellow helmets and orange safety vests are looking at a plan, and one of them is pointing at it. Beside them, there is a wheelbarrow and a pile of bricks. In the background, a tall crane stands over an unfinished building covered in scaffolding. It seems as though they are discussing the next stage of the project.",
+      "Construction workers in helmets study a plan beneath a crane and scaffolding."
+    ]
+  },
+  {
+    id: "coffee-shop",
+    category: "work",
+    scene: "Barista in a coffee shop",
+    people: ["a barista making coffee behind the counter", "a customer waiting at the counter"],
+    objects: ["coffee machine", "counter", "menu board", "cups", "cakes", "pendant lights"],
+    descriptions: [
+      "This image appears to be a small coffee shop. In the foreground, a barista in a brown apron is making coffee with a large machine behind the counter, while a customer waits on the other side. There are cups and a few cakes on display. In the background, a menu board hangs on the wall under three pendant lights. The atmosphere seems warm and welcoming, and I would guess it is a quiet morning.",
+      "A barista prepares coffee behind the counter while a customer waits."
+    ]
+  },
+  {
+    id: "park-football",
+    category: "leisure",
+    scene: "Afternoon in the park",
+    people: ["children playing football on the grass", "a couple having a picnic on a blanket"],
+    objects: ["football", "goal", "trees", "picnic blanket", "basket", "bench", "dog"],
+    descriptions: [
+      "This picture shows a sunny afternoon in a park. In the foreground, a couple is having a picnic on a checked blanket with a basket, and a small dog is sitting next to them. In the middle of the picture, three children are playing football near a small goal. In the background, there are tall trees and an empty bench. The image conveys a sense of freedom and relaxation; I would assume it is the weekend.",
+      "Children play football in a park while a couple has a picnic nearby."
+    ]
+  },
+  {
+    id: "night-concert",
+    category: "leisure",
+    scene: "Outdoor concert at night",
+    people: ["a band playing on stage", "a singer holding a microphone", "a crowd raising their hands"],
+    objects: ["stage", "spotlights", "guitar", "drums", "microphone", "crowd"],
+    descriptions: [
+      "This image shows an outdoor concert at night. In the foreground, a crowd of fans is raising their hands towards the stage. On the stage, a singer is holding a microphone, a guitarist is playing, and a drummer sits behind a drum kit. In the background, bright spotlights shine through the dark sky. The atmosphere looks vibrant and exciting, and it seems as though the audience knows every song.",
+      "A crowd cheers at a night-time concert while a band plays under bright spotlights."
+    ]
+  }
+];
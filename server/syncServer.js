@@ -0,0 +1,224 @@
+// Self-hostable sync server for DET Master progress. No dependencies: run with `npm run sync-server`.
+//
+// Each profile holds collections of records ({ id, value, updatedAt, deleted }). Clients push
+// changes and pull everything newer than the last revision they saw; when two devices edit the
+// same record, the change with the later `updatedAt` wins.
+//
+// Every request must carry `Authorization: Bearer <SYNC_TOKEN>`; devices are given the same token.
+//
+// Environment: SYNC_TOKEN (required), SYNC_PORT (default 8787), SYNC_DATA_FILE (default
+// ./sync-data.json), SYNC_ALLOWED_ORIGIN (default http://localhost:3000, the dev server).
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.SYNC_PORT || 8787);
+const DATA_FILE = path.resolve(process.env.SYNC_DATA_FILE || 'sync-data.json');
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || 'http://localhost:3000';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const COLLECTIONS = ['cards', 'completed-days', 'my-words', 'attempts', 'decks', 'ratings', 'plan', 'pin'];
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+if (!TOKEN) {
+  console.error('Set SYNC_TOKEN to the shared secret your devices will use, e.g. SYNC_TOKEN=... npm run sync-server');
+  process.exit(1);
+}
+
+// --- Store ---
+
+// { rev, profiles: { [name]: { createdAt, collections: { [collection]: { [id]: record } } } } }
+// Profile names and record ids come from clients, so every map is prototype-free: a name such as
+// "constructor" or "__proto__" is then an ordinary key.
+const dictionary = (entries = {}) => Object.assign(Object.create(null), entries);
+
+const loadStore = () => {
+  try {
+    const saved = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    const profiles = dictionary();
+    Object.entries(saved.profiles).forEach(([name, profile]) => {
+      const collections = dictionary();
+      Object.entries(profile.collections).forEach(([c, records]) => { collections[c] = dictionary(records); });
+      profiles[name] = { createdAt: profile.createdAt, collections };
+    });
+    return { rev: saved.rev, profiles };
+  } catch (error) {
+    if (error.code !== 'ENOENT') console.error(`Could not read ${DATA_FILE}, starting empty:`, error.message);
+    return { rev: 0, profiles: dictionary() };
+  }
+};
+
+const store = loadStore();
+
+// Write to a temporary file first so a crash never leaves a half-written store
+const saveStore = () => {
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(store));
+  fs.renameSync(tmp, DATA_FILE);
+};
+
+const hasProfile = name => Object.hasOwn(store.profiles, name);
+
+const getProfile = (name, create = false) => {
+  if (!hasProfile(name)) {
+    if (!create) return undefined;
+    store.profiles[name] = { createdAt: Date.now(), collections: dictionary() };
+  }
+  const profile = store.profiles[name];
+  // Collections added in later versions start empty for existing profiles
+  COLLECTIONS.forEach(c => { if (!Object.hasOwn(profile.collections, c)) profile.collections[c] = dictionary(); });
+  return profile;
+};
+
+const profileRev = profile =>
+  Math.max(0, ...COLLECTIONS.flatMap(c => Object.values(profile.collections[c]).map(r => r.rev)));
+
+const isValidChange = change =>
+  change && typeof change.id === 'string' && change.id !== '' && typeof change.updatedAt === 'number' &&
+  (change.deleted === true || change.value !== undefined);
+
+// Last writer wins per record; the stored copy is kept on a tie so retries are harmless
+const applyChanges = (records, changes) => {
+  let applied = 0;
+  changes.forEach(change => {
+    const current = Object.hasOwn(records, change.id) ? records[change.id] : undefined;
+    if (current && current.updatedAt >= change.updatedAt) return;
+    store.rev++;
+    records[change.id] = {
+      id: change.id,
+      value: change.deleted ? null : change.value,
+      updatedAt: change.updatedAt,
+      deleted: !!change.deleted,
+      rev: store.rev
+    };
+    applied++;
+  });
+  return applied;
+};
+
+// --- HTTP ---
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (!chunks.length) return resolve({});
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Hashing both sides gives equal lengths, which timingSafeEqual needs
+const digest = text => crypto.createHash('sha256').update(text).digest();
+
+const isAuthorized = req => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  return !!match && crypto.timingSafeEqual(digest(match[1]), digest(TOKEN));
+};
+
+// GET    /api/health
+// GET    /api/profiles
+// PUT    /api/profiles/:name
+// DELETE /api/profiles/:name
+// GET    /api/profiles/:name/:collection?since=<rev>
+// POST   /api/profiles/:name/:collection   { changes: [{ id, value, updatedAt, deleted? }] }
+const route = async (req, url) => {
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts[0] !== 'api') throw new HttpError(404, 'Not found');
+  const [, resource, name, collection] = parts;
+
+  if (resource === 'health' && req.method === 'GET') return { ok: true, rev: store.rev };
+  if (resource !== 'profiles') throw new HttpError(404, 'Not found');
+
+  if (!name) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+    return Object.keys(store.profiles).map(profileName => {
+      const profile = getProfile(profileName);
+      return { name: profileName, createdAt: profile.createdAt, rev: profileRev(profile) };
+    });
+  }
+
+  if (!collection) {
+    if (req.method === 'PUT') {
+      getProfile(name, true);
+      saveStore();
+      return { name };
+    }
+    if (req.method === 'DELETE') {
+      if (!hasProfile(name)) throw new HttpError(404, `Unknown profile "${name}"`);
+      delete store.profiles[name];
+      saveStore();
+      return undefined;
+    }
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  if (!COLLECTIONS.includes(collection)) throw new HttpError(404, `Unknown collection "${collection}"`);
+
+  if (req.method === 'GET') {
+    const profile = getProfile(name);
+    const since = Number(url.searchParams.get('since') || 0);
+    const records = profile ? Object.values(profile.collections[collection]).filter(r => r.rev > since) : [];
+    return { rev: store.rev, records: records.map(({ rev, ...record }) => record) };
+  }
+
+  if (req.method === 'POST') {
+    const body = await readBody(req);
+    if (!Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+      throw new HttpError(400, 'Expected { changes: [{ id, value, updatedAt, deleted? }] }');
+    }
+    const applied = applyChanges(getProfile(name, true).collections[collection], body.changes);
+    if (applied) saveStore();
+    return { rev: store.rev, applied };
+  }
+
+  throw new HttpError(405, 'Method not allowed');
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  try {
+    if (!isAuthorized(req)) throw new HttpError(401, 'Missing or wrong sync token');
+    const result = await route(req, new URL(req.url, `http://${req.headers.host || 'localhost'}`));
+    send(res, result === undefined ? 204 : 200, result);
+  } catch (error) {
+    if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+    console.error(error);
+    send(res, 500, { error: 'Internal error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`DET Master sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,101 @@
+import { WordDef } from "../data";
+import { PseudoWordDifficulty } from "./pseudoWords";
+
+// Adaptive difficulty for Read and Select. Learner ability and item difficulty share one
+// logit scale (a Rasch / 1PL IRT model); after every answer both move Elo-style towards
+// what the outcome suggests, by a step that shrinks as evidence accumulates.
+
+export interface Rating {
+  value: number;    // Logits: 0 is a typical B2 item
+  attempts: number;
+}
+
+export interface AbilityRatings {
+  learner: Rating;
+  items: Record<string, Rating>; // Keyed by itemKey
+}
+
+export const emptyAbilityRatings = (): AbilityRatings => ({ learner: { value: 0, attempts: 0 }, items: {} });
+
+// A word shown in the game: a real word of some CEFR level, or a generated pseudo-word
+export type AdaptiveItem =
+  | { kind: 'word'; word: WordDef }
+  | { kind: 'pseudo'; difficulty: PseudoWordDifficulty };
+
+// Starting difficulties, before any answers have been seen
+const levelPriors: Record<string, number> = { A1: -2, A2: -1.5, B1: -1, B2: 0, 'B2/C1': 0.5, C1: 1, C2: 1.5 };
+const pseudoPriors: Record<PseudoWordDifficulty, number> = { easy: -1, medium: 0.2, hard: 1.2 };
+
+// Real words are rated one by one; pseudo-words are new every round, so they share a rating per difficulty
+export const itemKey = (item: AdaptiveItem) =>
+  item.kind === 'word' ? `word:${item.word.word.toLowerCase()}` : `pseudo:${item.difficulty}`;
+
+const prior = (item: AdaptiveItem) =>
+  item.kind === 'word' ? levelPriors[item.word.level.toUpperCase()] ?? 0 : pseudoPriors[item.difficulty];
+
+export const itemDifficulty = (ratings: AbilityRatings, item: AdaptiveItem) =>
+  ratings.items[itemKey(item)]?.value ?? prior(item);
+
+export const probabilityCorrect = (ability: number, difficulty: number) => 1 / (1 + Math.exp(difficulty - ability));
+
+const stepSize = (attempts: number, first: number, floor: number) => Math.max(floor, first / (1 + attempts / 10));
+
+export const updateRatings = (ratings: AbilityRatings, item: AdaptiveItem, correct: boolean): AbilityRatings => {
+  const key = itemKey(item);
+  const itemRating = ratings.items[key] || { value: prior(item), attempts: 0 };
+  const surprise = (correct ? 1 : 0) - probabilityCorrect(ratings.learner.value, itemRating.value);
+  return {
+    learner: {
+      value: ratings.learner.value + stepSize(ratings.learner.attempts, 0.8, 0.15) * surprise,
+      attempts: ratings.learner.attempts + 1
+    },
+    items: {
+      ...ratings.items,
+      [key]: { value: itemRating.value - stepSize(itemRating.attempts, 0.4, 0.05) * surprise, attempts: itemRating.attempts + 1 }
+    }
+  };
+};
+
+// Keeps whichever copy of each rating has seen more answers
+export const mergeAbilityRatings = (a: AbilityRatings, b: AbilityRatings): AbilityRatings => {
+  const items = { ...a.items };
+  Object.entries(b.items).forEach(([key, rating]) => {
+    if (!items[key] || rating.attempts > items[key].attempts) items[key] = rating;
+  });
+  return { learner: b.learner.attempts > a.learner.attempts ? b.learner : a.learner, items };
+};
+
+// --- Item selection ---
+
+// Aim at items the learner answers correctly about 60% of the time, with some jitter for variety
+const TARGET_OFFSET = -0.4;
+const JITTER = 0.6;
+
+const target = (ratings: AbilityRatings, random: () => number) =>
+  ratings.learner.value + TARGET_OFFSET + (random() - 0.5) * JITTER;
+
+export const pickRealWord = (ratings: AbilityRatings, words: WordDef[], used: Set<string>, random: () => number = Math.random): WordDef => {
+  const goal = target(ratings, random);
+  const candidates = words.filter(w => !used.has(w.word.toLowerCase()));
+  const pool = candidates.length ? candidates : words;
+  const distance = (w: WordDef) => Math.abs(itemDifficulty(ratings, { kind: 'word', word: w }) - goal);
+  const best = Math.min(...pool.map(distance));
+  // Several words usually share a level: choose among all of them at random
+  const closest = pool.filter(w => distance(w) - best < 0.1);
+  return closest[Math.floor(random() * closest.length)];
+};
+
+export const pickPseudoDifficulty = (ratings: AbilityRatings, random: () => number = Math.random): PseudoWordDifficulty => {
+  const goal = target(ratings, random);
+  const levels = Object.keys(pseudoPriors) as PseudoWordDifficulty[];
+  return levels.reduce((best, level) =>
+    Math.abs(itemDifficulty(ratings, { kind: 'pseudo', difficulty: level }) - goal) <
+    Math.abs(itemDifficulty(ratings, { kind: 'pseudo', difficulty: best }) - goal) ? level : best
+  );
+};
+
+// --- Reporting ---
+
+const abilityBands: [number, string][] = [[-1.25, 'A2'], [-0.5, 'B1'], [0.5, 'B2'], [1.25, 'C1']];
+
+export const abilityLevel = (value: number) => abilityBands.find(([upper]) => value < upper)?.[1] || 'C2';
@@ -0,0 +1,31 @@
+import type { AiTask } from "./aiProvider";
+
+// 'network': the provider could not be reached.
+// 'invalid-response': the provider kept answering with data that failed validation.
+// 'unexpected': anything else that went wrong while handling the request.
+export type AiErrorKind = 'network' | 'invalid-response' | 'unexpected';
+
+export class AiServiceError extends Error {
+  readonly kind: AiErrorKind;
+  readonly task: AiTask;
+  readonly issues: string[];
+  readonly attempts: number;
+
+  constructor(kind: AiErrorKind, task: AiTask, message: string, issues: string[] = [], attempts = 1) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.kind = kind;
+    this.task = task;
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+export const isAiServiceError = (error: unknown): error is AiServiceError => error instanceof AiServiceError;
+
+// Wraps any other error so the screen that asked for the task can still show a notice
+export const asAiError = (error: unknown, task: AiTask): AiServiceError => {
+  if (isAiServiceError(error)) return error;
+  console.error("Unexpected AI task error", error);
+  return new AiServiceError('unexpected', task, "Something went wrong with the AI tutor.", [error instanceof Error ? error.message : String(error)]);
+};
@@ -0,0 +1,50 @@
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import type { BankPhoto } from "../data";
+
+export interface InlineImage {
+  mimeType: string;
+  data: string; // base64
+}
+
+// Each request carries the prompt for model-backed providers and the raw
+// inputs for local providers, which build their answer without the prompt.
+export type AiRequest =
+  | { task: 'photoEvaluation'; prompt: string; input: { userText: string; photo: BankPhoto; image: InlineImage | null } }
+  | { task: 'fillInBlank'; prompt: string; input: { word: string } }
+  | { task: 'paragraph'; prompt: string; input: Record<string, never> }
+  | { task: 'readingPassage'; prompt: string; input: Record<string, never> }
+  | { task: 'wordDetails'; prompt: string; input: { word: string } }
+  | { task: 'writingSample'; prompt: string; input: { question: string; userText: string } }
+  | { task: 'rewrite'; prompt: string; input: { text: string } };
+
+export type AiTask = AiRequest['task'];
+
+export type AiProviderId = 'gemini' | 'mock';
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  multimodal: boolean; // Can look at images; otherwise photo tasks are graded from their metadata
+  // Resolves with the parsed (not yet validated) JSON for the task
+  generateJson: (request: AiRequest) => Promise<unknown>;
+}
+
+const STORAGE_KEY_PROVIDER = 'det_ai_provider';
+
+export const aiProviders: AiProvider[] = [geminiProvider, mockProvider];
+
+// Without an API key the Gemini provider can only fail, so default to offline content
+const defaultProviderId = (): AiProviderId => (process.env.API_KEY ? 'gemini' : 'mock');
+
+export const getAiProviderId = (): AiProviderId => {
+  const saved = localStorage.getItem(STORAGE_KEY_PROVIDER);
+  return saved === 'gemini' || saved === 'mock' ? saved : defaultProviderId();
+};
+
+export const setAiProviderId = (id: AiProviderId) => {
+  localStorage.setItem(STORAGE_KEY_PROVIDER, id);
+};
+
+export const getAiProvider = (): AiProvider =>
+  aiProviders.find(p => p.id === getAiProviderId()) || mockProvider;
@@ -0,0 +1,206 @@
+import type { WordDef } from "../data";
+import { findSpan } from "./interactiveReading";
+
+// Result types returned by the AI layer, with runtime validators.
+// A validator returns the list of problems found; an empty list means the data is usable.
+
+export interface PhotoEvaluation {
+  score: number; // 0-100
+  contentScore: number; // 0-100: how accurately the text describes what is in the photo
+  feedback: string;
+  corrections: string[];
+  betterVersion: string;
+}
+
+export interface FillInBlankTask {
+  sentence: string;
+  missingWord: string;
+}
+
+export interface ParagraphTask {
+  topic: string;
+  text: string;
+}
+
+// A passage for Interactive Reading, with the two questions that cannot be derived from the text
+export interface ReadingPassageTask extends ParagraphTask {
+  highlight: { question: string; answer: string }; // `answer` is copied word for word from `text`
+  mainIdea: { options: string[] };                  // The first option is the correct one
+}
+
+export interface WordDetails {
+  translation: string;
+  example: string;
+}
+
+export const rubricCriteria = ['taskCompletion', 'coherence', 'transitions', 'lexicalRange', 'spelling'] as const;
+
+export type RubricCriterion = typeof rubricCriteria[number];
+
+export interface RubricScore {
+  score: number; // 0-5
+  comment: string;
+}
+
+export interface WritingEvaluation {
+  criteria: Record<RubricCriterion, RubricScore>;
+  summary: string;
+  corrections: string[];
+}
+
+export const rewriteStyles = ['formal', 'advanced', 'concise', 'transition'] as const;
+
+export type RewriteStyle = typeof rewriteStyles[number];
+
+export interface Rewrite {
+  style: RewriteStyle;
+  text: string;
+  newWords: WordDef[]; // Vocabulary the rewrite introduces, worth saving as flashcards
+}
+
+export interface RewriteSet {
+  rewrites: Rewrite[];
+}
+
+export type Validator = (data: unknown) => string[];
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+const requireString = (data: Record<string, unknown>, key: string, issues: string[]) => {
+  if (typeof data[key] !== 'string' || !(data[key] as string).trim()) {
+    issues.push(`"${key}" must be a non-empty string`);
+    return false;
+  }
+  return true;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const validatePhotoEvaluation: Validator = (data) => {
+  if (!isObject(data)) return ['response must be a JSON object'];
+  const issues: string[] = [];
+  if (typeof data.score !== 'number' || !Number.isFinite(data.score) || data.score < 0 || data.score > 100) {
+    issues.push('"score" must be a number between 0 and 100');
+  }
+  if (typeof data.contentScore !== 'number' || !Number.isFinite(data.contentScore) || data.contentScore < 0 || data.contentScore > 100) {
+    issues.push('"contentScore" must be a number between 0 and 100');
+  }
+  requireString(data, 'feedback', issues);
+  if (!Array.isArray(data.corrections) || data.corrections.some(c => typeof c !== 'string')) {
+    issues.push('"corrections" must be an array of strings');
+  }
+  if (typeof data.betterVersion !== 'string') issues.push('"betterVersion" must be a string');
+  return issues;
+};
+
+export const fillInBlankValidator = (expectedWord: string): Validator => (data) => {
+  if (!isObject(data)) return ['response must be a JSON object'];
+  const issues: string[] = [];
+  const hasSentence = requireString(data, 'sentence', issues);
+  const hasWord = requireString(data, 'missingWord', issues);
+  if (hasWord && (data.missingWord as string).toLowerCase() !== expectedWord.toLowerCase()) {
+    issues.push(`"missingWord" must be "${expectedWord}"`);
+  }
+  if (hasSentence && hasWord && !new RegExp(`\\b${escapeRegExp(data.missingWord as string)}\\b`, 'i').test(data.sentence as string)) {
+    issues.push(`"sentence" must contain the exact word "${data.missingWord}"`);
+  }
+  return issues;
+};
+
+export const validateParagraphTask: Validator = (data) => {
+  if (!isObject(data)) return ['response must be a JSON object'];
+  const issues: string[] = [];
+  requireString(data, 'topic', issues);
+  if (requireString(data, 'text', issues)) {
+    const words = countWords(data.text as string);
+    if (words < 60 || words > 80) issues.push(`"text" must be 60-80 words long (it was ${words})`);
+  }
+  return issues;
+};
+
+const MAIN_IDEA_OPTIONS = 4;
+
+export const validateReadingPassage: Validator = (data) => {
+  const issues = validateParagraphTask(data);
+  if (!isObject(data)) return issues;
+  if (!isObject(data.highlight)) {
+    issues.push('"highlight" must be an object with "question" and "answer"');
+  } else {
+    requireString(data.highlight, 'question', issues);
+    if (requireString(data.highlight, 'answer', issues) && typeof data.text === 'string') {
+      const answer = data.highlight.answer as string;
+      if (countWords(answer) > 12) issues.push('"highlight.answer" must be at most 12 words long');
+      else if (!findSpan(data.text.split(/\s+/).filter(Boolean), answer)) issues.push('"highlight.answer" must be copied word for word from "text"');
+    }
+  }
+  const options = isObject(data.mainIdea) ? data.mainIdea.options : undefined;
+  if (!Array.isArray(options) || options.length !== MAIN_IDEA_OPTIONS || options.some(o => typeof o !== 'string' || !o.trim())) {
+    issues.push(`"mainIdea.options" must be an array of ${MAIN_IDEA_OPTIONS} non-empty strings`);
+  } else if (new Set(options.map(o => o.trim().toLowerCase())).size !== options.length) {
+    issues.push('"mainIdea.options" must all be different');
+  }
+  return issues;
+};
+
+export const validateWordDetails: Validator = (data) => {
+  if (!isObject(data)) return ['response must be a JSON object'];
+  const issues: string[] = [];
+  requireString(data, 'translation', issues);
+  requireString(data, 'example', issues);
+  return issues;
+};
+
+export const validateWritingEvaluation: Validator = (data) => {
+  if (!isObject(data)) return ['response must be a JSON object'];
+  const issues: string[] = [];
+  if (!isObject(data.criteria)) {
+    issues.push('"criteria" must be an object');
+  } else {
+    const criteria = data.criteria;
+    rubricCriteria.forEach(key => {
+      const entry = criteria[key];
+      if (!isObject(entry)) {
+        issues.push(`"criteria.${key}" must be an object with "score" and "comment"`);
+        return;
+      }
+      if (typeof entry.score !== 'number' || !Number.isInteger(entry.score) || entry.score < 0 || entry.score > 5) {
+        issues.push(`"criteria.${key}.score" must be an integer between 0 and 5`);
+      }
+      if (typeof entry.comment !== 'string') issues.push(`"criteria.${key}.comment" must be a string`);
+    });
+  }
+  requireString(data, 'summary', issues);
+  if (!Array.isArray(data.corrections) || data.corrections.some(c => typeof c !== 'string')) {
+    issues.push('"corrections" must be an array of strings');
+  }
+  return issues;
+};
+
+const isWordDef = (data: unknown) =>
+  isObject(data) && typeof data.word === 'string' && typeof data.type === 'string' && typeof data.level === 'string';
+
+// The "transition" rewrite must actually use one of the given connectors
+export const rewriteValidator = (transitions: string[]): Validator => (data) => {
+  if (!isObject(data)) return ['response must be a JSON object'];
+  const rewrites = data.rewrites;
+  if (!Array.isArray(rewrites)) return ['"rewrites" must be an array'];
+  const issues: string[] = [];
+  rewriteStyles.forEach(style => {
+    const rewrite = rewrites.find((r: unknown) => isObject(r) && r.style === style);
+    if (!rewrite) {
+      issues.push(`"rewrites" must contain one entry with "style": "${style}"`);
+      return;
+    }
+    if (!requireString(rewrite, 'text', issues)) return;
+    if (!Array.isArray(rewrite.newWords) || !rewrite.newWords.every(isWordDef)) {
+      issues.push(`"newWords" of the ${style} rewrite must be an array of { word, type, level } objects`);
+    }
+    if (style === 'transition' && !transitions.some(t => new RegExp(`\\b${escapeRegExp(t)}\\b`, 'i').test(rewrite.text))) {
+      issues.push(`the transition rewrite must use one of: ${transitions.join(", ")}`);
+    }
+  });
+  return issues;
+};
@@ -0,0 +1,130 @@
+import { WordDef, realWords, transitionWordsList, photoWords } from "../data";
+import { AttemptRecord, HistoryActivity, queryAttempts, daysAgo } from "./attemptHistory";
+import { toDayKey } from "./srsService";
+
+// Aggregations of the attempt history for the analytics view.
+
+export const activityLabels: Record<HistoryActivity, string> = {
+  realword: 'Real Words',
+  photo: 'Describe Photo',
+  spelling: 'Complete Sentence',
+  completetext: 'Complete Text',
+  readaloud: 'Read Aloud',
+  listentype: 'Listen & Type',
+  speakphoto: 'Speak About Photo',
+  interactivereading: 'Interactive Reading',
+  writingsample: 'Writing Sample',
+  flashcards: 'Flashcards'
+};
+
+export const TREND_DAYS = 14;
+
+export interface DailyPoint {
+  day: string;                 // YYYY-MM-DD
+  count: number;
+  accuracy: number | null;     // 0-100; uses the AI score when answers are not right/wrong
+  averageTimeMs: number | null;
+}
+
+const percentCorrect = (records: AttemptRecord[]) => {
+  const graded = records.filter(r => r.correct !== null);
+  if (graded.length) return Math.round((graded.filter(r => r.correct).length / graded.length) * 100);
+  const scored = records.filter(r => r.aiScore !== undefined);
+  return scored.length ? Math.round(scored.reduce((sum, r) => sum + r.aiScore!, 0) / scored.length) : null;
+};
+
+// One point per day for the last `days` days, oldest first (days without practice included)
+export const dailyTrend = (records: AttemptRecord[], activity: HistoryActivity, days = TREND_DAYS, now = new Date()): DailyPoint[] => {
+  const recent = queryAttempts(records, { activity, from: daysAgo(days - 1, now) });
+  return Array.from({ length: days }, (_, i) => {
+    const day = toDayKey(daysAgo(days - 1 - i, now));
+    const dayRecords = recent.filter(r => toDayKey(new Date(r.timestamp)) === day);
+    return {
+      day,
+      count: dayRecords.length,
+      accuracy: percentCorrect(dayRecords),
+      averageTimeMs: dayRecords.length ? Math.round(dayRecords.reduce((sum, r) => sum + r.timeSpentMs, 0) / dayRecords.length) : null
+    };
+  });
+};
+
+// Activities with at least one attempt, most practised first
+export const practisedActivities = (records: AttemptRecord[]): HistoryActivity[] => {
+  const counts = new Map<HistoryActivity, number>();
+  records.forEach(r => counts.set(r.activity, (counts.get(r.activity) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([activity]) => activity);
+};
+
+// --- Word-level analysis ---
+
+const wordIndex = new Map<string, WordDef>();
+[...realWords, ...transitionWordsList, ...photoWords].forEach(w => wordIndex.set(w.word.toLowerCase(), w));
+
+export const findWordDef = (item: string, extraWords: WordDef[] = []) =>
+  wordIndex.get(item.toLowerCase()) || extraWords.find(w => w.word.toLowerCase() === item.toLowerCase());
+
+// Attempts whose item is a single known word and that were marked right or wrong
+const wordAttempts = (records: AttemptRecord[], extraWords: WordDef[]) =>
+  records
+    .filter(r => r.correct !== null)
+    .map(r => ({ record: r, def: findWordDef(r.item, extraWords) }))
+    .filter((a): a is { record: AttemptRecord; def: WordDef } => !!a.def);
+
+export interface BreakdownRow {
+  key: string;
+  count: number;
+  accuracy: number; // 0-100
+}
+
+// Accuracy grouped by CEFR level or word type of the word being tested
+export const breakdownBy = (records: AttemptRecord[], field: 'level' | 'type', extraWords: WordDef[] = []): BreakdownRow[] => {
+  const groups = new Map<string, { count: number; correct: number }>();
+  wordAttempts(records, extraWords).forEach(({ record, def }) => {
+    const key = def[field] || '?';
+    const group = groups.get(key) || { count: 0, correct: 0 };
+    group.count++;
+    if (record.correct) group.correct++;
+    groups.set(key, group);
+  });
+  return [...groups.entries()]
+    .map(([key, g]) => ({ key, count: g.count, accuracy: Math.round((g.correct / g.count) * 100) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+export interface WeakWord {
+  word: string;
+  attempts: number;
+  accuracy: number; // 0-100
+  lastSeen: number;
+}
+
+// Words answered wrongly most often; a word needs `minAttempts` answers to be ranked
+export const weakestWords = (records: AttemptRecord[], limit = 10, minAttempts = 2, extraWords: WordDef[] = []): WeakWord[] => {
+  const words = new Map<string, WeakWord & { correct: number }>();
+  wordAttempts(records, extraWords).forEach(({ record, def }) => {
+    const entry = words.get(def.word) || { word: def.word, attempts: 0, correct: 0, accuracy: 0, lastSeen: 0 };
+    entry.attempts++;
+    if (record.correct) entry.correct++;
+    entry.lastSeen = Math.max(entry.lastSeen, record.timestamp);
+    words.set(def.word, entry);
+  });
+  return [...words.values()]
+    .filter(w => w.attempts >= minAttempts && w.correct < w.attempts)
+    .map(({ correct, ...w }) => ({ ...w, accuracy: Math.round((correct / w.attempts) * 100) }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts)
+    .slice(0, limit);
+};
+
+// --- Photo description scores ---
+
+export interface ScorePoint {
+  timestamp: number;
+  score: number;
+  activity: HistoryActivity;
+}
+
+export const photoScores = (records: AttemptRecord[]): ScorePoint[] =>
+  queryAttempts(records, { activity: ['photo', 'speakphoto'] })
+    .filter(r => r.aiScore !== undefined)
+    .map(r => ({ timestamp: r.timestamp, score: r.aiScore!, activity: r.activity }))
+    .sort((a, b) => a.timestamp - b.timestamp);
@@ -0,0 +1,102 @@
+import { ActivityId } from "../types";
+import { toDayKey } from "./srsService";
+
+// One log of every answer given in any game, persisted per user.
+// Features read it through the query helpers below rather than keeping their own copies.
+
+export type HistoryActivity = ActivityId | 'flashcards';
+
+export interface AttemptRecord {
+  id: string;
+  activity: HistoryActivity;
+  item: string;            // What was asked: a word, a sentence, a prompt...
+  answer: string;          // What the learner gave ('' when time ran out)
+  correct: boolean | null; // null for open answers that only get a score
+  timeSpentMs: number;     // On the item, or on the whole task when items are answered together
+  aiScore?: number;        // 0-100, for graded answers
+  timestamp: number;       // ms since epoch
+}
+
+export type NewAttempt = Omit<AttemptRecord, 'id' | 'timestamp'>;
+
+// Oldest records are dropped beyond this, to stay well inside the localStorage quota
+const MAX_RECORDS = 5000;
+
+export const appendAttempt = (records: AttemptRecord[], attempt: NewAttempt, now = Date.now()): AttemptRecord[] => {
+  const record: AttemptRecord = {
+    ...attempt,
+    timeSpentMs: Math.max(0, Math.round(attempt.timeSpentMs)),
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now
+  };
+  return [...records, record].slice(-MAX_RECORDS);
+};
+
+// Union of two logs (e.g. from two devices), deduplicated by id and in chronological order
+export const mergeAttempts = (records: AttemptRecord[], incoming: AttemptRecord[]): AttemptRecord[] => {
+  const byId = new Map<string, AttemptRecord>();
+  [...records, ...incoming].forEach(r => byId.set(r.id, r));
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp).slice(-MAX_RECORDS);
+};
+
+// --- Queries ---
+
+export interface AttemptQuery {
+  activity?: HistoryActivity | HistoryActivity[];
+  from?: Date | number; // Inclusive
+  to?: Date | number;   // Exclusive
+  word?: string;        // Whole-word match on the item, case-insensitive
+}
+
+const toTime = (date: Date | number) => (typeof date === 'number' ? date : date.getTime());
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const queryAttempts = (records: AttemptRecord[], query: AttemptQuery = {}): AttemptRecord[] => {
+  const activities = query.activity === undefined ? null : Array.isArray(query.activity) ? query.activity : [query.activity];
+  const wordPattern = query.word ? new RegExp(`(^|[^a-z])${escapeRegExp(query.word.toLowerCase())}([^a-z]|$)`) : null;
+  return records.filter(r =>
+    (!activities || activities.includes(r.activity)) &&
+    (query.from === undefined || r.timestamp >= toTime(query.from)) &&
+    (query.to === undefined || r.timestamp < toTime(query.to)) &&
+    (!wordPattern || wordPattern.test(r.item.toLowerCase()))
+  );
+};
+
+// Start of the day `days` days before today, for "last N days" queries
+export const daysAgo = (days: number, now = new Date()) => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - days);
+  return start;
+};
+
+export interface AttemptSummary {
+  count: number;
+  correct: number;
+  accuracy: number | null;     // 0-100 over attempts with a right/wrong answer
+  averageScore: number | null; // 0-100 over attempts with an AI score
+  totalTimeMs: number;
+}
+
+export const summarizeAttempts = (records: AttemptRecord[]): AttemptSummary => {
+  const graded = records.filter(r => r.correct !== null);
+  const scored = records.filter(r => r.aiScore !== undefined);
+  const correct = graded.filter(r => r.correct).length;
+  return {
+    count: records.length,
+    correct,
+    accuracy: graded.length ? Math.round((correct / graded.length) * 100) : null,
+    averageScore: scored.length ? Math.round(scored.reduce((sum, r) => sum + r.aiScore!, 0) / scored.length) : null,
+    totalTimeMs: records.reduce((sum, r) => sum + r.timeSpentMs, 0)
+  };
+};
+
+// Records grouped by local day (YYYY-MM-DD), in chronological order
+export const groupByDay = (records: AttemptRecord[]): Record<string, AttemptRecord[]> => {
+  const days: Record<string, AttemptRecord[]> = {};
+  [...records].sort((a, b) => a.timestamp - b.timestamp).forEach(r => {
+    const key = toDayKey(new Date(r.timestamp));
+    (days[key] = days[key] || []).push(r);
+  });
+  return days;
+};
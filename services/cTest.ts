@@ -0,0 +1,139 @@
+import { paragraphBank } from "../data";
+import { ParagraphTask } from "./aiSchemas";
+import { createRandom } from "./random";
+import { editDistance } from "./textDiff";
+
+// C-test generator for "Read and Complete". The classic rule: the first and last sentences stay
+// intact; in between, the second half of every second word is removed (the bigger half when the
+// length is odd). One-letter words are skipped and not counted. Everything depends only on the
+// text, the seed and the difficulty, so the same three always give the same blanks.
+
+export type CTestDifficulty = 'easy' | 'standard' | 'hard';
+
+export const cTestDifficultyLabels: Record<CTestDifficulty, { label: string; description: string }> = {
+  easy: { label: 'Easy', description: 'Every third word, half of it shown' },
+  standard: { label: 'Standard', description: 'Every second word, as in the test' },
+  hard: { label: 'Hard', description: 'Every second word, only the first third shown' }
+};
+
+interface DifficultySpec {
+  interval: number;                    // Damage one eligible word in `interval`
+  shown: (length: number) => number;   // Letters left visible
+}
+
+const difficultySpecs: Record<CTestDifficulty, DifficultySpec> = {
+  easy: { interval: 3, shown: length => Math.ceil(length / 2) },
+  standard: { interval: 2, shown: length => Math.floor(length / 2) },
+  hard: { interval: 2, shown: length => Math.max(1, Math.floor(length / 3)) }
+};
+
+export type CTestToken =
+  | { kind: 'text'; text: string }
+  | { kind: 'blank'; id: number; word: string; prefix: string; answer: string; suffix: string };
+
+export interface CTest {
+  text: string;
+  seed: number;
+  difficulty: CTestDifficulty;
+  tokens: CTestToken[];
+  blankCount: number;
+}
+
+// Words with inner apostrophes ("don't", "council's") are single words
+const WORD_PATTERN = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+
+const ABBREVIATIONS = ['e.g', 'i.e', 'etc', 'mr', 'mrs', 'ms', 'dr', 'prof', 'vs', 'st', 'no'];
+
+// [start, end) offsets of each sentence
+export const splitSentences = (text: string): [number, number][] => {
+  const sentences: [number, number][] = [];
+  const endPattern = /[.!?]+["'”’)\]]*(?=\s+["'“‘(\[]?[A-Z0-9]|\s*$)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = endPattern.exec(text))) {
+    const before = text.slice(start, match.index).split(/\s+/).pop()?.toLowerCase() || '';
+    if (match[0] === '.' && ABBREVIATIONS.includes(before)) continue;
+    const end = match.index + match[0].length;
+    if (text.slice(start, end).trim()) sentences.push([start, end]);
+    start = end;
+  }
+  if (text.slice(start).trim()) sentences.push([start, text.length]);
+  return sentences;
+};
+
+export const buildCTest = (text: string, seed: number, difficulty: CTestDifficulty = 'standard'): CTest => {
+  const spec = difficultySpecs[difficulty];
+  const random = createRandom(seed);
+  const sentences = splitSentences(text);
+  // Short texts keep at least the first sentence (or the first word) intact
+  const from = sentences.length >= 2 ? sentences[0][1] : (text.match(/\S+/)?.[0].length || 0) + (text.match(/^\s*/)?.[0].length || 0);
+  const to = sentences.length >= 3 ? sentences[sentences.length - 1][0] : text.length;
+  // The test starts with the first or second word of the second sentence; the seed decides
+  const phase = Math.floor(random() * spec.interval);
+
+  const tokens: CTestToken[] = [];
+  let cursor = 0;
+  let counted = 0;
+  let id = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index!;
+    const word = match[0];
+    const apostrophe = word.search(/['’]/);
+    const stem = apostrophe === -1 ? word : word.slice(0, apostrophe);
+    if (start < from || start >= to || stem.length < 2) continue;
+    if (counted++ % spec.interval !== phase) continue;
+
+    if (start > cursor) tokens.push({ kind: 'text', text: text.slice(cursor, start) });
+    const shown = spec.shown(stem.length);
+    tokens.push({ kind: 'blank', id: id++, word, prefix: stem.slice(0, shown), answer: stem.slice(shown), suffix: word.slice(stem.length) });
+    cursor = start + word.length;
+  }
+  if (cursor < text.length) tokens.push({ kind: 'text', text: text.slice(cursor) });
+
+  return { text, seed, difficulty, tokens, blankCount: id };
+};
+
+// A bank paragraph chosen by the seed, for tasks that must be rebuilt exactly without the AI
+export const seededParagraph = (seed: number): ParagraphTask => {
+  const random = createRandom(seed ^ 0x5bd1e995);
+  return { ...paragraphBank[Math.floor(random() * paragraphBank.length)] };
+};
+
+// --- Scoring ---
+
+export interface BlankScore {
+  id: number;
+  word: string;
+  given: string;  // The word as the learner completed it
+  credit: number; // 0-1: a near miss earns part of the point
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/’/g, "'");
+
+// Learners sometimes retype the visible letters; they are not counted twice
+const typedPart = (blank: Extract<CTestToken, { kind: 'blank' }>, typed: string) => {
+  const value = normalize(typed);
+  const prefix = blank.prefix.toLowerCase();
+  return value.startsWith(prefix) && !blank.answer.toLowerCase().startsWith(prefix) ? value.slice(prefix.length) : value;
+};
+
+export const scoreBlank = (blank: Extract<CTestToken, { kind: 'blank' }>, typed: string): number => {
+  const expected = blank.answer.toLowerCase();
+  const given = typedPart(blank, typed);
+  if (given === expected) return 1;
+  if (!given) return 0;
+  const credit = 1 - editDistance(expected, given) / Math.max(expected.length, given.length);
+  return Math.max(0, Math.round(credit * 100) / 100);
+};
+
+// Answers keyed by blank id. The score is the mean credit, 0-100.
+export const scoreCTest = (test: CTest, answers: Record<number, string>): { blanks: BlankScore[]; score: number } => {
+  const blanks = test.tokens.flatMap(token => token.kind === 'blank' ? [{
+    id: token.id,
+    word: token.word,
+    given: token.prefix + typedPart(token, answers[token.id] || '') + token.suffix,
+    credit: scoreBlank(token, answers[token.id] || '')
+  }] : []);
+  const total = blanks.reduce((sum, b) => sum + b.credit, 0);
+  return { blanks, score: blanks.length ? Math.round((total / blanks.length) * 100) : 0 };
+};
@@ -0,0 +1,109 @@
+import { ActivityId } from "../types";
+import { PhotoCategory } from "../data";
+import { activityLabels } from "./analytics";
+import { PseudoWordDifficulty, pseudoWordDifficultyLabels } from "./pseudoWords";
+import { CTestDifficulty, cTestDifficultyLabels } from "./cTest";
+import { photoCategoryLabels } from "./photoBank";
+import { MAX_SEED, randomSeed } from "./random";
+
+// Challenge codes such as "RS-HS-2F7KQ": an activity, its settings and the seed of the round,
+// with a check letter to catch typos. Opening the code rebuilds exactly the same items, so a
+// study group can compete on one set or a tutor can assign it. Rounds built from AI content
+// cannot be rebuilt, so challenges always use the app's own word, sentence and passage banks.
+
+export interface ChallengeSettings {
+  pseudoWords?: PseudoWordDifficulty; // Read and Select. Adaptive rounds follow the learner, so they are not shareable.
+  speedMode?: boolean;                // Read and Select
+  cTest?: CTestDifficulty;            // Read and Complete
+  photoCategory?: PhotoCategory;      // Write / Speak About the Photo. Unset means any category.
+}
+
+export interface Challenge {
+  activity: ActivityId;
+  seed: number;
+  settings: ChallengeSettings;
+}
+
+const activityCodes: Record<ActivityId, string> = {
+  realword: 'RS',
+  photo: 'WP',
+  speakphoto: 'SP',
+  spelling: 'FB',
+  completetext: 'RC',
+  readaloud: 'RA',
+  listentype: 'LT',
+  interactivereading: 'IR',
+  writingsample: 'WS'
+};
+
+export const challengeActivities = Object.keys(activityCodes) as ActivityId[];
+
+const difficultyLetters: Record<PseudoWordDifficulty | CTestDifficulty, string> = { easy: 'E', medium: 'M', standard: 'S', hard: 'H' };
+const SPEED_LETTER = 'S';
+const categoryLetters: Record<PhotoCategory, string> = { city: 'C', nature: 'N', home: 'H', work: 'W', leisure: 'L' };
+const isPhotoActivity = (activity: ActivityId) => activity === 'photo' || activity === 'speakphoto';
+const SEED_DIGITS = 4; // MAX_SEED in base 36 fits in four digits
+
+const letterOf = (difficulty: PseudoWordDifficulty | CTestDifficulty) => difficultyLetters[difficulty];
+const difficultyOf = <T extends PseudoWordDifficulty | CTestDifficulty>(letter: string, levels: T[]) => levels.find(level => difficultyLetters[level] === letter);
+
+// Fills in the defaults, and drops settings that do not apply to the activity
+export const createChallenge = (activity: ActivityId, settings: ChallengeSettings = {}, seed: number = randomSeed()): Challenge => {
+  if (activity === 'realword') return { activity, seed, settings: { pseudoWords: settings.pseudoWords || 'medium', speedMode: !!settings.speedMode } };
+  if (activity === 'completetext') return { activity, seed, settings: { cTest: settings.cTest || 'standard' } };
+  if (isPhotoActivity(activity) && settings.photoCategory) return { activity, seed, settings: { photoCategory: settings.photoCategory } };
+  return { activity, seed, settings: {} };
+};
+
+const settingsCode = ({ activity, settings }: Challenge) => {
+  if (activity === 'realword') return letterOf(settings.pseudoWords || 'medium') + (settings.speedMode ? SPEED_LETTER : '');
+  if (activity === 'completetext') return letterOf(settings.cTest || 'standard');
+  if (isPhotoActivity(activity) && settings.photoCategory) return categoryLetters[settings.photoCategory];
+  return '';
+};
+
+const checkLetter = (text: string) =>
+  (text.split('').reduce((sum, char, i) => sum + (i + 1) * parseInt(char, 36), 0) % 36).toString(36).toUpperCase();
+
+export const encodeChallenge = (challenge: Challenge): string => {
+  const seed = challenge.seed.toString(36).toUpperCase().padStart(SEED_DIGITS, '0');
+  const parts = [activityCodes[challenge.activity], settingsCode(challenge), seed].filter(Boolean);
+  return `${parts.join('-')}${checkLetter(parts.join(''))}`;
+};
+
+// null when the code is mistyped or not a challenge code
+export const decodeChallenge = (code: string): Challenge | null => {
+  const match = code.toUpperCase().replace(/\s+/g, '').match(/^([A-Z]{2})(?:-([A-Z]{1,2}))?-([0-9A-Z]{5})$/);
+  if (!match) return null;
+  const [, prefix, settings = '', body] = match;
+  const seedText = body.slice(0, SEED_DIGITS);
+  if (checkLetter(prefix + settings + seedText) !== body[SEED_DIGITS]) return null;
+
+  const activity = challengeActivities.find(a => activityCodes[a] === prefix);
+  const seed = parseInt(seedText, 36);
+  if (!activity || seed >= MAX_SEED) return null;
+
+  if (activity === 'realword') {
+    const pseudoWords = difficultyOf(settings[0] || '', Object.keys(pseudoWordDifficultyLabels) as PseudoWordDifficulty[]);
+    const speed = settings.slice(1);
+    if (!pseudoWords || (speed && speed !== SPEED_LETTER)) return null;
+    return createChallenge(activity, { pseudoWords, speedMode: !!speed }, seed);
+  }
+  if (activity === 'completetext') {
+    const cTest = settings.length === 1 ? difficultyOf(settings, Object.keys(cTestDifficultyLabels) as CTestDifficulty[]) : undefined;
+    return cTest ? createChallenge(activity, { cTest }, seed) : null;
+  }
+  if (isPhotoActivity(activity) && settings) {
+    const photoCategory = (Object.keys(categoryLetters) as PhotoCategory[]).find(c => categoryLetters[c] === settings);
+    return photoCategory ? createChallenge(activity, { photoCategory }, seed) : null;
+  }
+  return settings ? null : createChallenge(activity, {}, seed);
+};
+
+export const describeChallenge = ({ activity, settings }: Challenge) => [
+  activityLabels[activity],
+  settings.pseudoWords && pseudoWordDifficultyLabels[settings.pseudoWords].label,
+  settings.speedMode && 'Speed Mode',
+  settings.cTest && cTestDifficultyLabels[settings.cTest].label,
+  settings.photoCategory && photoCategoryLabels[settings.photoCategory]
+].filter(Boolean).join(' · ');
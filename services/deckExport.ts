@@ -0,0 +1,122 @@
+import { WordDef } from "../data";
+import { WordDetails } from "./aiSchemas";
+import { SrsDeck, isLearned } from "./srsService";
+
+// Turns flashcard decks into files for Anki, spreadsheets or printing.
+
+export type ExportFormat = 'anki' | 'csv' | 'html';
+
+export const exportFormatLabels: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  anki: { label: 'Anki (TSV)', extension: 'txt', mimeType: 'text/tab-separated-values' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  html: { label: 'Printable sheet', extension: 'html', mimeType: 'text/html' }
+};
+
+export interface ExportFilters {
+  unknownOnly: boolean; // Words not learned yet in the flashcards
+  c1Only: boolean;      // Words whose level includes C1 (e.g. "C1", "B2/C1")
+}
+
+export interface ExportRow {
+  word: string;
+  type: string;
+  level: string;
+  translation: string;
+  example: string;
+}
+
+// `details` holds cached translations and examples, keyed by lowercase word
+export const buildExportRows = (words: WordDef[], srsDeck: SrsDeck, details: Record<string, WordDetails>, filters: ExportFilters): ExportRow[] => {
+  const seen = new Set<string>();
+  return words
+    .filter(w => !filters.unknownOnly || !isLearned(srsDeck[w.word]))
+    .filter(w => !filters.c1Only || /C1/i.test(w.level))
+    .filter(w => {
+      const key = w.word.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(w => {
+      const cached = details[w.word.toLowerCase()];
+      return {
+        word: w.word,
+        type: w.type,
+        level: w.level,
+        translation: cached?.translation || w.translation || '',
+        example: cached?.example || ''
+      };
+    });
+};
+
+// --- Formats ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Anki's plain-text import: Front / Back / Tags, with header lines that preset the import options
+export const toAnkiTsv = (rows: ExportRow[], deckName: string) => {
+  const field = (text: string) => escapeHtml(text.replace(/[\t\r\n]+/g, ' '));
+  const tag = (text: string) => text.replace(/\s+/g, '_');
+  const lines = rows.map(row => [
+    field(row.word),
+    [field(row.translation), row.example && `<i>${field(row.example)}</i>`].filter(Boolean).join('<br>'),
+    ['det-master', row.level && tag(row.level), row.type && tag(row.type)].filter(Boolean).join(' ')
+  ].join('\t'));
+  return [
+    '#separator:tab',
+    '#html:true',
+    `#deck:${deckName.replace(/[\r\n]+/g, ' ')}`,
+    '#columns:Front\tBack\tTags',
+    '#tags column:3',
+    ...lines
+  ].join('\n') + '\n';
+};
+
+const csvCell = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// Same column names as the deck importer reads, so an export can be imported again
+export const toCsv = (rows: ExportRow[]) =>
+  [['word', 'type', 'level', 'translation', 'example'], ...rows.map(row => [row.word, row.type, row.level, row.translation, row.example])]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+
+export const toPrintableHtml = (rows: ExportRow[], title: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #3c3c3c; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  p.meta { color: #777; font-size: 12px; margin: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th { text-align: left; font-size: 11px; text-transform: uppercase; color: #777; border-bottom: 2px solid #ddd; padding: 6px; }
+  td { border-bottom: 1px solid #eee; padding: 6px; vertical-align: top; }
+  td.word { font-weight: bold; }
+  td.example { font-style: italic; color: #555; }
+  tr { page-break-inside: avoid; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${rows.length} words · DET Master · ${new Date().toLocaleDateString()}</p>
+<table>
+<thead><tr><th>Word</th><th>Type</th><th>Level</th><th>Translation</th><th>Example</th></tr></thead>
+<tbody>
+${rows.map(row => `<tr><td class="word">${escapeHtml(row.word)}</td><td>${escapeHtml(row.type)}</td><td>${escapeHtml(row.level)}</td><td>${escapeHtml(row.translation)}</td><td class="example">${escapeHtml(row.example)}</td></tr>`).join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+
+export const renderExport = (format: ExportFormat, rows: ExportRow[], deckName: string) => {
+  if (format === 'anki') return toAnkiTsv(rows, deckName);
+  if (format === 'csv') return toCsv(rows);
+  return toPrintableHtml(rows, deckName);
+};
+
+export const deckExportFileName = (deckName: string, format: ExportFormat) =>
+  `${deckName.trim().replace(/[^\w-]+/g, '_') || 'deck'}.${exportFormatLabels[format].extension}`;
@@ -0,0 +1,218 @@
+import { WordDef } from "../data";
+
+// Parses teacher word lists (CSV, TSV or Anki "Notes in Plain Text" exports) into custom flashcard decks.
+
+export interface CustomDeck {
+  id: string;
+  name: string;
+  words: WordDef[];
+  createdAt: number;
+}
+
+export type ImportFormat = 'csv' | 'tsv' | 'anki';
+
+export const importFormatLabels: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  anki: 'Anki text export'
+};
+
+export interface ParsedTable {
+  format: ImportFormat;
+  header: string[] | null; // First row, when it names the columns
+  rows: string[][];
+  metaColumns: number[];    // Anki's guid, notetype, deck and tags columns, never a word or translation
+}
+
+// --- Parsing ---
+
+// Anki writes "#separator:tab", "#html:true", "#columns:Front	Back" before the notes, and
+// "#guid column:1", "#notetype column:2", "#deck column:3", "#tags column:6" (1-based) when it
+// exports those too
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t', comma: ',', semicolon: ';', pipe: '|', colon: ':', space: ' '
+};
+
+// Splits delimited text, honouring "quoted, fields" with "" as an escaped quote
+const splitRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const stripHtml = (text: string) =>
+  text.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+
+// Most frequent of tab / semicolon / comma on the first lines
+const detectDelimiter = (lines: string[]) => {
+  const sample = lines.slice(0, 10);
+  const count = (d: string) => sample.reduce((sum, line) => sum + line.split(d).length - 1, 0);
+  return ['\t', ';', ','].reduce((best, d) => (count(d) > count(best) ? d : best), '\t');
+};
+
+const HEADER_NAMES: Record<keyof WordDef, string[]> = {
+  word: ['word', 'term', 'front', 'english', 'vocabulary', 'expression'],
+  type: ['type', 'pos', 'part of speech', 'class', 'category'],
+  level: ['level', 'cefr', 'difficulty'],
+  translation: ['translation', 'back', 'meaning', 'definition', 'french', 'traduction']
+};
+
+const headerField = (cell: string) =>
+  (Object.keys(HEADER_NAMES) as (keyof WordDef)[]).find(field => HEADER_NAMES[field].includes(cell.trim().toLowerCase()));
+
+export const parseWordList = (text: string): ParsedTable => {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/);
+  const directives = lines.filter(line => line.startsWith('#') && line.includes(':'));
+  const isAnki = directives.some(line => /^#(separator|html|columns|guid|notetype|deck|tags)/i.test(line));
+  const metaColumns = isAnki
+    ? directives.map(line => /^#(guid|notetype|deck|tags) column:\s*(\d+)/i.exec(line)).filter(Boolean).map(match => Number(match![2]) - 1)
+    : [];
+
+  let delimiter: string;
+  let format: ImportFormat;
+  let header: string[] | null = null;
+  if (isAnki) {
+    const separator = directives.find(line => line.toLowerCase().startsWith('#separator:'));
+    delimiter = separator ? ANKI_SEPARATORS[separator.split(':')[1].trim().toLowerCase()] || '\t' : '\t';
+    format = 'anki';
+    const columns = directives.find(line => line.toLowerCase().startsWith('#columns:'));
+    if (columns) header = columns.slice('#columns:'.length).split(delimiter).map(c => c.trim());
+  } else {
+    delimiter = detectDelimiter(lines.filter(line => line.trim()));
+    format = delimiter === '\t' ? 'tsv' : 'csv';
+  }
+
+  const body = lines.filter(line => !(isAnki && line.startsWith('#'))).join('\n');
+  let rows = splitRows(body, delimiter).map(row => row.map(cell => (isAnki ? stripHtml(cell) : cell).trim()));
+  if (!header && rows.length && rows[0].some(cell => headerField(cell))) {
+    header = rows[0];
+    rows = rows.slice(1);
+  }
+  return { format, header, rows, metaColumns };
+};
+
+// --- Column mapping ---
+
+export type ColumnMapping = Record<keyof WordDef, number | null>; // Column index per field
+
+export const wordFields: (keyof WordDef)[] = ['word', 'type', 'level', 'translation'];
+
+const CEFR = /^(A1|A2|B1|B2|C1|C2)(\s*\/\s*(A1|A2|B1|B2|C1|C2))?$/i;
+const PART_OF_SPEECH = /^(n|v|adj|adv|prep|conj|pron|noun|verb|adjective|adverb|phr|phrase)\.?(\s*\/\s*\w+\.?)?$/i;
+
+// Uses the header when there is one, otherwise recognises level and type columns by their content
+export const guessMapping = (table: ParsedTable): ColumnMapping => {
+  const mapping: ColumnMapping = { word: null, type: null, level: null, translation: null };
+  const width = Math.max(0, ...table.rows.map(r => r.length), table.header?.length || 0);
+
+  if (table.header) {
+    table.header.forEach((cell, i) => {
+      const field = headerField(cell);
+      if (table.metaColumns.includes(i)) return;
+      if (field && mapping[field] === null) mapping[field] = i;
+    });
+  }
+
+  const sample = table.rows.slice(0, 20);
+  const share = (i: number, pattern: RegExp) => sample.filter(r => pattern.test(r[i] || '')).length / (sample.length || 1);
+  const taken = () => [...table.metaColumns, ...Object.values(mapping).filter((i): i is number => i !== null)];
+  for (let i = 0; i < width; i++) {
+    if (taken().includes(i)) continue;
+    if (mapping.level === null && share(i, CEFR) > 0.6) mapping.level = i;
+    else if (mapping.type === null && share(i, PART_OF_SPEECH) > 0.6) mapping.type = i;
+  }
+  // The remaining columns are the word, then its translation (Anki's Front / Back)
+  const free = Array.from({ length: width }, (_, i) => i).filter(i => !taken().includes(i));
+  if (mapping.word === null && free.length) mapping.word = free.shift()!;
+  if (mapping.translation === null && free.length) mapping.translation = free.shift()!;
+  return mapping;
+};
+
+// --- Preview ---
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'existing' | 'invalid';
+
+export const importRowStatusLabels: Record<ImportRowStatus, string> = {
+  new: 'New',
+  duplicate: 'Repeated in file',
+  existing: 'Already in a deck',
+  invalid: 'No word'
+};
+
+export interface ImportRow {
+  line: number; // 1-based, among the data rows
+  word: WordDef;
+  status: ImportRowStatus;
+}
+
+const TYPE_ABBREVIATIONS: Record<string, string> = {
+  noun: 'n.', n: 'n.', verb: 'v.', v: 'v.', adjective: 'adj.', adj: 'adj.', adverb: 'adv.', adv: 'adv.'
+};
+
+const normalizeType = (type: string) => TYPE_ABBREVIATIONS[type.toLowerCase().replace(/\.$/, '')] || type;
+
+const normalizeLevel = (level: string) => (CEFR.test(level) ? level.toUpperCase().replace(/\s/g, '') : level);
+
+// `existing` holds the words of every other deck; repeated words keep one schedule, so they are flagged
+export const previewImport = (table: ParsedTable, mapping: ColumnMapping, existing: WordDef[]): ImportRow[] => {
+  const known = new Set(existing.map(w => w.word.toLowerCase()));
+  const seen = new Set<string>();
+  const cell = (row: string[], field: keyof WordDef) => (mapping[field] === null ? '' : row[mapping[field]!] || '');
+
+  return table.rows.map((row, i) => {
+    const translation = cell(row, 'translation');
+    const word: WordDef = {
+      word: cell(row, 'word').replace(/\s+/g, ' '),
+      type: normalizeType(cell(row, 'type')),
+      level: normalizeLevel(cell(row, 'level')),
+      ...(translation ? { translation } : {})
+    };
+    const key = word.word.toLowerCase();
+    let status: ImportRowStatus = 'new';
+    if (!key) status = 'invalid';
+    else if (seen.has(key)) status = 'duplicate';
+    else if (known.has(key)) status = 'existing';
+    if (key) seen.add(key);
+    return { line: i + 1, word, status };
+  });
+};
+
+export const createCustomDeck = (name: string, words: WordDef[], now = Date.now()): CustomDeck => ({
+  id: `deck-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim(),
+  words,
+  createdAt: now
+});
@@ -0,0 +1,81 @@
+import { ActivityId, ActivityResult } from "../types";
+
+// Converts section results into a DET-style report: an overall score on the
+// 10-160 scale (in steps of 5) and the four official subscores.
+
+export type Subscore = 'literacy' | 'comprehension' | 'conversation' | 'production';
+
+export const subscoreLabels: Record<Subscore, string> = {
+  literacy: 'Literacy',
+  comprehension: 'Comprehension',
+  conversation: 'Conversation',
+  production: 'Production'
+};
+
+// How much each activity contributes to each subscore (DET: Literacy = reading + writing,
+// Comprehension = reading + listening, Conversation = listening + speaking, Production = writing + speaking)
+const subscoreWeights: Record<ActivityId, Partial<Record<Subscore, number>>> = {
+  realword: { literacy: 1, comprehension: 1 },
+  spelling: { literacy: 1, comprehension: 0.5 },
+  completetext: { literacy: 1, comprehension: 1 },
+  photo: { literacy: 0.5, production: 1 },
+  readaloud: { comprehension: 0.5, conversation: 1 },
+  listentype: { comprehension: 1, conversation: 1 },
+  speakphoto: { conversation: 1, production: 1 },
+  interactivereading: { literacy: 1, comprehension: 1 },
+  writingsample: { literacy: 1, production: 1 }
+};
+
+export interface SubscoreEstimate {
+  score: number;
+  // True when no section measured this skill and the value is inferred from the others
+  inferred: boolean;
+}
+
+export interface ExamReport {
+  overall: number;
+  subscores: Record<Subscore, SubscoreEstimate>;
+  sections: { activity: ActivityId; score: number; rounds: number }[];
+}
+
+export const toDetScale = (percent: number) => {
+  const raw = 10 + (Math.max(0, Math.min(100, percent)) / 100) * 150;
+  return Math.max(10, Math.min(160, Math.round(raw / 5) * 5));
+};
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+export const buildExamReport = (results: ActivityResult[]): ExamReport => {
+  const activities = Array.from(new Set(results.map(r => r.activity)));
+  const sections = activities.map(activity => {
+    const rounds = results.filter(r => r.activity === activity);
+    return { activity, score: Math.round(average(rounds.map(r => r.score))), rounds: rounds.length };
+  });
+
+  const measured: Partial<Record<Subscore, number>> = {};
+  (Object.keys(subscoreLabels) as Subscore[]).forEach(subscore => {
+    let total = 0;
+    let weightSum = 0;
+    sections.forEach(section => {
+      const weight = subscoreWeights[section.activity][subscore] || 0;
+      total += section.score * weight;
+      weightSum += weight;
+    });
+    if (weightSum > 0) measured[subscore] = total / weightSum;
+  });
+
+  const measuredValues = Object.values(measured) as number[];
+  const fallback = measuredValues.length > 0 ? average(measuredValues) : 0;
+
+  const subscores = {} as Record<Subscore, SubscoreEstimate>;
+  (Object.keys(subscoreLabels) as Subscore[]).forEach(subscore => {
+    const value = measured[subscore];
+    subscores[subscore] = { score: toDetScale(value ?? fallback), inferred: value === undefined };
+  });
+
+  return {
+    overall: toDetScale(fallback),
+    subscores,
+    sections
+  };
+};
@@ -0,0 +1,36 @@
+import { countWords } from "./aiSchemas";
+
+// Speaking-rate and hesitation measures for spoken answers.
+
+export interface FluencyReport {
+  wordCount: number;
+  wordsPerMinute: number;
+  fillers: { filler: string; count: number }[];
+  fillerCount: number;
+  tips: string[];
+}
+
+const FILLERS = ["um", "uh", "er", "erm", "hmm", "you know", "i mean", "sort of", "kind of", "basically", "actually"];
+
+// Comfortable DET speaking pace, in words per minute
+const MIN_WPM = 100;
+const MAX_WPM = 170;
+
+export const analyzeFluency = (transcript: string, seconds: number): FluencyReport => {
+  const text = transcript.toLowerCase().replace(/[^a-z' ]+/g, ' ');
+  const wordCount = countWords(transcript);
+  const wordsPerMinute = seconds > 0 ? Math.round(wordCount / (seconds / 60)) : 0;
+
+  const fillers = FILLERS
+    .map(filler => ({ filler, count: (text.match(new RegExp(`\\b${filler}\\b`, 'g')) || []).length }))
+    .filter(f => f.count > 0);
+  const fillerCount = fillers.reduce((sum, f) => sum + f.count, 0);
+
+  const tips: string[] = [];
+  if (wordsPerMinute < MIN_WPM) tips.push(`Your pace was ${wordsPerMinute} words per minute. Aim for ${MIN_WPM}-${MAX_WPM}: keep talking, even with simple sentences.`);
+  if (wordsPerMinute > MAX_WPM) tips.push(`Your pace was ${wordsPerMinute} words per minute. Slow down a little so every word is clear.`);
+  if (fillerCount > 2) tips.push(`You used ${fillerCount} filler words. Replace them with short pauses or phrases like "It seems as though..."`);
+  if (tips.length === 0) tips.push("Good pace and few hesitations. Keep it up!");
+
+  return { wordCount, wordsPerMinute, fillers, fillerCount, tips };
+};
@@ -0,0 +1,30 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AiProvider } from "./aiProvider";
+
+const MODEL = "gemini-2.5-flash";
+
+// Created on first use so the app can start (and run offline) without an API key
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Gemini (online)',
+  multimodal: true,
+  generateJson: async (request) => {
+    const image = request.task === 'photoEvaluation' ? request.input.image : null;
+    const response = await getClient().models.generateContent({
+      model: MODEL,
+      contents: [
+        { role: "user", parts: image ? [{ inlineData: image }, { text: request.prompt }] : [{ text: request.prompt }] }
+      ],
+      config: {
+        responseMimeType: "application/json"
+      }
+    });
+    return JSON.parse(response.text || "{}");
+  }
+};
@@ -1,11 +1,64 @@
-import { GoogleGenAI } from "@google/genai";
-import { photoMethod, transitionWords, realWords } from "../data";
+import { BankPhoto, photoMethod, transitionWords, realWords } from "../data";
+import { AiRequest, InlineImage, getAiProvider } from "./aiProvider";
+import { AiServiceError } from "./aiErrors";
+import { Random, pick } from "./random";
+import { photoToPng } from "./photoBank";
+import {
+  PhotoEvaluation, FillInBlankTask, ParagraphTask, ReadingPassageTask, WordDetails, WritingEvaluation, RewriteSet, Validator,
+  validatePhotoEvaluation, fillInBlankValidator, validateParagraphTask, validateReadingPassage, validateWordDetails, validateWritingEvaluation, rewriteValidator
+} from "./aiSchemas";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const MAX_ATTEMPTS = 3;
+
+// Sends the request and validates the answer. When validation fails the
+// provider is asked again, with the problems appended to the prompt.
+const requestValidated = async <T>(request: AiRequest, validate: Validator): Promise<T> => {
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const prompt = issues.length === 0
+      ? request.prompt
+      : `${request.prompt}\n\nYour previous answer was rejected for these reasons: ${issues.join("; ")}.\nAnswer again with JSON that fixes every problem.`;
+
+    let data: unknown;
+    try {
+      data = await getAiProvider().generateJson({ ...request, prompt } as AiRequest);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        issues = ["the response was not valid JSON"];
+        continue;
+      }
+      console.error("AI provider error", error);
+      throw new AiServiceError('network', request.task, "Could not reach the AI tutor.", [], attempt);
+    }
+
+    issues = validate(data);
+    if (issues.length === 0) return data as T;
+    console.warn(`Invalid ${request.task} response (attempt ${attempt})`, issues);
+  }
+
+  throw new AiServiceError('invalid-response', request.task, "The AI tutor returned an unusable answer.", issues, MAX_ATTEMPTS);
+};
+
+// What the grader knows about the photo when it cannot see it
+const photoFacts = (photo: BankPhoto) => `
+  The photo (you cannot see it, so rely on this description):
+  - Scene: ${photo.scene}
+  - People: ${photo.people.join("; ")}
+  - Objects: ${photo.objects.join(", ")}
+  - Reference answer: ${photo.descriptions[0]}
+  `;
+
+export const evaluatePhotoDescription = async (userText: string, photo: BankPhoto): Promise<PhotoEvaluation> => {
+  let image: InlineImage | null = null;
+  if (getAiProvider().multimodal) {
+    try {
+      image = { mimeType: "image/png", data: await photoToPng(photo) };
+    } catch (error) {
+      console.warn("Could not attach the photo, grading from its description", error);
+    }
+  }
 
-export const evaluatePhotoDescription = async (userText: string, imageUrl: string | null) => {
-  const model = "gemini-2.5-flash";
-  
   const systemPrompt = `
   You are an expert Duolingo English Test (DET) tutor. 
   The user is practicing "Write About the Photo".
@@ -13,102 +66,120 @@ export const evaluatePhotoDescription = async (userText: string, imageUrl: strin
   1. Structure: Did they use the Introduction -> Foreground -> Background -> Speculation flow?
   2. Vocabulary: Did they use B2/C1 words?
   3. Grammar & Spelling: Point out any errors (User is dysorthographic, be encouraging but precise).
-  4. Content: Is it descriptive?
-  
+  4. Content accuracy: Does the text describe what is actually in the photo? Penalise invented
+     people or objects and point out important details that were missed.
+  ${image ? "The photo is attached." : photoFacts(photo)}
   Format the response as JSON with these keys: 
   {
     "score": number (0-100),
+    "contentScore": number (0-100, content accuracy only),
     "feedback": string (brief summary),
     "corrections": string[],
     "betterVersion": string
   }
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: [
-        { role: "user", parts: [{ text: systemPrompt + "\n\nUser Response:\n" + userText }] }
-      ],
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-
-    return JSON.parse(response.text || "{}");
-  } catch (error) {
-    console.error("Gemini Error", error);
-    return {
-      score: 0,
-      feedback: "Error connecting to AI tutor.",
-      corrections: [],
-      betterVersion: ""
-    };
-  }
+  return requestValidated<PhotoEvaluation>({
+    task: 'photoEvaluation',
+    prompt: systemPrompt + "\n\nUser Response:\n" + userText,
+    input: { userText, photo, image }
+  }, validatePhotoEvaluation);
 };
 
-export const generateFillInBlank = async () => {
-  const word = realWords[Math.floor(Math.random() * realWords.length)];
-  const model = "gemini-2.5-flash";
+export const generateFillInBlank = async (random: Random = Math.random): Promise<FillInBlankTask> => {
+  const word = pick(realWords, random);
   
   const prompt = `Generate a single sentence using the word "${word.word}". 
   The sentence should be B2 level context. 
   Output JSON: { "sentence": "The full sentence.", "missingWord": "${word.word}" }`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-    return JSON.parse(response.text || "{}");
-  } catch (e) {
-    return { sentence: `The ${word.word} was very important.`, missingWord: word.word };
-  }
+  return requestValidated<FillInBlankTask>({ task: 'fillInBlank', prompt, input: { word: word.word } }, fillInBlankValidator(word.word));
 };
 
-export const generateParagraphTask = async () => {
-    const model = "gemini-2.5-flash";
+export const generateParagraphTask = async (): Promise<ParagraphTask> => {
     const prompt = `Generate a short paragraph (about 60-80 words) about an academic or general topic (e.g., science, history, environment).
-    The English should be B2/C1 level.
+    The paragraph must contain between 60 and 80 words. The English should be B2/C1 level.
     Output JSON: { "topic": "Title of topic", "text": "The full paragraph text..." }`;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json"
-            }
-        });
-        return JSON.parse(response.text || "{}");
-    } catch (e) {
-        return { 
-            topic: "Technology", 
-            text: "Technology has revolutionized the way we communicate. In the past, letters took days to arrive, but now emails are instantaneous. However, this convenience comes with challenges, such as maintaining privacy and avoiding distractions in our daily lives." 
-        };
-    }
+    return requestValidated<ParagraphTask>({ task: 'paragraph', prompt, input: {} }, validateParagraphTask);
+}
+
+export const generateReadingPassage = async (): Promise<ReadingPassageTask> => {
+    const prompt = `Generate a short paragraph (about 60-80 words) about an academic or general topic (e.g., science, history, environment).
+    The paragraph must contain between 60 and 80 words. The English should be B2/C1 level.
+    Also write a question whose answer is a short phrase (at most 12 words) copied exactly from the paragraph,
+    and four statements of the paragraph's main idea: the first is correct, the other three are plausible but wrong.
+    Output JSON: { "topic": "Title of topic", "text": "The full paragraph text...",
+      "highlight": { "question": "Question about the paragraph?", "answer": "exact phrase from the paragraph" },
+      "mainIdea": { "options": ["Correct main idea.", "Wrong idea.", "Wrong idea.", "Wrong idea."] } }`;
+
+    return requestValidated<ReadingPassageTask>({ task: 'readingPassage', prompt, input: {} }, validateReadingPassage);
 }
 
-export const getWordDetails = async (word: string) => {
-  const model = "gemini-2.5-flash";
+export const getWordDetails = async (word: string): Promise<WordDetails> => {
   // Requesting French translation and English example
   const prompt = `Translate the English word "${word}" to French and provide a simple example sentence in English using the word. 
   Output JSON: { "translation": "French translation", "example": "English example sentence." }`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-    return JSON.parse(response.text || "{}");
-  } catch (e) {
-    console.error(e);
-    return { translation: "...", example: "Could not load example." };
+  return requestValidated<WordDetails>({ task: 'wordDetails', prompt, input: { word } }, validateWordDetails);
+};
+
+export const evaluateWritingSample = async (question: string, userText: string): Promise<WritingEvaluation> => {
+  const prompt = `
+  You are an expert Duolingo English Test (DET) tutor grading the "Writing Sample" task.
+  The prompt was: "${question}"
+  Score the answer from 0 to 5 on each criterion of this rubric:
+  1. taskCompletion: Does it answer every part of the prompt with enough development (at least 100 words)?
+  2. coherence: Are the ideas logically ordered and grouped into clear sentences?
+  3. transitions: Does it use varied connectors (e.g. ${transitionWords.slice(0, 6).map(t => t.word).join(", ")})?
+  4. lexicalRange: Does it use precise, varied B2/C1 vocabulary?
+  5. spelling: Spelling, capitalisation and punctuation (the user is dysorthographic, be encouraging but precise).
+
+  Format the response as JSON:
+  {
+    "criteria": {
+      "taskCompletion": { "score": 0-5, "comment": string },
+      "coherence": { "score": 0-5, "comment": string },
+      "transitions": { "score": 0-5, "comment": string },
+      "lexicalRange": { "score": 0-5, "comment": string },
+      "spelling": { "score": 0-5, "comment": string }
+    },
+    "summary": string,
+    "corrections": string[]
   }
-};
\ No newline at end of file
+  `;
+
+  return requestValidated<WritingEvaluation>({
+    task: 'writingSample',
+    prompt: prompt + "\n\nUser Response:\n" + userText,
+    input: { question, userText }
+  }, validateWritingEvaluation);
+};
+
+export const rewriteText = async (text: string): Promise<RewriteSet> => {
+  const connectors = transitionWords.map(t => t.word);
+  const prompt = `
+  You are an expert Duolingo English Test (DET) tutor helping a learner paraphrase.
+  Rewrite the text below in four ways, keeping its meaning:
+  - "formal": a more formal, academic register.
+  - "advanced": the same ideas with higher-level (B2/C1) vocabulary.
+  - "concise": shorter, removing redundant words.
+  - "transition": linked with at least one of these connectors: ${connectors.join(", ")}.
+  For each rewrite, list the B2/C1 words it introduces that are not in the original, with their part of speech,
+  CEFR level and French translation.
+
+  Format the response as JSON:
+  {
+    "rewrites": [
+      { "style": "formal" | "advanced" | "concise" | "transition", "text": string,
+        "newWords": [{ "word": string, "type": "n." | "v." | "adj." | "adv.", "level": "B2" | "C1", "translation": string }] }
+    ]
+  }
+  `;
+
+  return requestValidated<RewriteSet>({
+    task: 'rewrite',
+    prompt: prompt + "\n\nText:\n" + text,
+    input: { text }
+  }, rewriteValidator(connectors));
+};
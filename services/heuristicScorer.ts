@@ -0,0 +1,170 @@
+import { BankPhoto, WordDef, realWords, photoWords, photoMethod, photoVocab } from "../data";
+import { PhotoEvaluation } from "./aiSchemas";
+import { ConnectorUse, findConnectors } from "./writingSample";
+import { isEnglishWord, lexiconWords } from "./lexicon";
+import { editDistance } from "./textDiff";
+import { analyzeSpelling } from "./spellingAnalyzer";
+
+// Deterministic scorer for written answers, built only from the word lists in data.ts. It grades
+// photo descriptions when no model is available and gives a second opinion next to the AI score.
+
+// --- Signals ---
+
+const phrase = (text: string) => text.toLowerCase().replace(/\.\.\.$/, '');
+
+// Cue phrases for each stage of the photo method; the study phrases come first
+const stageCues = [
+  { stage: photoMethod[0].name, cues: ["this picture", "this image", "this photo", "the picture", "the image", "the photo", "bird's-eye view"] },
+  { stage: photoMethod[1].name, cues: [...photoVocab.general.filter(p => !/background/i.test(p)).map(phrase), "foreground", "in front", "close-up"] },
+  { stage: photoMethod[2].name, cues: ["in the background", "background", "behind", "in the distance"] },
+  { stage: photoMethod[3].name, cues: [...photoVocab.speculation.map(phrase), "seems", "assume", "might", "conveys", "probably", "perhaps"] }
+];
+
+export const advancedWordsIn = (text: string) =>
+  [...realWords, ...photoWords]
+    .filter(w => w.level !== "A2" && w.level !== "B1")
+    .filter(w => new RegExp(`\\b${w.word.toLowerCase()}\\b`).test(text));
+
+// Capitalisation and punctuation checks shared by the writing evaluations
+export const mechanicsCorrections = (userText: string) => {
+  const corrections: string[] = [];
+  userText.split(/(?<=[.!?])\s+/).filter(Boolean).forEach(sentence => {
+    if (/^[a-z]/.test(sentence)) corrections.push(`Start the sentence with a capital letter: "${sentence.slice(0, 30)}..."`);
+  });
+  if (/\bi\b/.test(userText)) corrections.push('The pronoun "I" is always written with a capital letter.');
+  if (!/[.!?]\s*$/.test(userText.trim())) corrections.push("End your text with a full stop.");
+  return corrections;
+};
+
+export interface Misspelling {
+  word: string;
+  suggestion: string;
+}
+
+// A word is likely misspelt when the dictionary does not know it but knows a word it could be a
+// slip of: one of the learner's usual patterns (doubled or missing letter, vowel swap, ...), or a
+// single wrong letter in a longer word. Anything else is left alone, as the small dictionary
+// lacks many correct words. Capitalised words inside a sentence are taken as names.
+export const findMisspellings = (userText: string): Misspelling[] => {
+  const found: Misspelling[] = [];
+  for (const match of userText.matchAll(/[A-Za-z]+(?:['’][A-Za-z]+)*/g)) {
+    const word = match[0];
+    const lower = word.toLowerCase();
+    const startsSentence = /(^|[.!?]\s+)$/.test(userText.slice(0, match.index));
+    if (word.length < 4 || /['’]/.test(word) || (/^[A-Z]/.test(word) && !startsSentence)) continue;
+    if (isEnglishWord(lower) || found.some(m => m.word.toLowerCase() === lower)) continue;
+
+    const maxDistance = lower.length >= 7 ? 2 : 1;
+    let best: { word: string; distance: number; typical: boolean } | null = null;
+    for (const candidate of lexiconWords) {
+      if (Math.abs(candidate.length - lower.length) > maxDistance) continue;
+      const distance = editDistance(lower, candidate);
+      if (distance > maxDistance) continue;
+      const typical = analyzeSpelling(candidate, lower).errors.every(e => e.type !== 'other');
+      if (!typical && !(distance === 1 && lower.length >= 6)) continue;
+      if (!best || distance < best.distance || (distance === best.distance && typical && !best.typical)) best = { word: candidate, distance, typical };
+    }
+    if (best) found.push({ word, suggestion: best.word });
+  }
+  return found;
+};
+
+export interface StageCheck {
+  stage: string;
+  found: boolean;
+}
+
+export interface WritingSignals {
+  wordCount: number;
+  advancedWords: WordDef[];
+  coverage: number; // Share of the words, in %, that are B2/C1 study words
+  connectors: ConnectorUse[];
+  stages: StageCheck[];
+  misspellings: Misspelling[];
+}
+
+export const analyzeWriting = (userText: string): WritingSignals => {
+  const text = userText.toLowerCase();
+  const tokens = text.match(/[a-z]+(?:'[a-z]+)*/g) || [];
+  const advancedWords = advancedWordsIn(text);
+  const advancedSet = new Set(advancedWords.map(w => w.word.toLowerCase()));
+  return {
+    wordCount: tokens.length,
+    advancedWords,
+    coverage: tokens.length ? Math.round(tokens.filter(t => advancedSet.has(t)).length / tokens.length * 100) : 0,
+    connectors: findConnectors(userText),
+    stages: stageCues.map(s => ({ stage: s.stage, found: s.cues.some(c => text.includes(c)) })),
+    misspellings: findMisspellings(userText)
+  };
+};
+
+// --- Photo content ---
+
+const PEOPLE_FILLER = ["a", "an", "the", "two", "three", "four", "young", "old"];
+
+// Words that show a detail was mentioned. People are named by the words before what they are
+// doing ("a vendor in a green apron" -> vendor), objects by their last word ("crates of fruit" -> fruit).
+const detailKeywords = (detail: string, isPerson: boolean) => {
+  const words = detail.toLowerCase().split(/\s+/);
+  if (!isPerson) return [words[words.length - 1]];
+  const end = words.findIndex((w, i) => i > 0 && (/ing$/.test(w) || ["in", "with", "on", "at", "and", "behind"].includes(w)));
+  return words.slice(0, end === -1 ? words.length : end).filter(w => !PEOPLE_FILLER.includes(w));
+};
+
+const singular = (word: string) => {
+  if (/ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/sses$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && /[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+const mentions = (text: string, keyword: string) =>
+  new RegExp(`\\b${singular(keyword).replace(/[^a-z]/g, "\\W?")}(s|es)?\\b`).test(text);
+
+// Share of the photo's people and objects the text mentions, and the ones it left out
+export const photoContent = (text: string, photo: BankPhoto) => {
+  const details = [
+    ...photo.people.map(detail => ({ detail, keywords: detailKeywords(detail, true) })),
+    ...photo.objects.map(detail => ({ detail, keywords: detailKeywords(detail, false) }))
+  ];
+  const missed = details.filter(d => !d.keywords.some(k => mentions(text.toLowerCase(), k))).map(d => d.detail);
+  return { contentScore: Math.round((1 - missed.length / details.length) * 100), mentioned: details.length - missed.length, total: details.length, missed };
+};
+
+// --- Photo description score ---
+
+export const scorePhotoDescription = (userText: string, photo: BankPhoto): PhotoEvaluation => {
+  const signals = analyzeWriting(userText);
+  const { wordCount, advancedWords, connectors, misspellings } = signals;
+  const stagesUsed = signals.stages.filter(s => s.found);
+  const content = photoContent(userText, photo);
+
+  const languageScore = Math.max(0, Math.min(100,
+    15 + Math.min(wordCount, 60) / 60 * 35 + stagesUsed.length * 8 + Math.min(advancedWords.length, 4) * 3 + Math.min(connectors.length, 2) * 4
+  ) - Math.min(misspellings.length, 5) * 3);
+  // Describing what is really there counts for a fifth of the score
+  const score = Math.round(languageScore * 0.8 + content.contentScore * 0.2);
+
+  const corrections = [
+    ...misspellings.map(m => `Check the spelling of "${m.word}" (did you mean "${m.suggestion}"?).`),
+    ...mechanicsCorrections(userText),
+    ...signals.stages.filter(s => !s.found).map(s => `Add a sentence for the "${s.stage}" stage.`)
+  ];
+  if (content.missed.length > 0) corrections.push(`Describe more of what is in the photo, for example ${content.missed.slice(0, 3).join("; ")}.`);
+
+  const feedback = [
+    `You wrote ${wordCount} words, covered ${stagesUsed.length} of the 4 stages and mentioned ${content.mentioned} of ${content.total} details in the photo.`,
+    advancedWords.length > 0
+      ? `Good use of B2/C1 vocabulary (${advancedWords.slice(0, 3).map(w => w.word).join(", ")}).`
+      : "Try to include some B2/C1 vocabulary.",
+    connectors.length > 0 ? "Your transition words help the text flow." : "Link your ideas with transition words such as \"Furthermore\"."
+  ].join(" ");
+
+  return {
+    score,
+    contentScore: content.contentScore,
+    feedback,
+    corrections,
+    betterVersion: photo.descriptions[0]
+  };
+};
@@ -0,0 +1,151 @@
+import { realWords, paragraphBank, ReadingPassage } from "../data";
+import { toWords } from "./textDiff";
+import { Random, shuffle } from "./random";
+
+// Builds the five DET "Interactive Reading" question types from one passage.
+// Three are derived from the text; the highlight and main-idea questions come with the passage,
+// written by hand for the local bank and by the model for AI passages.
+
+export type ReadingStepType = 'completeSentences' | 'completePassage' | 'highlight' | 'mainIdea' | 'title';
+
+export const readingStepLabels: Record<ReadingStepType, string> = {
+  completeSentences: 'Complete the Sentences',
+  completePassage: 'Complete the Passage',
+  highlight: 'Highlight the Answer',
+  mainIdea: 'Identify the Idea',
+  title: 'Title the Passage'
+};
+
+export interface SentenceBlank {
+  wordIndex: number; // Index in `words`
+  answer: string;
+  prefix: string;    // Punctuation kept around the blank, e.g. an opening quote
+  suffix: string;    // e.g. a trailing comma
+  options: string[];
+}
+
+export interface InteractiveReadingTask {
+  topic: string;
+  words: string[]; // The passage split on whitespace, punctuation attached
+  completeSentences: SentenceBlank[];
+  completePassage: { before: string[]; after: string[]; answer: string; options: string[] };
+  highlight?: { question: string; start: number; end: number }; // Inclusive word range
+  mainIdea?: { answer: string; options: string[] };
+  title: { answer: string; options: string[] };
+}
+
+const MAX_BLANKS = 5;
+const OPTION_COUNT = 4;
+
+const splitSentences = (text: string) =>
+  (text.match(/[^.!?]+[.!?]+["')\]]*/g) || [text]).map(s => s.trim()).filter(Boolean);
+
+const core = (word: string) => word.replace(/^[^A-Za-z]+|[^A-Za-z]+$/g, '');
+
+const buildBlanks = (words: string[], firstSentenceLength: number, random: Random): SentenceBlank[] => {
+  const known = new Map(realWords.map(w => [w.word.toLowerCase(), w]));
+  const seen = new Set<string>();
+  const candidates = words
+    .map((word, wordIndex) => ({ word, wordIndex, answer: core(word) }))
+    // The first sentence stays intact so the reader has some context
+    .filter(c => c.wordIndex >= firstSentenceLength && c.answer.length >= 5)
+    .filter(c => {
+      const key = c.answer.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  // Prefer vocabulary from the word list, where distractors of the same type exist
+  const preferred = candidates.filter(c => known.has(c.answer.toLowerCase()));
+  const fallback = candidates.filter(c => !known.has(c.answer.toLowerCase()) && c.answer.length >= 8 && /^[a-z]/.test(c.answer));
+  const chosen = [...shuffle(preferred, random), ...shuffle(fallback, random)].slice(0, MAX_BLANKS).sort((a, b) => a.wordIndex - b.wordIndex);
+
+  return chosen.map(c => {
+    const def = known.get(c.answer.toLowerCase());
+    const others = realWords.filter(w => w.word.toLowerCase() !== c.answer.toLowerCase());
+    const sameType = def ? others.filter(w => w.type === def.type) : [];
+    // Top up with words of a similar length when the word type has too few entries
+    const similar = others.filter(w => !sameType.includes(w) && Math.abs(w.word.length - c.answer.length) <= 3);
+    const distractors = [...shuffle(sameType, random), ...shuffle(similar, random)].slice(0, OPTION_COUNT - 1).map(w =>
+      /^[A-Z]/.test(c.answer) ? w.word[0].toUpperCase() + w.word.slice(1) : w.word
+    );
+    const start = c.word.indexOf(c.answer);
+    return {
+      wordIndex: c.wordIndex,
+      answer: c.answer,
+      prefix: c.word.slice(0, start),
+      suffix: c.word.slice(start + c.answer.length),
+      options: shuffle([c.answer, ...distractors], random)
+    };
+  });
+};
+
+// Word range of `answer` in the passage words, ignoring case and punctuation
+export const findSpan = (words: string[], answer: string) => {
+  const target = toWords(answer);
+  const normalized = words.map(w => toWords(w).join(''));
+  for (let i = 0; i + target.length <= normalized.length; i++) {
+    if (target.every((t, k) => normalized[i + k] === t)) return { start: i, end: i + target.length - 1 };
+  }
+  return null;
+};
+
+export const buildInteractiveReading = (passage: ReadingPassage, random: Random = Math.random): InteractiveReadingTask => {
+  const words = passage.text.split(/\s+/).filter(Boolean);
+  const sentences = splitSentences(passage.text);
+  const others = paragraphBank.filter(p => p.topic !== passage.topic);
+
+  // Remove one sentence from the middle of the passage
+  const gap = sentences.length > 2 ? 1 + Math.floor(random() * (sentences.length - 2)) : sentences.length - 1;
+  const otherSentences = shuffle(others.flatMap(p => splitSentences(p.text).slice(1, -1)), random).slice(0, OPTION_COUNT - 1);
+
+  const span = passage.highlight ? findSpan(words, passage.highlight.answer) : null;
+
+  return {
+    topic: passage.topic,
+    words,
+    completeSentences: buildBlanks(words, sentences[0].split(/\s+/).length, random),
+    completePassage: {
+      before: sentences.slice(0, gap),
+      after: sentences.slice(gap + 1),
+      answer: sentences[gap],
+      options: shuffle([sentences[gap], ...otherSentences], random)
+    },
+    highlight: span && passage.highlight ? { question: passage.highlight.question, ...span } : undefined,
+    mainIdea: passage.mainIdea
+      ? { answer: passage.mainIdea.options[0], options: shuffle(passage.mainIdea.options, random) }
+      : undefined,
+    title: {
+      answer: passage.topic,
+      options: shuffle([passage.topic, ...shuffle(others, random).slice(0, OPTION_COUNT - 1).map(p => p.topic)], random)
+    }
+  };
+};
+
+export const getReadingSteps = (task: InteractiveReadingTask): ReadingStepType[] =>
+  (['completeSentences', 'completePassage', 'highlight', 'mainIdea', 'title'] as ReadingStepType[])
+    .filter(step => (step !== 'highlight' || task.highlight) && (step !== 'mainIdea' || task.mainIdea));
+
+// --- Scoring (0-100 per sub-question) ---
+
+export const scoreCompleteSentences = (task: InteractiveReadingTask, answers: Record<number, string>) => {
+  const blanks = task.completeSentences;
+  if (blanks.length === 0) return 100;
+  const correct = blanks.filter(b => answers[b.wordIndex] === b.answer).length;
+  return Math.round((correct / blanks.length) * 100);
+};
+
+// Word-overlap F1 between the selected range and the expected answer
+export const scoreHighlight = (task: InteractiveReadingTask, start: number | null, end: number | null) => {
+  if (!task.highlight || start === null || end === null) return 0;
+  const from = Math.min(start, end);
+  const to = Math.max(start, end);
+  const overlap = Math.max(0, Math.min(to, task.highlight.end) - Math.max(from, task.highlight.start) + 1);
+  if (overlap === 0) return 0;
+  const precision = overlap / (to - from + 1);
+  const recall = overlap / (task.highlight.end - task.highlight.start + 1);
+  return Math.round((2 * precision * recall) / (precision + recall) * 100);
+};
+
+export const scoreChoice = (answer: string, choice: string | null) => (choice === answer ? 100 : 0);
@@ -0,0 +1,223 @@
+import { realWords, photoWords, transitionWords, paragraphBank, readingPassages, writingPrompts, photoBank } from "../data";
+
+// A small offline English dictionary: common words plus every word that appears in the app's own
+// content. Used to make sure generated pseudo-words are not real English.
+
+const commonWords = `
+a able about above abroad absence absent absolute absolutely abuse academic accept acceptable access accident
+according account accurate accuse achieve achievement acid acknowledge acquire across act action active activity
+actor actual actually adapt add addition additional address adequate adjust admire admit adopt adult advance
+advantage adventure advertise advice advise affair affect afford afraid after afternoon again against age agency
+agenda agent aggressive ago agree agreement agriculture ahead aid aim air aircraft airline airport alarm album
+alcohol alert alive all allow almost alone along already also alter alternative although altogether always amaze
+ambition ambulance among amount amuse analyse analysis ancestor ancient and anger angle angry animal announce
+annual another answer anticipate anxiety anxious any anybody anyone anything anyway anywhere apart apartment
+apologise apparent appeal appear appearance apple application apply appoint appointment appreciate approach
+appropriate approval approve area argue argument arise arm army around arrange arrangement arrest arrival arrive
+art article artificial artist as ashamed aside ask asleep aspect assess assessment asset assign assist assistance
+assistant associate association assume assumption assure atmosphere attach attack attempt attend attention attitude
+attract attraction attractive audience author authority automatic autumn available average avoid awake award aware
+away awful baby back background bad badly bag balance ball ban band bank bar base basic basis basket bath battle
+bear beat beautiful beauty because become bed bedroom beer before begin beginning behave behaviour behind belief
+believe bell belong below belt bench bend beneath benefit beside best better between beyond bicycle big bill bird
+birth birthday bit bite bitter black blade blame blank blanket blind block blood blow blue board boat body boil
+bold bomb bond bone book boot border bored boring born borrow boss both bother bottle bottom boundary bowl box boy
+brain branch brand brave bread break breakfast breath breathe brick bridge brief bright brilliant bring broad
+broadcast brother brown brush budget build building bullet burden burn burst bury bus business busy but butter
+button buy by cabinet cable cake calculate call calm camera camp campaign can cancel cancer candidate cap capable
+capacity capital captain capture car card care career careful careless carpet carry case cash cast castle cat
+catch category cause ceiling celebrate cell cent centre central century ceremony certain certainly chain chair
+chairman challenge champion chance change channel chapter character charge charity chart chase cheap cheat check
+cheek cheese chemical chest chicken chief child childhood chip chocolate choice choose church cigarette cinema
+circle circumstance citizen city civil claim class classic classroom clean clear clearly clever client climate
+climb clinic clock close closely cloth clothes cloud club coach coal coast coat code coffee coin cold collapse
+colleague collect collection college colour column combination combine come comedy comfort comfortable command
+comment commercial commission commit commitment committee common communicate communication community company
+compare comparison compete competition competitive complain complaint complete completely complex complicated
+component compose computer concentrate concept concern concert conclude conclusion concrete condition conduct
+conference confidence confident confirm conflict confront confuse confusion connect connection conscious consider
+considerable consideration consist constant constantly construct construction consult consumer contact contain
+content contest context continent continue contract contrast contribute contribution control convenient
+conversation convert convince cook cool cope copy core corner corporate correct cost cottage cotton could council
+count counter country countryside county couple courage course court cousin cover crack craft crash crazy cream
+create creature credit crew crime criminal crisis criteria critic critical criticise crop cross crowd crucial cry
+cultural culture cup cupboard cure curious currency current currently curtain curve custom customer cut cycle
+daily damage dance danger dangerous dare dark data date daughter day dead deal dear death debate debt decade
+decide decision declare decline decorate decrease deep deeply defeat defence defend define definite definitely
+definition degree delay deliberate delicate delight deliver delivery demand democracy demonstrate deny department
+depend deposit depressed depth describe description desert deserve design desire desk desperate despite destroy
+destruction detail detect determine develop development device devote diary die diet differ difference different
+difficult difficulty dig digital dinner direct direction directly director dirty disabled disadvantage disagree
+disappear disappoint disaster discipline discount discover discovery discuss discussion disease dish dismiss
+display distance distinct distinguish distribute district disturb divide division doctor document dog dollar
+domestic dominate door double doubt down draft drag drama dramatic draw drawer drawing dream dress drink drive
+driver drop drug dry due during dust duty each eager ear early earn earth ease easily east eastern easy eat
+economic economy edge edition editor educate education effect effective effectively efficient effort either
+elderly elect election electric electricity electronic element elsewhere email embarrass emerge emergency emotion
+emotional emphasis employ employee employer employment empty enable encounter encourage end enemy energy engage
+engine engineer enjoy enormous enough ensure enter entertain enthusiasm entire entirely entitle entrance entry
+environment environmental equal equally equipment error escape especially essay essential establish estate
+estimate ethnic evaluate even evening event eventually ever every everybody everyone everything everywhere
+evidence evil exact exactly exam examine example excellent except exception exchange excited excitement exciting
+exclude excuse executive exercise exhibit exhibition exist existence exit expand expect expectation expense
+expensive experience experiment expert explain explanation explode explore explosion export expose express
+expression extend extension extensive extent external extra extraordinary extreme extremely eye face facility
+fact factor factory fail failure fair fairly faith fall false familiar family famous fan fancy far farm farmer
+fashion fast fat father fault favour favourite fear feature fee feed feel feeling fellow female fence festival
+few field fight figure file fill film final finally finance financial find finding fine finger finish fire firm
+first fish fit fix flag flat flavour flexible flight float flood floor flow flower fly focus fold folk follow
+food foot football for force foreign forest forever forget forgive form formal former fortune forward found
+foundation frame free freedom freeze frequent frequently fresh friend friendly friendship frighten from front
+fruit fuel full fully fun function fund fundamental funny furniture future gain game gap garage garden gas gate
+gather general generally generate generation generous gentle gentleman genuine gesture get gift girl give glad
+glass global glove go goal god gold golden good goods govern government grab grade gradually grain grand
+grandfather grandmother grant grass grateful great green grey ground group grow growth guarantee guard guess
+guest guide guilty gun guy habit hair half hall hand handle hang happen happy hard hardly harm hat hate have head
+headline health healthy hear heart heat heavy height hell hello help helpful hence her here hero hesitate hide
+high highlight highly hill him hire his historic historical history hit hold hole holiday hollow holy home
+honest honour hope horror horse hospital host hot hotel hour house household housing how however huge human
+humour hungry hunt hurry hurt husband idea ideal identify identity ignore ill illegal illness illustrate image
+imagination imagine immediate immediately immigrant impact implement implication imply import importance
+important impose impossible impress impression impressive improve improvement incident include including income
+increase increasingly indeed independence independent index indicate individual industrial industry inevitable
+infection influence inform informal information initial initiative injure injury inner innocent input inquiry
+insect inside insist inspect inspire install instance instead institute institution instruction instrument
+insurance intellectual intelligence intelligent intend intense intention interest interested interesting internal
+international internet interpret interpretation interrupt interval interview into introduce introduction invent
+invest investigate investigation investment invitation invite involve island issue item jacket job join joint
+joke journal journalist journey joy judge judgement juice jump junior jury just justice justify keen keep key
+kick kid kill kind king kiss kitchen knee knife knock know knowledge label laboratory lack lady lake land
+landscape language large largely last late later laugh launch law lawyer lay layer lead leader leadership leaf
+league lean learn least leather leave lecture left leg legal legislation leisure lend length less lesson let
+letter level liberal library licence lie life lift light like likely limit limited line link lip list listen
+literature little live lively living load loan local locate location lock logic lonely long look loose lose
+loss lost lot loud love lovely low lower luck lucky lunch machine mad magazine magic mail main mainly maintain
+major majority make male manage management manager manner manufacture many map march mark market marriage
+married marry mass massive master match mate material matter maximum may maybe meal mean meaning means meanwhile
+measure meat media medical medicine medium meet meeting member membership memory mental mention menu mere merely
+mess message metal method middle might mild mile military milk mind mine minimum minister minor minority minute
+mirror miss mission mistake mix mixture mobile model modern moment money monitor month mood moon moral more
+moreover morning mortgage most mostly mother motion motor mount mountain mouse mouth move movement movie much mud
+multiple murder muscle museum music musical musician must mystery myth nail name narrow nation national native
+natural naturally nature near nearby nearly neat necessary neck need negative negotiate neighbour neither nerve
+nervous net network never new news newspaper next nice night nobody noise none nor normal normally north northern
+nose not note nothing notice notion novel now nowhere nuclear number nurse object objective obligation observe
+obtain obvious obviously occasion occasionally occupy occur ocean odd of off offence offer office officer
+official often oil okay old once one online only onto open opening operate operation opinion opponent
+opportunity oppose opposite option or orange order ordinary organ organic organisation organise origin original
+other otherwise ought our out outcome outside outstanding over overall overcome owe own owner pace pack package
+page pain paint painting pair palace pale pan panel paper parent park parliament part participant participate
+particular particularly partly partner party pass passage passenger passion past path patient pattern pause pay
+payment peace peak pen penalty pencil people pepper per perceive percentage perfect perform performance perhaps
+period permanent permission permit person personal personality personally perspective persuade pet phase
+phenomenon philosophy phone photo photograph phrase physical piano pick picture piece pig pile pill pilot pin
+pink pipe pitch place plain plan plane planet plant plastic plate platform play player pleasant please pleasure
+plenty plot plus pocket poem poet poetry point poison pole police policy polite political politician politics
+pollution pool poor pop popular population port portrait pose position positive possess possession possibility
+possible possibly post pot potato potential pound pour poverty powder power powerful practical practice praise
+pray prayer precise predict prefer preference pregnant premise prepare presence present preserve president press
+pressure presumably pretend pretty prevent previous previously price pride priest primary prime prince princess
+principal principle print prior priority prison prisoner private prize probably problem procedure proceed
+process produce product production profession professional professor profile profit program programme progress
+project promise promote prompt proof proper properly property proportion proposal propose prospect protect
+protection protest proud prove provide province provision psychology pub public publication publish pull punish
+pupil purchase pure purpose pursue push put qualify quality quantity quarter queen question quick quickly quiet
+quite quote race racism radical radio rail rain raise range rank rapid rapidly rare rarely rate rather raw reach
+react reaction read reader reading ready real reality realise really reason reasonable recall receive recent
+recently recipe recognise recommend record recover recovery reduce reduction refer reference reflect reform
+refuse regard region regional register regret regular regularly regulation reject relate relation relationship
+relative relatively relax release relevant relief religion religious rely remain remark remarkable remember
+remind remote remove rent repair repeat replace reply report represent representative reputation request require
+requirement rescue research reserve resident resist resolve resort resource respect respond response
+responsibility responsible rest restaurant restore restrict result retain retire return reveal revenue reverse
+review revolution reward rich rid ride right ring rise risk rival river road rock role roll romantic roof room
+root rope rough round route routine row royal rub rubbish rude ruin rule run rural rush sad safe safety sail
+salad salary sale salt same sample sand satisfy save say scale scene schedule scheme school science scientific
+scientist score screen sea search season seat second secondary secret secretary section sector secure security
+see seed seek seem select selection self sell send senior sense sensible sensitive sentence separate sequence
+series serious seriously servant serve service session set settle settlement several severe sex shade shadow
+shake shall shame shape share sharp she sheet shelf shell shelter shift shine ship shirt shock shoe shoot shop
+shopping short shot should shoulder shout show shower shut shy sick side sight sign signal significant silence
+silent silly silver similar simple simply since sing singer single sink sister sit site situation size skill
+skin sky sleep slice slide slight slightly slip slow slowly small smart smell smile smoke smooth snow so social
+society soft software soil soldier solid solution solve some somebody somehow someone something sometimes
+somewhat somewhere son song soon sorry sort soul sound soup source south southern space spare speak speaker
+special specialist species specific speech speed spell spend spirit spiritual spite split sport spot spread
+spring square stable staff stage stair stake stamp stand standard star stare start state statement station
+status stay steady steal steel step stick still stock stomach stone stop store storm story straight strange
+stranger strategy stream street strength stress stretch strict strike string strip stroke strong structure
+struggle student studio study stuff stupid style subject submit substance substantial succeed success successful
+such sudden suddenly suffer sufficient sugar suggest suggestion suit suitable sum summary summer sun supply
+support suppose sure surely surface surgery surprise surprised surround survey survive suspect sweet swim swing
+switch symbol sympathy system table tackle tail take tale talent talk tall tank tape target task taste tax tea
+teach teacher team tear technical technique technology telephone television tell temperature temporary tend
+tendency tennis tension term terrible territory terror test text than thank that the theatre their them theme
+themselves then theory there therefore these they thick thin thing think this thorough those though thought
+threat threaten throat through throughout throw thus ticket tidy tie tight till time tiny tip tired title to
+today together toilet tomorrow tone tongue tonight too tool tooth top topic total totally touch tough tour
+tourist toward towards tower town toy trace track trade tradition traditional traffic train training transfer
+transform transition translate transport travel treat treatment tree trend trial trick trip troop trouble truck
+true trust truth try tube tune turn twice twin type typical ugly ultimate unable uncle under undergo understand
+unemployment unexpected unfortunately uniform union unique unit unite unity universal universe university unless
+unlike unlikely until unusual up upon upper upset urban urge urgent us use used useful user usual usually vacuum
+valley valuable value van variation variety various vast vehicle version very vessel via victim victory video
+view village violence violent virtual virtue visible vision visit visitor visual vital voice volume voluntary
+volunteer vote wage wait wake walk wall wander want war warm warn wash waste watch water wave way we weak wealth
+weapon wear weather website wedding week weekend weigh weight welcome welfare well west western wet what whatever
+wheel when whenever where whereas wherever whether which while whisper white who whole whom whose why wide widely
+wife wild will willing win wind window wine wing winner winter wire wise wish with withdraw within without
+witness woman wonder wonderful wood wooden word work worker world worried worry worse worst worth would wound
+wrap write writer writing wrong yard yeah year yellow yes yesterday yet you young youth zone
+ambulate blandishment bloviate crapulent defenestrate epistemology fatuous gerrymander grandiloquence hegemony
+iconoclast instep jingoism kempt kerfuffle kitsch laconic lugubrious magniloquence maudlin nefarious obfuscation
+obsequious panacea perspicacity piffle quixotic quixotism recalcitrance redoubtable snark sublimate sycophant
+thrum tintinnabulation trundle truculent ubiquity ululate umber verisimilitude weltschmerz xenophobia zeitgeist
+`;
+
+// Irregular forms the suffix rules below cannot derive
+const irregularForms = `
+am been went gone saw seen done said took taken came gave given got gotten told felt kept held brought bought
+began begun ran wrote written knew known stood sat lay lain men women feet teeth mice geese my me mine thought
+caught taught sought fought built sent spent lent meant dealt dreamt learnt slept swept wept crept fled led fed
+bred sped met shot lost paid laid sold won hung spun struck stuck swung dug drew drawn drove driven rode ridden
+rose risen spoke spoken stole stolen chose chosen froze frozen woke woken broke broken forgot forgotten ate eaten
+fell fallen flew flown grew grown threw thrown blew blown wore worn tore torn swore sworn bore borne hid hidden
+bit bitten shook shaken sang sung rang rung sank sunk swam swum drank drunk shrank shrunk sprang sprung
+`;
+
+const tokenize = (text: string) => text.toLowerCase().match(/[a-z]+/g) || [];
+
+const contentText = [
+  ...realWords.map(w => w.word),
+  ...photoWords.map(w => w.word),
+  ...transitionWords.map(w => w.word),
+  ...paragraphBank.map(p => p.text),
+  ...readingPassages.flatMap(p => [p.text, p.highlight?.answer || '', ...(p.mainIdea?.options || [])]),
+  ...writingPrompts.map(p => p.prompt),
+  ...photoBank.flatMap(p => [...p.people, ...p.objects, ...p.descriptions])
+].join(' ');
+
+export const lexiconWords: string[] = Array.from(new Set([...tokenize(commonWords), ...tokenize(irregularForms), ...tokenize(contentText)]))
+  .filter(word => word.length > 1 || word === 'a');
+
+const lexicon = new Set(lexiconWords);
+
+// Inflections and derivations the list does not spell out: "-s", "-ed", "-ing", "-ly", ...
+const suffixes = ['s', 'es', 'ies', 'ed', 'd', 'ied', 'ing', 'er', 'ers', 'est', 'ly', 'ily', 'ness', 'ment', 'ments', 'ion', 'ions', 'al', 'ity', 'ful', 'less'];
+
+const stemCandidates = (word: string, suffix: string): string[] => {
+  const stem = word.slice(0, -suffix.length);
+  if (stem.length < 2) return [];
+  const candidates = [stem, stem + 'e'];
+  if (suffix.startsWith('i')) candidates.push(stem + 'y');
+  if (/([b-df-hj-np-tv-z])\1$/.test(stem)) candidates.push(stem.slice(0, -1)); // stopped -> stop
+  return candidates;
+};
+
+export const isEnglishWord = (word: string): boolean => {
+  const lower = word.toLowerCase();
+  if (lexicon.has(lower)) return true;
+  return suffixes.some(suffix =>
+    lower.endsWith(suffix) && stemCandidates(lower, suffix).some(stem => lexicon.has(stem))
+  );
+};
@@ -0,0 +1,89 @@
+import { alignSequences } from "./textDiff";
+
+// Character-level scoring for "Listen and Type". Mistakes typical of
+// dysorthography (vowel swaps, doubled/undoubled letters, swapped neighbours)
+// cost half as much as other errors, so the score reflects listening more than spelling.
+
+export type CharDiffType = 'match' | 'minor' | 'wrong' | 'missing' | 'extra';
+
+export interface CharDiffSegment {
+  type: CharDiffType;
+  expected: string; // Characters from the sentence ('' for extra characters)
+  actual: string;   // Characters the learner typed ('' for missing characters)
+}
+
+export interface ListenTypeScore {
+  segments: CharDiffSegment[];
+  score: number; // 0-100
+  minorErrors: number;
+  majorErrors: number;
+}
+
+const MINOR_COST = 0.5;
+const VOWELS = 'aeiouy';
+
+export const normalizeForDictation = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const scoreListenType = (target: string, typed: string): ListenTypeScore => {
+  const expected = normalizeForDictation(target).split('');
+  const actual = normalizeForDictation(typed).split('');
+  const ops = alignSequences(expected, actual);
+
+  const chars: CharDiffSegment[] = [];
+  // Positions in `expected` / `actual` of the op being processed
+  let e = 0;
+  let a = 0;
+  const isDoubling = (seq: string[], pos: number) => seq[pos - 1] === seq[pos] || seq[pos + 1] === seq[pos];
+
+  for (let k = 0; k < ops.length; k++) {
+    const op = ops[k];
+    const next = ops[k + 1];
+
+    // Two swapped neighbours ("recieve") show up as two substitutions
+    if (op.type === 'substitution' && next?.type === 'substitution' && op.expected === next.actual && op.actual === next.expected) {
+      chars.push({ type: 'minor', expected: op.expected + next.expected, actual: op.actual + next.actual });
+      e += 2;
+      a += 2;
+      k++;
+      continue;
+    }
+
+    if (op.type === 'match') {
+      chars.push({ type: 'match', expected: op.expected, actual: op.actual });
+      e++;
+      a++;
+    } else if (op.type === 'substitution') {
+      const vowelSwap = VOWELS.includes(op.expected) && VOWELS.includes(op.actual);
+      chars.push({ type: vowelSwap ? 'minor' : 'wrong', expected: op.expected, actual: op.actual });
+      e++;
+      a++;
+    } else if (op.type === 'missing') {
+      // A dropped letter that repeats its neighbour ("acomodate") is a doubling slip
+      chars.push({ type: isDoubling(expected, e) ? 'minor' : 'missing', expected: op.expected, actual: '' });
+      e++;
+    } else {
+      chars.push({ type: isDoubling(actual, a) ? 'minor' : 'extra', expected: '', actual: op.actual });
+      a++;
+    }
+  }
+
+  const minorErrors = chars.filter(c => c.type === 'minor').length;
+  const majorErrors = chars.filter(c => c.type !== 'match' && c.type !== 'minor').length;
+  const cost = minorErrors * MINOR_COST + majorErrors;
+  const score = expected.length ? Math.max(0, Math.round((1 - cost / expected.length) * 100)) : 0;
+
+  // Merge neighbouring characters of the same type for display
+  const segments: CharDiffSegment[] = [];
+  chars.forEach(c => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === c.type) {
+      last.expected += c.expected;
+      last.actual += c.actual;
+    } else {
+      segments.push({ ...c });
+    }
+  });
+
+  return { segments, score, minorErrors, majorErrors };
+};
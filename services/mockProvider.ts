@@ -0,0 +1,171 @@
+import { WordDef, realWords, photoWords, transitionWordsList, paragraphBank, readingPassages } from "../data";
+import { buildSentence } from "./sentenceBank";
+import { findConnectors, MIN_WORDS, TARGET_WORDS } from "./writingSample";
+import { advancedWordsIn, mechanicsCorrections, scorePhotoDescription } from "./heuristicScorer";
+import type { AiProvider } from "./aiProvider";
+
+// Offline provider: rule-based, deterministic content built from data.ts.
+
+const allWords = [...realWords, ...photoWords, ...transitionWordsList];
+
+// Answered for words that have no translation in data.ts
+export const MISSING_TRANSLATION = "...";
+
+const findWord = (word: string) =>
+  allWords.find(w => w.word.toLowerCase() === word.toLowerCase()) || { word, type: "n.", level: "B2" };
+
+// Rubric scores (0-5) from word count, sentence shape, connectors, vocabulary and mechanics
+const evaluateWriting = (question: string, userText: string) => {
+  const text = userText.toLowerCase();
+  const tokens = text.match(/[a-z']+/g) || [];
+  const wordCount = tokens.length;
+  const sentences = userText.split(/(?<=[.!?])\s+/).filter(s => s.trim());
+  const averageLength = sentences.length ? wordCount / sentences.length : 0;
+  const keywords = (question.toLowerCase().match(/[a-z]{5,}/g) || []).filter(w => text.includes(w));
+  const connectors = findConnectors(userText);
+  const advancedWords = advancedWordsIn(text);
+  const variety = wordCount ? new Set(tokens).size / wordCount : 0;
+  const corrections = mechanicsCorrections(userText);
+
+  const lengthScore = wordCount < MIN_WORDS ? Math.floor(wordCount / 20) : wordCount < TARGET_WORDS ? 3 : wordCount < TARGET_WORDS * 1.5 ? 4 : 5;
+  const taskCompletion = Math.max(0, lengthScore - (keywords.length === 0 ? 1 : 0));
+  const coherence = Math.min(5, Math.floor(sentences.length / 2) + (averageLength >= 8 && averageLength <= 25 ? 2 : 0));
+  const transitions = [0, 2, 3, 4, 5][Math.min(connectors.length, 4)];
+  const lexicalRange = Math.min(5, Math.round(variety * 3) + Math.min(advancedWords.length, 2));
+  const spelling = wordCount === 0 ? 0 : Math.max(0, 5 - corrections.length);
+
+  return {
+    criteria: {
+      taskCompletion: {
+        score: taskCompletion,
+        comment: `You wrote ${wordCount} words (aim for at least ${TARGET_WORDS}).${keywords.length === 0 ? " Refer back to the question more directly." : ""}`
+      },
+      coherence: {
+        score: coherence,
+        comment: `${sentences.length} sentences with about ${Math.round(averageLength)} words each.${averageLength > 25 ? " Split your longest sentences." : ""}`
+      },
+      transitions: {
+        score: transitions,
+        comment: connectors.length > 0
+          ? `You used ${connectors.map(c => c.word).join(", ")}.`
+          : "Link your ideas with connectors such as \"Furthermore\" or \"Consequently\"."
+      },
+      lexicalRange: {
+        score: lexicalRange,
+        comment: advancedWords.length > 0
+          ? `Good B2/C1 vocabulary (${advancedWords.slice(0, 3).map(w => w.word).join(", ")}).`
+          : "Try to include some B2/C1 vocabulary."
+      },
+      spelling: {
+        score: spelling,
+        comment: corrections.length === 0 ? "No capitalisation or punctuation problems found." : `${corrections.length} problem(s) to fix below.`
+      }
+    },
+    summary: `Overall, ${wordCount >= TARGET_WORDS ? "a well-developed answer" : "a good start that needs more development"}. Focus on the criteria with the lowest scores.`,
+    corrections
+  };
+};
+
+// --- Offline rewrites ---
+
+const formalReplacements: [string, string][] = [
+  ["don't", "do not"], ["doesn't", "does not"], ["didn't", "did not"], ["can't", "cannot"], ["won't", "will not"],
+  ["isn't", "is not"], ["aren't", "are not"], ["it's", "it is"], ["I'm", "I am"], ["they're", "they are"], ["we're", "we are"],
+  ["a lot of", "a great deal of"], ["lots of", "numerous"], ["kids", "children"], ["buy", "purchase"], ["help", "assist"],
+  ["need", "require"], ["show", "demonstrate"], ["think", "believe"], ["really", "particularly"], ["maybe", "perhaps"],
+  ["get", "obtain"], ["gets", "obtains"], ["ok", "acceptable"]
+];
+
+// Upgrades point to words from the vocabulary lists, so they can be saved with their translation
+const advancedReplacements: [string, string][] = [
+  ["very important", "fundamental"], ["important", "significant"], ["good for", "beneficial for"], ["enough", "adequate"],
+  ["get", "acquire"], ["common", "widespread"], ["real", "genuine"], ["easy", "straightforward"], ["amazing", "extraordinary"],
+  ["interesting", "fascinating"], ["check", "assess"], ["expect", "anticipate"], ["same", "identical"], ["needed", "required"],
+  ["main", "major"], ["problem", "issue"], ["idea", "concept"], ["show", "demonstrate"], ["find", "identify"]
+];
+
+const conciseReplacements: [string, string][] = [
+  ["it is important to note that", ""], ["due to the fact that", "because"], ["at this point in time", "now"],
+  ["in order to", "to"], ["really", ""], ["very", ""], ["actually", ""], ["basically", ""],
+  ["just", ""], ["quite", ""]
+];
+
+const escapePattern = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Replaces whole words or phrases, keeping a capital first letter; returns the replacements that were used
+const applyReplacements = (text: string, replacements: [string, string][]) => {
+  const used: string[] = [];
+  const result = replacements.reduce((current, [from, to]) =>
+    current.replace(new RegExp(`\\b${escapePattern(from)}(?![\\w'])`, 'gi'), match => {
+      used.push(to);
+      return /^[A-Z]/.test(match) && to ? to[0].toUpperCase() + to.slice(1) : to;
+    }), text);
+  return { text: result.replace(/\s{2,}/g, ' ').trim().replace(/(^|[.!?]\s+)([a-z])/g, (_, start, letter) => start + letter.toUpperCase()), used };
+};
+
+const lowerFirst = (sentence: string) => (/^I\b/.test(sentence) ? sentence : sentence[0].toLowerCase() + sentence.slice(1));
+
+const addTransition = (text: string) => {
+  if (/,?\s+but\s+/i.test(text)) return { text: text.replace(/,?\s+but\s+/i, "; however, "), connector: "However" };
+  const sentences = text.trim().split(/(?<=[.!?])\s+/);
+  if (sentences.length >= 2) {
+    sentences[1] = `Furthermore, ${lowerFirst(sentences[1])}`;
+    return { text: sentences.join(" "), connector: "Furthermore" };
+  }
+  return { text: `Ultimately, ${lowerFirst(text.trim())}`, connector: "Ultimately" };
+};
+
+const knownWords = (words: string[]) =>
+  [...new Set(words.flatMap(w => w.split(" ")))]
+    .map(w => allWords.find(def => def.word.toLowerCase() === w.toLowerCase()))
+    .filter((def): def is WordDef => !!def);
+
+const rewriteOffline = (text: string) => {
+  const formal = applyReplacements(text, formalReplacements);
+  const advanced = applyReplacements(text, advancedReplacements);
+  const concise = applyReplacements(text, conciseReplacements);
+  const transition = addTransition(text);
+  return {
+    rewrites: [
+      { style: 'formal', text: formal.text, newWords: knownWords(formal.used) },
+      { style: 'advanced', text: advanced.text, newWords: knownWords(advanced.used) },
+      { style: 'concise', text: concise.text, newWords: [] },
+      { style: 'transition', text: transition.text, newWords: knownWords([transition.connector]) }
+    ]
+  };
+};
+
+let paragraphCursor = 0;
+let passageCursor = 0;
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Offline (local content)',
+  multimodal: false,
+  generateJson: async (request) => {
+    switch (request.task) {
+      case 'photoEvaluation':
+        return scorePhotoDescription(request.input.userText, request.input.photo);
+      case 'fillInBlank':
+        return { sentence: buildSentence(findWord(request.input.word)), missingWord: request.input.word };
+      case 'paragraph': {
+        const paragraph = paragraphBank[paragraphCursor % paragraphBank.length];
+        paragraphCursor++;
+        return { ...paragraph };
+      }
+      case 'readingPassage': {
+        const passage = readingPassages[passageCursor % readingPassages.length];
+        passageCursor++;
+        return { ...passage };
+      }
+      case 'wordDetails': {
+        const word = findWord(request.input.word);
+        return { translation: word.translation || MISSING_TRANSLATION, example: buildSentence(word) };
+      }
+      case 'writingSample':
+        return evaluateWriting(request.input.question, request.input.userText);
+      case 'rewrite':
+        return rewriteOffline(request.input.text);
+    }
+  }
+};
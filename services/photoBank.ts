@@ -0,0 +1,302 @@
+import { BankPhoto, PhotoCategory, photoBank } from "../data";
+import { createRandom, pick } from "./random";
+
+// Offline pictures for the photo tasks: flat illustrations drawn as SVG, so they ship with the
+// app and match the metadata in `photoBank` exactly. Every scene follows the DET layout of a
+// clear foreground and background.
+
+export const photoCategoryLabels: Record<PhotoCategory, string> = {
+  city: 'City life',
+  nature: 'Nature',
+  home: 'At home',
+  work: 'At work',
+  leisure: 'Leisure'
+};
+
+export const photosIn = (category?: PhotoCategory) =>
+  category ? photoBank.filter(photo => photo.category === category) : photoBank;
+
+export const pickPhoto = (seed: number, category?: PhotoCategory) => pick(photosIn(category), createRandom(seed));
+
+// --- Drawing helpers ---
+
+const WIDTH = 600;
+const HEIGHT = 400;
+
+type Attrs = Record<string, string | number>;
+
+const shape = (tag: string, attrs: Attrs) =>
+  `<${tag} ${Object.entries(attrs).map(([key, value]) => `${key}="${value}"`).join(' ')}/>`;
+
+const rect = (x: number, y: number, width: number, height: number, fill: string, rx = 0) => shape('rect', { x, y, width, height, fill, rx });
+const circle = (cx: number, cy: number, r: number, fill: string) => shape('circle', { cx, cy, r, fill });
+const ellipse = (cx: number, cy: number, rx: number, ry: number, fill: string) => shape('ellipse', { cx, cy, rx, ry, fill });
+const polygon = (points: string, fill: string) => shape('polygon', { points, fill });
+const line = (x1: number, y1: number, x2: number, y2: number, stroke: string, width: number) =>
+  shape('line', { x1, y1, x2, y2, stroke, 'stroke-width': width, 'stroke-linecap': 'round' });
+
+const sky = (top: string, bottom: string) =>
+  `<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${top}"/><stop offset="1" stop-color="${bottom}"/></linearGradient></defs>` +
+  rect(0, 0, WIDTH, HEIGHT, 'url(#sky)');
+
+const SKIN = ['#f1c27d', '#e0ac69', '#c68642', '#8d5524'];
+
+interface PersonStyle {
+  skin?: string;
+  legs?: string;
+  hat?: string;     // Helmet or cap colour
+  armUp?: boolean;  // Right arm raised: waving, pointing, cheering
+}
+
+// A standing figure, feet at (x, y)
+const person = (x: number, y: number, height: number, shirt: string, style: PersonStyle = {}) => {
+  const { skin = SKIN[1], legs = '#34495e', hat, armUp } = style;
+  const head = height * 0.12;
+  const top = y - height + head * 2;
+  const bodyHeight = height * 0.42;
+  const hips = top + bodyHeight;
+  const width = height * 0.26;
+  return [
+    rect(x - width * 0.42, hips - 2, width * 0.36, y - hips + 2, legs, 2),
+    rect(x + width * 0.06, hips - 2, width * 0.36, y - hips + 2, legs, 2),
+    line(x - width / 2, top + 4, x - width * 0.7, hips, shirt, width * 0.22),
+    armUp ? line(x + width / 2, top + 4, x + width * 0.8, top - height * 0.22, shirt, width * 0.22)
+      : line(x + width / 2, top + 4, x + width * 0.7, hips, shirt, width * 0.22),
+    rect(x - width / 2, top, width, bodyHeight, shirt, width * 0.25),
+    circle(x, top - head * 0.9, head, skin),
+    hat ? ellipse(x, top - head * 1.4, head * 1.1, head * 0.6, hat) : ''
+  ].join('');
+};
+
+// Head and shoulders of someone sitting behind a table whose top edge is at y
+const seated = (x: number, y: number, height: number, shirt: string, skin = SKIN[1]) => {
+  const head = height * 0.22;
+  return rect(x - height * 0.3, y - height * 0.6, height * 0.6, height * 0.6, shirt, height * 0.12) +
+    circle(x, y - height * 0.6 - head * 0.9, head, skin);
+};
+
+const tree = (x: number, y: number, height: number, leaves = '#3f8f4a') =>
+  rect(x - height * 0.05, y - height * 0.5, height * 0.1, height * 0.5, '#7a5230') +
+  circle(x, y - height * 0.65, height * 0.3, leaves) +
+  circle(x - height * 0.18, y - height * 0.55, height * 0.2, leaves) +
+  circle(x + height * 0.18, y - height * 0.55, height * 0.2, leaves);
+
+const pine = (x: number, y: number, height: number, color = '#1f5b3a') =>
+  rect(x - 4, y - height * 0.15, 8, height * 0.15, '#5d4030') +
+  polygon(`${x},${y - height} ${x - height * 0.28},${y - height * 0.15} ${x + height * 0.28},${y - height * 0.15}`, color);
+
+const cloud = (x: number, y: number, size: number) =>
+  ellipse(x, y, size, size * 0.45, '#ffffff') + ellipse(x + size * 0.6, y + 4, size * 0.7, size * 0.35, '#ffffff');
+
+// A block with a grid of windows; lit windows at night
+const building = (x: number, top: number, width: number, bottom: number, color: string, windows = '#d6eaf8') => {
+  const parts = [rect(x, top, width, bottom - top, color)];
+  for (let wy = top + 12; wy < bottom - 24; wy += 26) {
+    for (let wx = x + 10; wx < x + width - 18; wx += 22) parts.push(rect(wx, wy, 12, 16, windows));
+  }
+  return parts.join('');
+};
+
+const awning = (x: number, y: number, width: number, colors: [string, string]) =>
+  Array.from({ length: 6 }, (_, i) =>
+    polygon(`${x + (i * width) / 6},${y} ${x + ((i + 1) * width) / 6},${y} ${x + ((i + 1) * width) / 6},${y + 28} ${x + (i * width) / 6},${y + 28}`, colors[i % 2])
+  ).join('');
+
+const fruitCrate = (x: number, y: number, fruit: string) =>
+  rect(x, y, 60, 26, '#a0522d', 3) + [8, 22, 36, 50].map(dx => circle(x + dx + 2, y - 2, 8, fruit)).join('');
+
+const svg = (...parts: string[]) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}">${parts.join('')}</svg>`;
+
+// --- Scenes ---
+
+const scenes: Record<string, () => string> = {
+  'street-market': () => svg(
+    sky('#6ec6ff', '#d6f0ff'),
+    cloud(90, 50, 34), cloud(420, 40, 28),
+    building(0, 90, 150, 300, '#e59866'), building(150, 60, 140, 300, '#f5cba7'), building(290, 100, 130, 300, '#d98880'), building(420, 70, 180, 300, '#f8c471'),
+    rect(0, 300, WIDTH, 100, '#bfbfbf'),
+    // Stall
+    rect(120, 200, 300, 12, '#8e5b3a'), awning(110, 172, 320, ['#e74c3c', '#fdfefe']),
+    line(120, 200, 120, 320, '#6e4b32', 6), line(420, 200, 420, 320, '#6e4b32', 6),
+    person(270, 300, 110, '#27ae60', { skin: SKIN[2] }),
+    rect(130, 280, 280, 40, '#8e5b3a'), fruitCrate(145, 290, '#c0392b'), fruitCrate(240, 290, '#e67e22'), fruitCrate(335, 290, '#c0392b'),
+    // Shoppers
+    person(470, 385, 150, '#8e44ad', { skin: SKIN[0], legs: '#2c3e50' }), rect(492, 320, 26, 32, '#f4d03f', 4),
+    person(70, 385, 150, '#2980b9', { skin: SKIN[3] }), person(115, 385, 85, '#f39c12', { skin: SKIN[3], armUp: true })
+  ),
+
+  'rush-hour': () => svg(
+    sky('#a9cce3', '#eaf2f8'),
+    building(20, 40, 90, 260, '#5d6d7e'), building(120, 10, 110, 260, '#34495e'), building(370, 30, 100, 260, '#566573'), building(480, 60, 110, 260, '#2e4053'),
+    rect(0, 250, WIDTH, 150, '#555555'),
+    // Bus and traffic light
+    rect(250, 170, 190, 90, '#c0392b', 10), ...[265, 305, 345, 385].map(wx => rect(wx, 182, 32, 30, '#d6eaf8', 3)), circle(285, 262, 14, '#222222'), circle(405, 262, 14, '#222222'),
+    rect(520, 120, 8, 150, '#2c3e50'), rect(510, 110, 28, 62, '#1c2833', 4), circle(524, 124, 7, '#e74c3c'), circle(524, 141, 7, '#5d6d7e'), circle(524, 158, 7, '#5d6d7e'),
+    // Zebra crossing
+    ...Array.from({ length: 8 }, (_, i) => rect(20 + i * 72, 320, 44, 80, '#f4f6f6')),
+    person(130, 390, 140, '#212f3d', { skin: SKIN[1] }), rect(150, 330, 30, 22, '#6e2c00', 3),
+    person(260, 385, 135, '#e74c3c', { skin: SKIN[0], legs: '#17202a' }), rect(272, 305, 10, 16, '#17202a', 2),
+    person(380, 392, 145, '#1abc9c', { skin: SKIN[2] }), person(470, 388, 130, '#f1c40f', { skin: SKIN[3] })
+  ),
+
+  'mountain-lake': () => svg(
+    sky('#5dade2', '#d4efff'),
+    cloud(120, 60, 30), cloud(460, 80, 36),
+    polygon('0,260 140,90 280,260', '#7f8c8d'), polygon('110,140 140,90 170,140', '#ffffff'),
+    polygon('180,260 360,60 540,260', '#95a5a6'), polygon('320,105 360,60 400,105', '#ffffff'),
+    polygon('420,260 540,130 660,260', '#7f8c8d'), polygon('515,158 540,130 565,158', '#ffffff'),
+    rect(0, 255, WIDTH, 145, '#2e86c1'),
+    polygon('180,260 360,380 540,260', '#5499c7'),
+    ...[30, 70, 110, 490, 530, 570].map((x, i) => pine(x, 275 + (i % 2) * 10, 110)),
+    // Canoe
+    polygon('230,330 390,330 370,350 250,350', '#c0392b'),
+    seated(280, 332, 40, '#f39c12', SKIN[0]), seated(340, 332, 40, '#2ecc71', SKIN[2]),
+    line(300, 300, 320, 360, '#7e5109', 4)
+  ),
+
+  'beach-sunset': () => svg(
+    sky('#f5b041', '#fad7a0'),
+    circle(300, 210, 60, '#f9e79f'),
+    rect(0, 210, WIDTH, 90, '#e67e22'), rect(0, 212, WIDTH, 88, '#2874a6'),
+    ...[40, 150, 260, 370, 480].map(x => ellipse(x + 40, 250, 40, 4, '#5dade2')),
+    line(150, 80, 165, 72, '#1c2833', 3), line(165, 72, 180, 80, '#1c2833', 3), line(420, 60, 432, 53, '#1c2833', 3), line(432, 53, 444, 60, '#1c2833', 3),
+    rect(0, 290, WIDTH, 110, '#f7dc6f'),
+    // Palm tree and umbrella
+    line(530, 380, 500, 180, '#7e5109', 10), ellipse(470, 180, 50, 14, '#1e8449'), ellipse(530, 175, 50, 14, '#229954'), ellipse(500, 165, 14, 45, '#1e8449'),
+    line(120, 380, 120, 250, '#5d6d7e', 4), polygon('50,265 120,230 190,265', '#e74c3c'), polygon('85,265 120,230 155,265', '#ffffff'),
+    // Family and sandcastle
+    rect(210, 340, 60, 30, '#d4ac0d'), rect(225, 320, 30, 20, '#d4ac0d'), polygon('225,320 240,305 255,320', '#d4ac0d'),
+    person(180, 385, 120, '#3498db', { skin: SKIN[1] }), person(300, 385, 75, '#e74c3c', { skin: SKIN[1], armUp: true }),
+    // Dog walker on the shore
+    person(420, 320, 70, '#8e44ad', { skin: SKIN[3] }), ellipse(445, 314, 12, 6, '#6e2c00'), circle(456, 308, 5, '#6e2c00')
+  ),
+
+  'family-dinner': () => svg(
+    rect(0, 0, WIDTH, HEIGHT, '#fdebd0'),
+    rect(0, 300, WIDTH, 100, '#a04000'),
+    // Window at night and picture frame
+    rect(400, 60, 150, 120, '#1b2631', 4), line(475, 60, 475, 180, '#fdebd0', 6), line(400, 120, 550, 120, '#fdebd0', 6),
+    rect(70, 70, 90, 70, '#7e5109', 3), rect(80, 80, 70, 50, '#85c1e9'), polygon('80,130 110,100 150,130', '#52be80'),
+    // Hanging lamp
+    line(300, 0, 300, 90, '#1c2833', 3), polygon('270,115 300,90 330,115', '#f4d03f'), ellipse(300, 118, 30, 5, '#f9e79f'),
+    // People around the table
+    seated(170, 260, 90, '#2e86c1', SKIN[0]), seated(430, 260, 90, '#28b463', SKIN[1]),
+    person(250, 300, 150, '#884ea0', { skin: SKIN[0], armUp: true }), person(360, 262, 80, '#e74c3c', { skin: SKIN[1], armUp: true }),
+    rect(385, 172, 12, 20, '#aed6f1', 2),
+    // Table
+    rect(100, 255, 400, 18, '#6e2c00', 4), rect(120, 273, 12, 90, '#6e2c00'), rect(468, 273, 12, 90, '#6e2c00'),
+    ellipse(180, 252, 30, 6, '#fdfefe'), ellipse(420, 252, 30, 6, '#fdfefe'), ellipse(300, 246, 45, 14, '#58d68d'), ellipse(300, 252, 50, 8, '#ffffff'),
+    rect(220, 232, 10, 20, '#d6eaf8', 2), rect(370, 232, 10, 20, '#d6eaf8', 2)
+  ),
+
+  'late-study': () => svg(
+    rect(0, 0, WIDTH, HEIGHT, '#5b4a7a'),
+    rect(0, 320, WIDTH, 80, '#3e2f5b'),
+    // Window with the moon
+    rect(60, 50, 160, 130, '#1b2038', 4), circle(170, 95, 22, '#f7f9f9'), circle(180, 88, 20, '#1b2038'), line(140, 50, 140, 180, '#5b4a7a', 5),
+    // Bookshelf and plant
+    rect(440, 40, 130, 250, '#6e4b32'), ...[80, 150, 220].map(y => rect(445, y, 120, 6, '#4a3222')),
+    ...[455, 475, 495, 520, 540].map((x, i) => rect(x, 48 + (i % 2) * 6, 16, 30 - (i % 2) * 6, ['#c0392b', '#2980b9', '#27ae60', '#f1c40f', '#8e44ad'][i])),
+    ...[455, 480, 505, 530].map((x, i) => rect(x, 120 + (i % 2) * 4, 20, 28 - (i % 2) * 4, ['#e67e22', '#16a085', '#d35400', '#2c3e50'][i])),
+    rect(30, 280, 40, 45, '#935116', 4), ellipse(40, 265, 18, 26, '#27ae60'), ellipse(62, 262, 14, 24, '#229954'),
+    // Desk, student, laptop, lamp, books, mug
+    seated(260, 250, 100, '#2471a3', SKIN[2]),
+    rect(120, 250, 340, 14, '#935116', 3), rect(140, 264, 12, 80, '#6e2c00'), rect(428, 264, 12, 80, '#6e2c00'),
+    polygon('300,250 380,250 390,200 310,200', '#aab7b8'), rect(290, 246, 110, 6, '#7f8c8d', 2), polygon('318,206 382,206 374,242 312,242', '#85c1e9'),
+    line(160, 248, 160, 190, '#1c2833', 4), line(160, 190, 195, 175, '#1c2833', 4), polygon('185,170 215,170 222,190 178,190', '#f4d03f'),
+    polygon('178,190 222,190 260,250 140,250', 'rgba(249,231,159,0.35)'),
+    rect(410, 236, 40, 12, '#c0392b'), rect(412, 224, 36, 12, '#2980b9'), rect(408, 212, 40, 12, '#27ae60'),
+    rect(215, 230, 18, 20, '#ecf0f1', 3)
+  ),
+
+  'construction-site': () => svg(
+    sky('#85c1e9', '#ebf5fb'),
+    cloud(480, 50, 30),
+    // Crane
+    rect(110, 40, 14, 260, '#f1c40f'), rect(60, 40, 300, 12, '#f1c40f'), line(320, 52, 320, 140, '#1c2833', 2), rect(308, 140, 24, 16, '#7f8c8d'), rect(70, 52, 30, 20, '#566573'),
+    // Unfinished building with scaffolding
+    rect(340, 110, 220, 200, '#aeb6bf'), ...[130, 180, 230].map(y => rect(350, y, 200, 30, '#85929e')),
+    ...[340, 395, 450, 505, 560].map(x => line(x, 100, x, 310, '#935116', 4)), ...[160, 215, 270].map(y => line(335, y, 565, y, '#935116', 4)),
+    rect(0, 300, WIDTH, 100, '#b7950b'),
+    // Bricks and wheelbarrow
+    ...[0, 1, 2].map(row => [0, 1, 2 - row].map(col => rect(60 + col * 26 + row * 13, 350 - row * 12, 24, 11, '#a93226', 1)).join('')),
+    polygon('450,340 520,340 505,365 460,365', '#5d6d7e'), circle(470, 372, 10, '#1c2833'), line(520, 342, 560, 360, '#5d6d7e', 5),
+    // Workers with the plan
+    person(230, 385, 150, '#e67e22', { skin: SKIN[1], hat: '#f4d03f', armUp: true }), person(330, 385, 150, '#e67e22', { skin: SKIN[3], hat: '#f4d03f' }),
+    rect(255, 300, 60, 40, '#d6eaf8', 2), line(265, 312, 305, 312, '#2e86c1', 2), line(265, 324, 295, 324, '#2e86c1', 2)
+  ),
+
+  'coffee-shop': () => svg(
+    rect(0, 0, WIDTH, HEIGHT, '#f6ddcc'),
+    // Menu board and lights
+    rect(150, 40, 300, 110, '#1c2833', 6), ...[62, 84, 106, 128].map((y, i) => line(175, y, 175 + [200, 160, 220, 140][i], y, '#fdfefe', 3)),
+    ...[90, 300, 510].map(x => line(x, 0, x, 40, '#1c2833', 2) + polygon(`${x - 18},60 ${x},40 ${x + 18},60`, '#d4ac0d') + circle(x, 64, 6, '#f9e79f')),
+    // Barista and coffee machine
+    person(210, 300, 140, '#6e2c00', { skin: SKIN[2], armUp: true }),
+    rect(260, 180, 110, 90, '#95a5a6', 6), rect(272, 192, 86, 30, '#5d6d7e', 3), rect(300, 235, 30, 10, '#2c3e50'), rect(305, 250, 20, 18, '#ffffff', 3),
+    // Counter with cups and cakes
+    rect(0, 270, WIDTH, 130, '#784212'), rect(0, 262, WIDTH, 14, '#a04000'),
+    ...[90, 115, 140].map(x => rect(x, 244, 18, 18, '#fdfefe', 3)),
+    rect(400, 222, 120, 40, 'rgba(214,234,248,0.6)', 4), ellipse(430, 252, 16, 8, '#f5b7b1'), ellipse(470, 252, 16, 8, '#a04000'),
+    // Customer
+    person(560, 400, 190, '#16a085', { skin: SKIN[0] })
+  ),
+
+  'park-football': () => svg(
+    sky('#7fb3d5', '#d6eaf8'),
+    tree(60, 230, 160), tree(170, 220, 140, '#2e8b57'), tree(470, 225, 150), tree(560, 230, 130, '#2e8b57'),
+    rect(0, 220, WIDTH, 180, '#58d68d'),
+    // Bench
+    rect(250, 200, 100, 8, '#7e5109'), rect(250, 188, 100, 6, '#7e5109'), rect(258, 208, 6, 16, '#4d3319'), rect(336, 208, 6, 16, '#4d3319'),
+    // Goal and players
+    line(420, 300, 420, 250, '#ffffff', 4), line(500, 300, 500, 250, '#ffffff', 4), line(420, 250, 500, 250, '#ffffff', 4),
+    person(300, 300, 80, '#e74c3c', { skin: SKIN[2], armUp: true }), person(360, 305, 75, '#3498db', { skin: SKIN[0] }), person(450, 298, 72, '#f1c40f', { skin: SKIN[3], armUp: true }),
+    circle(333, 298, 7, '#ffffff'),
+    // Picnic
+    polygon('40,350 250,350 280,395 10,395', '#e74c3c'), ...[60, 120, 180].map(x => rect(x, 355, 30, 40, 'rgba(255,255,255,0.35)')),
+    seated(90, 370, 70, '#8e44ad', SKIN[1]), seated(190, 370, 70, '#16a085', SKIN[3]),
+    rect(125, 350, 40, 26, '#ca6f1e', 4), line(130, 350, 160, 350, '#873600', 3),
+    ellipse(270, 360, 16, 9, '#a0522d'), circle(284, 350, 7, '#a0522d')
+  ),
+
+  'night-concert': () => svg(
+    rect(0, 0, WIDTH, HEIGHT, '#0b0c2a'),
+    polygon('80,0 130,0 260,240 180,240', 'rgba(249,231,159,0.25)'), polygon('470,0 520,0 420,240 340,240', 'rgba(174,214,241,0.25)'), polygon('280,0 320,0 330,240 270,240', 'rgba(245,183,177,0.25)'),
+    ...[105, 300, 495].map(x => circle(x, 8, 12, '#fdfefe')),
+    // Stage and band
+    rect(60, 240, 480, 30, '#2c3e50'), rect(60, 236, 480, 6, '#5d6d7e'),
+    person(300, 240, 120, '#c0392b', { skin: SKIN[1], armUp: true }), line(318, 150, 326, 140, '#bdc3c7', 3),
+    person(180, 240, 110, '#1abc9c', { skin: SKIN[2] }), ellipse(185, 200, 24, 12, '#d35400'), line(195, 196, 235, 176, '#7e5109', 4),
+    circle(430, 215, 22, '#aab7b8'), circle(470, 222, 16, '#aab7b8'), seated(450, 205, 50, '#8e44ad', SKIN[3]),
+    // Crowd
+    ...Array.from({ length: 9 }, (_, i) => person(30 + i * 68, 420, 140 + (i % 3) * 12, ['#34495e', '#5d6d7e', '#283747'][i % 3], { skin: SKIN[i % 4], legs: '#17202a', armUp: i % 2 === 0 }))
+  )
+};
+
+const imageUrls = new Map<string, string>();
+
+// Data URL of the picture, usable directly as an <img> source
+export const photoImageUrl = (photo: BankPhoto) => {
+  if (!imageUrls.has(photo.id)) {
+    imageUrls.set(photo.id, `data:image/svg+xml;charset=utf-8,${encodeURIComponent(scenes[photo.id]())}`);
+  }
+  return imageUrls.get(photo.id)!;
+};
+
+// Models do not accept SVG, so the picture is rasterised for multimodal grading. Resolves with
+// base64 PNG data.
+export const photoToPng = (photo: BankPhoto): Promise<string> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const context = canvas.getContext('2d');
+    if (!context) return reject(new Error('Canvas is not available'));
+    context.drawImage(image, 0, 0, WIDTH, HEIGHT);
+    resolve(canvas.toDataURL('image/png').split(',')[1]);
+  };
+  image.onerror = () => reject(new Error(`Could not draw photo "${photo.id}"`));
+  image.src = photoImageUrl(photo);
+});
@@ -0,0 +1,116 @@
+// Optional PIN / passphrase per profile, plus one admin PIN per device to reset forgotten ones.
+// Only a salted PBKDF2 hash is stored. This keeps people sharing a computer out of each
+// other's progress; it is not encryption, and the data itself stays readable in localStorage.
+
+export const MIN_PIN_LENGTH = 4;
+
+const ITERATIONS = 100000;
+// Profile keys are det_<profile>_..., so a ':' keeps the admin PIN apart from any profile name
+const ADMIN_PIN_KEY = 'det:admin_pin';
+
+const pinKey = (profile: string) => `det_${profile}_pin`;
+
+export interface PinHash {
+  salt: string; // base64
+  hash: string; // base64
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (pin: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+const hashPin = async (pin: string): Promise<PinHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: toBase64(salt), hash: toBase64(await derive(pin, salt, ITERATIONS)), iterations: ITERATIONS };
+};
+
+// Compares every byte so the time taken does not depend on where the first difference is
+const matches = async (pin: string, stored: PinHash) => {
+  const expected = fromBase64(stored.hash);
+  const actual = await derive(pin, fromBase64(stored.salt), stored.iterations);
+  let diff = expected.length ^ actual.length;
+  for (let i = 0; i < Math.min(expected.length, actual.length); i++) diff |= expected[i] ^ actual[i];
+  return diff === 0;
+};
+
+const readHash = (key: string): PinHash | null => {
+  const saved = localStorage.getItem(key);
+  return saved ? JSON.parse(saved) : null;
+};
+
+export const isPinHash = (value: unknown): value is PinHash => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { salt, hash, iterations } = value as Record<string, unknown>;
+  return typeof salt === 'string' && typeof hash === 'string' && typeof iterations === 'number';
+};
+
+export const isValidPin = (pin: string) => pin.trim().length >= MIN_PIN_LENGTH;
+
+// --- Profile PINs ---
+
+export const isProfileProtected = (profile: string) => localStorage.getItem(pinKey(profile)) !== null;
+
+export type PinChangeListener = (profile: string, hash: PinHash | null) => void;
+
+const pinListeners: PinChangeListener[] = [];
+
+// Lets sync carry a PIN set or removed on this device to the others; returns an unsubscribe function
+export const onProfilePinChanged = (listener: PinChangeListener) => {
+  pinListeners.push(listener);
+  return () => {
+    pinListeners.splice(pinListeners.indexOf(listener), 1);
+  };
+};
+
+const writePinHash = (profile: string, hash: PinHash | null) => {
+  if (hash) localStorage.setItem(pinKey(profile), JSON.stringify(hash));
+  else localStorage.removeItem(pinKey(profile));
+};
+
+export const setProfilePin = async (profile: string, pin: string) => {
+  const hash = await hashPin(pin.trim());
+  writePinHash(profile, hash);
+  pinListeners.forEach(listener => listener(profile, hash));
+};
+
+export const removeProfilePin = (profile: string) => {
+  writePinHash(profile, null);
+  pinListeners.forEach(listener => listener(profile, null));
+};
+
+// For sync: the stored hash, and storing one that came from another device without reporting it back
+export const getProfilePinHash = (profile: string) => readHash(pinKey(profile));
+
+export const storeProfilePinHash = (profile: string, hash: PinHash | null) => writePinHash(profile, hash);
+
+// Unprotected profiles accept any PIN
+export const verifyProfilePin = async (profile: string, pin: string) => {
+  const stored = readHash(pinKey(profile));
+  return !stored || matches(pin.trim(), stored);
+};
+
+// --- Admin PIN ---
+
+export const hasAdminPin = () => localStorage.getItem(ADMIN_PIN_KEY) !== null;
+
+export const setAdminPin = async (pin: string) => {
+  localStorage.setItem(ADMIN_PIN_KEY, JSON.stringify(await hashPin(pin.trim())));
+};
+
+export const verifyAdminPin = async (pin: string) => {
+  const stored = readHash(ADMIN_PIN_KEY);
+  return !!stored && matches(pin.trim(), stored);
+};
+
+// The admin PIN removes a forgotten profile PIN; the progress itself is kept
+export const resetProfilePin = async (profile: string, adminPin: string) => {
+  if (!(await verifyAdminPin(adminPin))) return false;
+  removeProfilePin(profile);
+  return true;
+};
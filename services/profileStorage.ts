@@ -0,0 +1,374 @@
+import { WordDef } from "../data";
+import { SrsDeck, CardState, migrateKnownWords } from "./srsService";
+import { SpellingStats, emptySpellingStats, mergeSpellingStats } from "./spellingAnalyzer";
+import { AttemptRecord, mergeAttempts } from "./attemptHistory";
+import { CustomDeck } from "./deckImport";
+import { AbilityRatings, emptyAbilityRatings, mergeAbilityRatings } from "./adaptiveRating";
+import { PlanSettings } from "./studyPlanner";
+
+// Everything a learner's progress is made of, stored under `det_<profile>_<field>` keys.
+// Reads go through loadProfile, which upgrades data written by older versions first.
+
+export const SCHEMA_VERSION = 1;
+
+export interface ProfileData {
+  srs: SrsDeck;
+  completedDays: number[];
+  myWords: WordDef[];
+  spellingStats: SpellingStats;
+  attempts: AttemptRecord[];
+  customDecks: CustomDeck[];
+  abilityRatings: AbilityRatings;
+  planSettings: PlanSettings | null; // null until the learner sets an exam date
+}
+
+export type ProfileField = keyof ProfileData;
+
+interface FieldSpec<T> {
+  key: string;                                  // Suffix of the localStorage key
+  empty: () => T;
+  isValid: (value: unknown) => boolean;
+  merge: (current: T, incoming: T) => T;        // Combines this device's data with an imported copy
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCard = (value: unknown): value is CardState =>
+  isObject(value) && typeof value.word === 'string' && typeof value.due === 'string' &&
+  typeof value.interval === 'number' && typeof value.ease === 'number' && typeof value.reps === 'number';
+
+const isWordDef = (value: unknown): value is WordDef =>
+  isObject(value) && typeof value.word === 'string' && typeof value.type === 'string' && typeof value.level === 'string';
+
+const isCustomDeck = (value: unknown): value is CustomDeck =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+  Array.isArray(value.words) && value.words.every(isWordDef);
+
+const isAttempt = (value: unknown): value is AttemptRecord =>
+  isObject(value) && typeof value.id === 'string' && typeof value.activity === 'string' &&
+  typeof value.item === 'string' && typeof value.timestamp === 'number';
+
+const isDayKey = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isRating = (value: unknown) =>
+  isObject(value) && typeof value.value === 'number' && typeof value.attempts === 'number';
+
+const unionBy = <T>(items: T[], incoming: T[], keyOf: (item: T) => string) => {
+  const seen = new Set(items.map(keyOf));
+  return [...items, ...incoming.filter(item => !seen.has(keyOf(item)))];
+};
+
+// The card reviewed most recently wins; on the same day, the one with more successful reviews
+const newerCard = (a: CardState, b: CardState) => {
+  const dayA = a.lastReviewed || '';
+  const dayB = b.lastReviewed || '';
+  if (dayA !== dayB) return dayA > dayB ? a : b;
+  return b.reps > a.reps ? b : a;
+};
+
+const profileFields: { [K in ProfileField]: FieldSpec<ProfileData[K]> } = {
+  srs: {
+    key: 'srs',
+    empty: () => ({}),
+    isValid: value => isObject(value) && Object.values(value).every(isCard),
+    merge: (current, incoming) => {
+      const merged = { ...current };
+      Object.entries(incoming).forEach(([word, card]) => {
+        merged[word] = merged[word] ? newerCard(merged[word], card) : card;
+      });
+      return merged;
+    }
+  },
+  completedDays: {
+    key: 'completed_days',
+    empty: () => [],
+    isValid: value => Array.isArray(value) && value.every(day => typeof day === 'number'),
+    merge: (current, incoming) => [...new Set([...current, ...incoming])].sort((a, b) => a - b)
+  },
+  myWords: {
+    key: 'my_words',
+    empty: () => [],
+    isValid: value => Array.isArray(value) && value.every(isWordDef),
+    merge: (current, incoming) => unionBy(current, incoming, w => w.word.toLowerCase())
+  },
+  spellingStats: {
+    key: 'spelling_stats',
+    empty: emptySpellingStats,
+    isValid: value => isObject(value) && typeof value.attempts === 'number' && typeof value.mistakes === 'number' &&
+      isObject(value.byType) && isObject(value.words),
+    merge: mergeSpellingStats
+  },
+  attempts: {
+    key: 'attempts',
+    empty: () => [],
+    isValid: value => Array.isArray(value) && value.every(isAttempt),
+    merge: mergeAttempts
+  },
+  customDecks: {
+    key: 'custom_decks',
+    empty: () => [],
+    isValid: value => Array.isArray(value) && value.every(isCustomDeck),
+    merge: (current, incoming) => unionBy(current, incoming, deck => deck.id)
+  },
+  abilityRatings: {
+    key: 'ability_ratings',
+    empty: emptyAbilityRatings,
+    isValid: value => isObject(value) && isRating(value.learner) && isObject(value.items) && Object.values(value.items).every(isRating),
+    merge: mergeAbilityRatings
+  },
+  planSettings: {
+    key: 'plan_settings',
+    empty: () => null,
+    isValid: value => value === null || (isObject(value) && isDayKey(value.startDate) && isDayKey(value.examDate) &&
+      typeof value.dailyMinutes === 'number'),
+    merge: (current, incoming) => incoming || current
+  }
+};
+
+export const profileFieldNames = Object.keys(profileFields) as ProfileField[];
+
+// --- Migrations ---
+
+// Stored values keyed by key suffix, as read from localStorage or an export file
+type RawProfile = Record<string, unknown>;
+
+// migrations[n] upgrades data from version n to n + 1. Version 0 is data saved before versioning existed.
+const migrations: ((raw: RawProfile) => RawProfile)[] = [
+  // 0 -> 1: the binary "I Know It" list became spaced-repetition cards
+  raw => {
+    const { known_words: knownWords, ...rest } = raw;
+    if (!rest.srs && Array.isArray(knownWords)) rest.srs = migrateKnownWords(knownWords as string[]);
+    return rest;
+  }
+];
+
+const LEGACY_KEYS = ['known_words'];
+
+export const migrateProfile = (raw: RawProfile, fromVersion: number): RawProfile =>
+  migrations.slice(fromVersion).reduce((data, migrate) => migrate(data), raw);
+
+// --- localStorage ---
+
+const CURRENT_PROFILE_KEY = 'det_current_user';
+const PROFILE_INDEX_KEY = 'det_profiles';
+
+const storageKey = (profile: string, suffix: string) => `det_${profile}_${suffix}`;
+const versionKey = (profile: string) => storageKey(profile, 'schema_version');
+
+const readJson = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return undefined;
+  }
+};
+
+const readRaw = (profile: string): RawProfile => {
+  const raw: RawProfile = {};
+  [...profileFieldNames.map(field => profileFields[field].key), ...LEGACY_KEYS].forEach(suffix => {
+    const value = readJson(storageKey(profile, suffix));
+    if (value !== undefined) raw[suffix] = value;
+  });
+  return raw;
+};
+
+const assign = <K extends ProfileField>(data: ProfileData, field: K, value: ProfileData[K]) => {
+  data[field] = value;
+};
+
+// Keeps only valid fields; anything missing or corrupt starts empty
+const validField = <K extends ProfileField>(raw: RawProfile, field: K): ProfileData[K] => {
+  const spec = profileFields[field];
+  return spec.isValid(raw[spec.key]) ? raw[spec.key] as ProfileData[K] : spec.empty();
+};
+
+const fromRaw = (raw: RawProfile): ProfileData => {
+  const data = {} as ProfileData;
+  profileFieldNames.forEach(field => assign(data, field, validField(raw, field)));
+  return data;
+};
+
+const writeProfile = (profile: string, data: ProfileData) => {
+  profileFieldNames.forEach(field => saveProfileField(profile, field, data[field]));
+  LEGACY_KEYS.forEach(suffix => localStorage.removeItem(storageKey(profile, suffix)));
+  localStorage.setItem(versionKey(profile), String(SCHEMA_VERSION));
+};
+
+export const loadProfile = (profile: string): ProfileData => {
+  const version = Number(localStorage.getItem(versionKey(profile)) || 0);
+  const raw = readRaw(profile);
+  if (version >= SCHEMA_VERSION) return fromRaw(raw);
+  const data = fromRaw(migrateProfile(raw, version));
+  writeProfile(profile, data);
+  return data;
+};
+
+export type FieldSaveListener = <K extends ProfileField>(profile: string, field: K, value: ProfileData[K], previous: ProfileData[K]) => void;
+
+const saveListeners: FieldSaveListener[] = [];
+
+// Lets other layers (e.g. sync) observe every write; returns an unsubscribe function
+export const onProfileFieldSaved = (listener: FieldSaveListener) => {
+  saveListeners.push(listener);
+  return () => {
+    saveListeners.splice(saveListeners.indexOf(listener), 1);
+  };
+};
+
+export const saveProfileField = <K extends ProfileField>(profile: string, field: K, value: ProfileData[K]) => {
+  const key = storageKey(profile, profileFields[field].key);
+  const saved = saveListeners.length ? readJson(key) : undefined;
+  localStorage.setItem(key, JSON.stringify(value));
+  if (!saveListeners.length) return;
+  const previous = profileFields[field].isValid(saved) ? saved as ProfileData[K] : profileFields[field].empty();
+  saveListeners.forEach(listener => listener(profile, field, value, previous));
+};
+
+// --- Profile list ---
+
+export interface ProfileSummary {
+  name: string;
+  lastUsed: number | null;
+}
+
+type ProfileIndex = Record<string, { lastUsed: number }>;
+
+const readIndex = (): ProfileIndex => {
+  const index = readJson(PROFILE_INDEX_KEY);
+  const valid: ProfileIndex = {};
+  if (!isObject(index)) return valid;
+  Object.entries(index).forEach(([name, entry]) => {
+    if (isObject(entry) && typeof entry.lastUsed === 'number') valid[name] = { lastUsed: entry.lastUsed };
+  });
+  return valid;
+};
+
+// Every profile with data on this device, most recently used first.
+// Profiles created before the index existed are found from their keys.
+export const listProfiles = (): ProfileSummary[] => {
+  const index = readIndex();
+  const names = new Set(Object.keys(index));
+  const suffixes = [...profileFieldNames.map(field => profileFields[field].key), ...LEGACY_KEYS, 'schema_version'];
+  const pattern = new RegExp(`^det_(.+)_(${suffixes.join('|')})$`);
+  for (let i = 0; i < localStorage.length; i++) {
+    const match = pattern.exec(localStorage.key(i) || '');
+    if (match) names.add(match[1]);
+  }
+  return [...names]
+    .map(name => ({ name, lastUsed: index[name]?.lastUsed ?? null }))
+    .sort((a, b) => (b.lastUsed || 0) - (a.lastUsed || 0) || a.name.localeCompare(b.name));
+};
+
+export const getCurrentProfile = () => localStorage.getItem(CURRENT_PROFILE_KEY);
+
+export const setCurrentProfile = (profile: string | null) => {
+  if (profile === null) {
+    localStorage.removeItem(CURRENT_PROFILE_KEY);
+    return;
+  }
+  localStorage.setItem(CURRENT_PROFILE_KEY, profile);
+  localStorage.setItem(PROFILE_INDEX_KEY, JSON.stringify({ ...readIndex(), [profile]: { lastUsed: Date.now() } }));
+};
+
+export const deleteProfile = (profile: string) => {
+  [...profileFieldNames.map(field => profileFields[field].key), ...LEGACY_KEYS].forEach(suffix =>
+    localStorage.removeItem(storageKey(profile, suffix))
+  );
+  localStorage.removeItem(versionKey(profile));
+  const { [profile]: _removed, ...index } = readIndex();
+  localStorage.setItem(PROFILE_INDEX_KEY, JSON.stringify(index));
+  if (getCurrentProfile() === profile) setCurrentProfile(null);
+};
+
+// --- Export / import ---
+
+const EXPORT_FORMAT = 'det-master-profile';
+
+export interface ProfileExport {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  profile: string;
+  exportedAt: string; // ISO date
+  data: ProfileData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export class ProfileImportError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'ProfileImportError';
+    this.issues = issues;
+  }
+}
+
+export const isProfileImportError = (error: unknown): error is ProfileImportError => error instanceof ProfileImportError;
+
+export const exportProfile = (profile: string, now = new Date()): ProfileExport => ({
+  format: EXPORT_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  profile,
+  exportedAt: now.toISOString(),
+  data: loadProfile(profile)
+});
+
+export const exportFileName = (profile: string, now = new Date()) =>
+  `det-master-${profile.replace(/[^\w-]+/g, '_')}-${now.toISOString().slice(0, 10)}.json`;
+
+// Parses and validates an export file, upgrading it to the current schema
+export const parseProfileExport = (text: string): ProfileExport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ProfileImportError("This file is not valid JSON.");
+  }
+  if (!isObject(parsed) || parsed.format !== EXPORT_FORMAT) {
+    throw new ProfileImportError("This file is not a DET Master profile export.");
+  }
+  const version = parsed.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new ProfileImportError("The export has no valid schema version.");
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new ProfileImportError(`The export was made by a newer version of the app (schema ${version}). Update the app and try again.`);
+  }
+  if (!isObject(parsed.data)) throw new ProfileImportError("The export contains no profile data.");
+
+  // Export files use field names, storage uses key suffixes; migrations work on the latter
+  const raw: RawProfile = {};
+  Object.entries(parsed.data).forEach(([name, value]) => {
+    const spec = profileFields[name as ProfileField];
+    raw[spec ? spec.key : name] = value;
+  });
+  const migrated = migrateProfile(raw, version);
+
+  const issues = profileFieldNames
+    .filter(field => migrated[profileFields[field].key] !== undefined && !profileFields[field].isValid(migrated[profileFields[field].key]))
+    .map(field => `"${field}" is malformed`);
+  if (issues.length) throw new ProfileImportError("The export is damaged and was not imported.", issues);
+
+  return {
+    format: EXPORT_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    profile: typeof parsed.profile === 'string' ? parsed.profile : '',
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    data: fromRaw(migrated)
+  };
+};
+
+// Writes an export into `profile`, either combined with what is already there or instead of it
+export const importProfile = (profile: string, exported: ProfileExport, mode: ImportMode): ProfileData => {
+  const current = loadProfile(profile);
+  const mergeField = <K extends ProfileField>(field: K): ProfileData[K] =>
+    mode === 'replace' ? exported.data[field] : profileFields[field].merge(current[field], exported.data[field]);
+  const data = {} as ProfileData;
+  profileFieldNames.forEach(field => assign(data, field, mergeField(field)));
+  writeProfile(profile, data);
+  return data;
+};
@@ -0,0 +1,178 @@
+import { realWords, photoWords } from "../data";
+import { lexiconWords, isEnglishWord } from "./lexicon";
+import { Random, pick } from "./random";
+
+// English-looking non-words for the real-word test, generated fresh for every round so learners
+// cannot memorise them. Difficulty is the edit distance to the nearest real word: "easy" fakes
+// look invented, "hard" ones are near-miss spellings such as "tempolary".
+
+export type PseudoWordDifficulty = 'easy' | 'medium' | 'hard';
+
+export const pseudoWordDifficultyLabels: Record<PseudoWordDifficulty, { label: string; description: string }> = {
+  easy: { label: 'Easy', description: 'Invented words that look English but resemble no real word' },
+  medium: { label: 'Medium', description: 'Two letters away from a real word' },
+  hard: { label: 'Hard', description: 'Near-miss spellings, one letter away from a real word' }
+};
+
+export interface PseudoWord {
+  text: string;
+  nearestWord: string; // Closest real word, shown in the round summary
+  distance: number;
+}
+
+export const levenshtein = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), previous[j] + 1, current[j - 1] + 1);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// --- Letter trigram model ---
+
+const START = '^';
+const END = '$';
+
+type TrigramModel = Map<string, Map<string, number>>; // Two-letter context -> next letter -> weight
+
+// The test's own vocabulary counts more, so fakes pick up its academic endings (-tion, -ous, -ance)
+const trainingWords = (): [string, number][] => [
+  ...realWords.map(w => [w.word, 4] as [string, number]),
+  ...photoWords.map(w => [w.word, 2] as [string, number]),
+  ...lexiconWords.filter(w => w.length >= 4).map(w => [w, 1] as [string, number])
+].filter(([word]) => /^[a-z]+$/i.test(word));
+
+const train = (): TrigramModel => {
+  const model: TrigramModel = new Map();
+  trainingWords().forEach(([word, weight]) => {
+    const letters = `${START}${START}${word.toLowerCase()}${END}`;
+    for (let i = 2; i < letters.length; i++) {
+      const context = letters.slice(i - 2, i);
+      const next = model.get(context) || new Map<string, number>();
+      next.set(letters[i], (next.get(letters[i]) || 0) + weight);
+      model.set(context, next);
+    }
+  });
+  return model;
+};
+
+let trainedModel: TrigramModel | null = null;
+const getModel = () => (trainedModel = trainedModel || train());
+
+const sample = (weights: Map<string, number>, random: Random) => {
+  const total = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+  let roll = random() * total;
+  for (const [letter, weight] of weights) {
+    roll -= weight;
+    if (roll <= 0) return letter;
+  }
+  return END;
+};
+
+const MIN_LENGTH = 5;
+const MAX_LENGTH = 12;
+
+const sampleWord = (random: Random): string | null => {
+  const model = getModel();
+  let word = '';
+  let context = START + START;
+  while (word.length <= MAX_LENGTH) {
+    const next = model.get(context);
+    if (!next) return null;
+    const letter = sample(next, random);
+    if (letter === END) return word.length >= MIN_LENGTH ? word : null;
+    word += letter;
+    context = context[1] + letter;
+  }
+  return null;
+};
+
+const looksPronounceable = (word: string) =>
+  /[aeiouy]/.test(word) && !/(.)\1\1|aa|ii|uu|yy|q(?!u)|[^aeiouy]{4}/.test(word);
+
+// --- Near-miss spellings ---
+
+// Letters learners (and spell-checkers) commonly confuse
+const confusions: Record<string, string[]> = {
+  a: ['e', 'o'], e: ['a', 'i'], i: ['e', 'y'], o: ['a', 'u'], u: ['o'], y: ['i'],
+  b: ['p'], p: ['b'], d: ['t'], t: ['d'], c: ['s', 'k'], s: ['c', 'z'], z: ['s'], k: ['c'],
+  m: ['n'], n: ['m'], r: ['l'], l: ['r'], f: ['v'], v: ['f'], g: ['j'], j: ['g']
+};
+
+// Endings that sound alike
+const suffixSwaps: [string, string][] = [
+  ['ance', 'ence'], ['ence', 'ance'], ['ant', 'ent'], ['ent', 'ant'], ['able', 'ible'], ['ible', 'able'],
+  ['ary', 'ery'], ['ery', 'ary'], ['tion', 'sion'], ['sion', 'tion'], ['ous', 'ious'], ['ise', 'ize'], ['ize', 'ise']
+];
+
+const mutate = (word: string, random: Random): string => {
+  const kind = random();
+  const swap = suffixSwaps.find(([from]) => word.endsWith(from));
+  if (swap && kind < 0.2) return word.slice(0, -swap[0].length) + swap[1];
+
+  // Keep the first letter: learners spot a wrong initial instantly
+  const i = 1 + Math.floor(random() * (word.length - 1));
+  const letter = word[i];
+  if (kind < 0.6 && confusions[letter]) return word.slice(0, i) + pick(confusions[letter], random) + word.slice(i + 1);
+  if (kind < 0.8) {
+    if (word[i - 1] === letter) return word.slice(0, i) + word.slice(i + 1); // accommodate -> acommodate
+    if (!/[aeiouy]/.test(letter) && i < word.length - 1) return word.slice(0, i) + letter + word.slice(i); // necessary -> neccessary
+  }
+  return word.slice(0, i) + word.slice(i + 1);
+};
+
+// --- Generator ---
+
+const nearestRealWord = (word: string, max: number) => {
+  let nearestWord = '';
+  let distance = max + 1;
+  for (const candidate of lexiconWords) {
+    const d = levenshtein(word, candidate, Math.min(max, distance - 1));
+    if (d < distance) {
+      nearestWord = candidate;
+      distance = d;
+      if (d <= 1) break;
+    }
+  }
+  return { nearestWord, distance };
+};
+
+const distanceRange: Record<PseudoWordDifficulty, [number, number]> = {
+  easy: [3, Infinity],
+  medium: [2, 2],
+  hard: [1, 1]
+};
+
+const MAX_TRIES_PER_WORD = 400;
+
+const candidate = (difficulty: PseudoWordDifficulty, random: Random): string | null => {
+  if (difficulty === 'easy') return sampleWord(random);
+  const base = pick(realWords, random).word.toLowerCase();
+  // Two edits on a short word leave too little of it to recognise
+  if (base.length < (difficulty === 'hard' ? MIN_LENGTH : 7) || !/^[a-z]+$/.test(base)) return null;
+  const once = mutate(base, random);
+  return difficulty === 'hard' ? once : mutate(once, random);
+};
+
+export const generatePseudoWords = (count: number, difficulty: PseudoWordDifficulty, random: Random = Math.random): PseudoWord[] => {
+  const [min, max] = distanceRange[difficulty];
+  const words: PseudoWord[] = [];
+  const seen = new Set<string>();
+  for (let tries = 0; words.length < count && tries < count * MAX_TRIES_PER_WORD; tries++) {
+    const text = candidate(difficulty, random);
+    if (!text || seen.has(text) || !looksPronounceable(text) || isEnglishWord(text)) continue;
+    seen.add(text);
+    const nearest = nearestRealWord(text, Math.min(max, 4));
+    if (nearest.distance < min || nearest.distance > max) continue;
+    words.push({ text, ...nearest });
+  }
+  return words;
+};
@@ -0,0 +1,34 @@
+// Seeded pseudo-random numbers, so a generated exercise can be rebuilt exactly from its seed.
+
+export type Random = () => number; // Uniform in [0, 1), like Math.random
+
+// mulberry32: tiny, fast and good enough for shuffling and picking exercise items
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Seeds are kept below a million so they are easy to read out and type
+export const MAX_SEED = 1000000;
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED);
+
+// Games that go on item after item follow a chain of seeds, so a code also fixes what comes next
+export const nextSeed = (seed: number) => Math.floor(createRandom(seed)() * MAX_SEED);
+
+export const pick = <T>(items: T[], random: Random = Math.random): T => items[Math.floor(random() * items.length)];
+
+export const shuffle = <T>(items: T[], random: Random = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,43 @@
+import { alignSequences, toWords } from "./textDiff";
+
+export type ReadAloudWordStatus = 'correct' | 'mispronounced' | 'missed';
+
+export interface ReadAloudWord {
+  word: string;   // As displayed in the target sentence
+  status: ReadAloudWordStatus;
+  heard?: string; // What the transcriber heard instead, for mispronounced words
+}
+
+export interface ReadAloudScore {
+  words: ReadAloudWord[];
+  extraWords: string[];
+  correct: number;
+  total: number;
+  accuracy: number; // 0-100
+}
+
+// Word-level accuracy of a transcript against the sentence the learner had to read
+export const scoreReadAloud = (target: string, transcript: string): ReadAloudScore => {
+  const displayWords = target.split(/\s+/).filter(w => toWords(w).length > 0);
+  const expected = displayWords.map(w => toWords(w).join(''));
+  const ops = alignSequences(expected, toWords(transcript));
+
+  const words: ReadAloudWord[] = [];
+  const extraWords: string[] = [];
+  ops.forEach(op => {
+    const display = displayWords[words.length];
+    if (op.type === 'match') words.push({ word: display, status: 'correct' });
+    if (op.type === 'substitution') words.push({ word: display, status: 'mispronounced', heard: op.actual });
+    if (op.type === 'missing') words.push({ word: display, status: 'missed' });
+    if (op.type === 'extra') extraWords.push(op.actual);
+  });
+
+  const correct = words.filter(w => w.status === 'correct').length;
+  return {
+    words,
+    extraWords,
+    correct,
+    total: words.length,
+    accuracy: words.length ? Math.round((correct / words.length) * 100) : 0
+  };
+};
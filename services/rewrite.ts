@@ -0,0 +1,35 @@
+import { RewriteStyle } from "./aiSchemas";
+import { alignSequences, toWords } from "./textDiff";
+
+export const rewriteStyleLabels: Record<RewriteStyle, { title: string; hint: string }> = {
+  formal: { title: 'More formal', hint: 'Academic register, no contractions or slang' },
+  advanced: { title: 'Higher CEFR level', hint: 'Same ideas with B2/C1 vocabulary' },
+  concise: { title: 'More concise', hint: 'Redundant words removed' },
+  transition: { title: 'With a transition word', hint: 'Ideas linked with a connector' }
+};
+
+export type WordDiffType = 'same' | 'added' | 'removed';
+
+export interface WordDiffPart {
+  type: WordDiffType;
+  text: string;
+}
+
+// Word-level diff between the learner's text and a rewrite; punctuation and case are ignored
+export const diffWords = (original: string, rewrite: string): WordDiffPart[] => {
+  const key = (word: string) => toWords(word).join('');
+  const ops = alignSequences(
+    original.split(/\s+/).filter(Boolean),
+    rewrite.split(/\s+/).filter(Boolean),
+    (a, b) => key(a) === key(b)
+  );
+
+  const parts: WordDiffPart[] = [];
+  ops.forEach(op => {
+    if (op.type === 'match') parts.push({ type: 'same', text: op.actual });
+    if (op.type === 'substitution') parts.push({ type: 'removed', text: op.expected }, { type: 'added', text: op.actual });
+    if (op.type === 'missing') parts.push({ type: 'removed', text: op.expected });
+    if (op.type === 'extra') parts.push({ type: 'added', text: op.actual });
+  });
+  return parts;
+};
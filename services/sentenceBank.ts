@@ -0,0 +1,90 @@
+import { WordDef, realWords, photoWords, transitionWords } from "../data";
+import { FillInBlankTask } from "./aiSchemas";
+import { Random, pick } from "./random";
+
+// Local B2-level sentence templates, used whenever a sentence must be built without the AI.
+const templates: Record<string, string[]> = {
+  noun: [
+    "The committee discussed the {w} at length before making a decision.",
+    "Researchers paid close attention to the {w} throughout the study.",
+    "Everyone agreed that the {w} deserved more attention from the government.",
+    "The final report described the {w} in considerable detail."
+  ],
+  verb: [
+    "Students must learn to {w} new information quickly before the exam.",
+    "It is often difficult to {w} every detail in such a short time.",
+    "The organisation plans to {w} several changes over the next year.",
+    "Our teacher encouraged us to {w} the problem from a different angle."
+  ],
+  adjective: [
+    "The examiners found her answer remarkably {w}.",
+    "Many experts consider the new policy {w} for the region.",
+    "The results of the survey were surprisingly {w}.",
+    "Despite the criticism, the plan turned out to be {w}."
+  ]
+};
+
+// Words whose grammar does not fit any template
+const overrides: Record<string, string> = {
+  nevertheless: "The journey was exhausting; nevertheless, the team arrived on time.",
+  substantially: "House prices have risen substantially over the past decade.",
+  data: "The scientists collected data from over a thousand volunteers.",
+  percent: "Almost forty percent of the students passed the exam on their first attempt.",
+  research: "Recent research suggests that regular exercise improves concentration.",
+  labor: "The factory struggled to find enough skilled labor during the summer.",
+  finance: "She decided to study finance because she enjoys working with numbers.",
+  income: "A large part of their income is spent on rent and transport.",
+  required: "A valid passport is required to board the plane.",
+  foreground: "In the foreground, a young woman is reading a newspaper on a bench.",
+  background: "In the background, several tall buildings rise above the trees.",
+  strolling: "A couple is strolling along the river at sunset.",
+  gazing: "An old man is gazing at the mountains in the distance.",
+  commuting: "Thousands of people are commuting to work on the crowded train.",
+  pondering: "The student seems to be pondering a difficult question.",
+  pedestrian: "A pedestrian is waiting patiently at the traffic lights.",
+  skyscraper: "A modern skyscraper dominates the skyline of the city.",
+  landscape: "The landscape is dominated by green hills and small farms.",
+  portrait: "This portrait shows a smiling child holding a kite.",
+  atmosphere: "The atmosphere in the market appears lively and welcoming."
+};
+
+const partOfSpeech = (type: string) => {
+  const main = type.split('/')[0].replace('.', '');
+  if (main === 'v') return 'verb';
+  if (main === 'adj') return 'adjective';
+  return 'noun';
+};
+
+// Deterministic string hash so a given word always maps to the same template
+export const hashString = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export const buildSentence = (word: WordDef, variant = 0): string => {
+  const key = word.word.toLowerCase();
+  if (overrides[key]) return overrides[key];
+
+  const transition = transitionWords.find(t => t.word.toLowerCase() === key);
+  if (transition) return `The first experiment failed. ${transition.word}, the researchers learned a great deal from it.`;
+
+  const isPhotoWord = photoWords.some(p => p.word.toLowerCase() === key);
+  if (isPhotoWord && partOfSpeech(word.type) === 'adjective') {
+    return `The street in this photo looks ${key}, with people everywhere.`;
+  }
+
+  const options = templates[partOfSpeech(word.type)];
+  const template = options[(hashString(key) + variant) % options.length];
+  return template.replace('{w}', key);
+};
+
+// A sentence around a random B2/C1 word from `realWords`
+export const pickSentenceTask = (random: Random = Math.random): FillInBlankTask => {
+  const word = pick(realWords, random);
+  return { sentence: buildSentence(word, Math.floor(random() * 4)), missingWord: word.word };
+};
+
+export const pickRandomSentence = (random: Random = Math.random) => pickSentenceTask(random).sentence;
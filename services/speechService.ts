@@ -0,0 +1,143 @@
+import { hashString } from "./sentenceBank";
+
+// Microphone recording and speech-to-text for the speaking activities.
+
+export interface AudioRecording {
+  stop: () => Promise<Blob>;
+}
+
+export const startRecording = async (): Promise<AudioRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  recorder.start();
+
+  return {
+    stop: () => new Promise<Blob>(resolve => {
+      recorder.onstop = () => {
+        stream.getTracks().forEach(t => t.stop());
+        resolve(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorder.stop();
+    })
+  };
+};
+
+export interface TranscriptionSession {
+  // Stops listening and resolves with everything heard so far
+  stop: () => Promise<string>;
+}
+
+export type TranscriberId = 'webspeech' | 'fake';
+
+export interface Transcriber {
+  id: TranscriberId;
+  label: string;
+  // Whether this transcriber needs a real microphone
+  usesMicrophone: boolean;
+  isAvailable: () => boolean;
+  // `expectedText` is only used by the fake transcriber to simulate a reading
+  start: (expectedText?: string) => TranscriptionSession;
+}
+
+// The parts of the Web Speech API used here; TypeScript's DOM types do not include it
+interface SpeechRecognitionEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onend: (() => void) | null;
+  onerror: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export const webSpeechTranscriber: Transcriber = {
+  id: 'webspeech',
+  label: 'Browser speech recognition',
+  usesMicrophone: true,
+  isAvailable: () => !!getSpeechRecognition(),
+  start: () => {
+    const Recognition = getSpeechRecognition();
+    const recognition = new Recognition();
+    recognition.lang = 'en-US';
+    recognition.continuous = true;
+    recognition.interimResults = false;
+
+    let transcript = '';
+    recognition.onresult = event => {
+      transcript = Array.from(event.results).map(r => r[0].transcript).join(' ');
+    };
+    const ended = new Promise<void>(resolve => {
+      recognition.onend = () => resolve();
+      // "no-speech" and friends end the session; whatever was heard is still returned
+      recognition.onerror = () => resolve();
+    });
+    recognition.start();
+
+    return {
+      stop: async () => {
+        recognition.stop();
+        await ended;
+        return transcript.trim();
+      }
+    };
+  }
+};
+
+// Deterministically garbles the longest word (and a few others), the way a hesitant reader would
+const simulateReading = (text: string) => {
+  const words = text.split(/\s+/);
+  const letters = words.map(w => w.replace(/[^a-zA-Z]/g, ''));
+  const longest = letters.reduce((best, w, i) => (w.length > letters[best].length ? i : best), 0);
+  return words.map((word, i) => {
+    const w = letters[i];
+    if (w.length < 6 || (i !== longest && (hashString(w) + i) % 5 !== 0)) return word;
+    const mid = Math.floor(w.length / 2);
+    return w.slice(0, mid - 1) + w[mid] + w[mid - 1] + w.slice(mid + 1);
+  }).join(' ');
+};
+
+// Lets the speaking activities be tested without a microphone
+export const fakeTranscriber: Transcriber = {
+  id: 'fake',
+  label: 'Simulated (no microphone)',
+  usesMicrophone: false,
+  isAvailable: () => true,
+  start: (expectedText = '') => ({
+    stop: async () => simulateReading(expectedText)
+  })
+};
+
+export const transcribers: Transcriber[] = [webSpeechTranscriber, fakeTranscriber];
+
+export const getDefaultTranscriber = (): Transcriber =>
+  webSpeechTranscriber.isAvailable() ? webSpeechTranscriber : fakeTranscriber;
+
+export const isSpeechSynthesisAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Reads `text` out loud with an English voice; resolves when playback ends
+export const speak = (text: string, rate = 0.9) => new Promise<void>(resolve => {
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'en-US';
+  utterance.rate = rate;
+  utterance.onend = () => resolve();
+  utterance.onerror = () => resolve();
+  window.speechSynthesis.speak(utterance);
+});
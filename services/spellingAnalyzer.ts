@@ -0,0 +1,235 @@
+import { WordDef, realWords, photoWords, transitionWordsList } from "../data";
+import { alignSequences } from "./textDiff";
+import { Random, shuffle } from "./random";
+
+// Classifies spelling mistakes the way a dysorthography specialist would, so
+// practice can target the learner's recurring patterns instead of single words.
+
+export type SpellingErrorType =
+  | 'doubledConsonant'  // "accross": a single consonant written twice
+  | 'missingConsonant'  // "acommodation": a consonant (often one of a pair) left out
+  | 'vowelSwap'         // "definately": one vowel written for another
+  | 'silentLetter'      // "nowledge": a letter that is not pronounced left out
+  | 'phonetic'          // "fenomenon": spelled the way it sounds
+  | 'transposition'     // "recieve": two neighbouring letters swapped
+  | 'other';
+
+export const spellingErrorTypes: SpellingErrorType[] = [
+  'doubledConsonant', 'missingConsonant', 'vowelSwap', 'silentLetter', 'phonetic', 'transposition', 'other'
+];
+
+export const spellingErrorLabels: Record<SpellingErrorType, { label: string; tip: string }> = {
+  doubledConsonant: { label: 'Doubled consonant', tip: 'Check whether the consonant is really doubled: across, until, professional.' },
+  missingConsonant: { label: 'Missing consonant', tip: 'Say the word slowly and count the consonants, especially pairs: accommodation, embarrassment.' },
+  vowelSwap: { label: 'Vowel swap', tip: 'Unstressed vowels all sound alike. Link the word to a relative: definite → finish.' },
+  silentLetter: { label: 'Silent letter', tip: 'Learn the silent pairs: kn, wr, mb, gn, final e.' },
+  phonetic: { label: 'Phonetic spelling', tip: 'Some sounds have several spellings: f / ph, k / c / ck, s / c.' },
+  transposition: { label: 'Swapped letters', tip: 'Read the word back letter by letter. "i before e, except after c".' },
+  other: { label: 'Other', tip: 'Copy the word three times while spelling it aloud.' }
+};
+
+export interface SpellingError {
+  type: SpellingErrorType;
+  expected: string; // Letters of the target involved ('' for an extra letter)
+  actual: string;   // Letters the learner wrote instead ('' for a missing letter)
+  position: number; // Index in the target word
+}
+
+export interface SpellingAnalysis {
+  target: string;
+  attempt: string;
+  isCorrect: boolean;
+  isBlank: boolean;
+  errors: SpellingError[];
+}
+
+const VOWELS = 'aeiouy';
+const isVowel = (c: string) => c.length === 1 && VOWELS.includes(c);
+const isConsonant = (c: string) => c.length === 1 && /[a-z]/.test(c) && !isVowel(c);
+
+// Grapheme pairs that can stand for the same sound (checked in both directions)
+const PHONETIC_PAIRS: [string, string][] = [
+  ['c', 'k'], ['c', 's'], ['s', 'z'], ['ph', 'f'], ['ck', 'k'], ['ck', 'c'], ['g', 'j'], ['y', 'i'],
+  ['qu', 'kw'], ['x', 'ks'], ['ch', 'k'], ['ch', 'sh'], ['gh', 'f'], ['ti', 'sh'], ['ci', 'sh'], ['t', 's']
+];
+
+const isPhonetic = (expected: string, actual: string) =>
+  PHONETIC_PAIRS.some(([a, b]) => (expected === a && actual === b) || (expected === b && actual === a));
+
+// Letters usually silent in this position of the word
+const isSilent = (word: string, pos: number) => {
+  const c = word[pos];
+  const prev = word[pos - 1] || '';
+  const next = word[pos + 1] || '';
+  if (c === 'e') return pos === word.length - 1;
+  if (c === 'k' || c === 'g') return next === 'n';
+  if (c === 'b') return prev === 'm' || next === 't';
+  if (c === 'w') return next === 'r' || (pos === 0 && next === 'h' && word[pos + 2] === 'o');
+  if (c === 'h') return pos === 0 || 'wgrx'.includes(prev);
+  if (c === 't') return prev === 's' && (next === 'l' || next === 'e' && word[pos + 2] === 'n');
+  if (c === 'p') return pos === 0 && (next === 's' || next === 'n');
+  if (c === 'l') return (prev === 'a' || prev === 'o') && 'kdfm'.includes(next);
+  if (c === 'n') return prev === 'm' && pos === word.length - 1;
+  if (c === 's') return prev === 'i' && next === 'l';
+  return false;
+};
+
+const classify = (expected: string, actual: string, target: string, attempt: string, e: number, a: number): SpellingErrorType => {
+  if (expected.length === 2 && actual === expected[1] + expected[0] && expected[0] !== expected[1]) return 'transposition';
+  if (expected === '' && isConsonant(actual) && (attempt[a - 1] === actual || attempt[a + 1] === actual)) return 'doubledConsonant';
+  if (actual === '' && expected.length === 1) {
+    if (isSilent(target, e)) return 'silentLetter';
+    if (isConsonant(expected)) return 'missingConsonant';
+  }
+  if (isPhonetic(expected, actual)) return 'phonetic';
+  if (expected.length > 0 && expected.length === actual.length && [...expected, ...actual].every(isVowel)) return 'vowelSwap';
+  if (expected.length === 2 && expected[0] === expected[1] && isConsonant(expected[0]) && actual === '') return 'missingConsonant';
+  return 'other';
+};
+
+const normalize = (word: string) => word.trim().toLowerCase();
+
+export const analyzeSpelling = (target: string, attempt: string): SpellingAnalysis => {
+  const t = normalize(target);
+  const w = normalize(attempt);
+  const base = { target, attempt, isCorrect: t === w, isBlank: w === '' };
+  if (base.isCorrect || base.isBlank) return { ...base, errors: [] };
+
+  const ops = alignSequences(t.split(''), w.split(''));
+  const errors: SpellingError[] = [];
+  // Positions in the target / attempt of the op being processed
+  let e = 0;
+  let a = 0;
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === 'match') {
+      e++;
+      a++;
+      k++;
+      continue;
+    }
+    // Group neighbouring edits into one error, e.g. "ph" -> "f" is a substitution plus a deletion
+    const start = { e, a, k };
+    let expected = '';
+    let actual = '';
+    while (k < ops.length && ops[k].type !== 'match') {
+      const op = ops[k];
+      if (op.type !== 'extra') { expected += op.expected; e++; }
+      if (op.type !== 'missing') { actual += op.actual; a++; }
+      k++;
+    }
+    // Long runs are usually several independent slips; split them letter by letter
+    if (expected.length > 2 || actual.length > 2) {
+      let ei = start.e;
+      let ai = start.a;
+      ops.slice(start.k, k).forEach(op => {
+        const exp = op.type === 'extra' ? '' : op.expected;
+        const act = op.type === 'missing' ? '' : op.actual;
+        errors.push({ type: classify(exp, act, t, w, ei, ai), expected: exp, actual: act, position: ei });
+        if (op.type !== 'extra') ei++;
+        if (op.type !== 'missing') ai++;
+      });
+    } else {
+      errors.push({ type: classify(expected, actual, t, w, start.e, start.a), expected, actual, position: start.e });
+    }
+  }
+  // Too many slips means a different word rather than a spelling pattern
+  if (errors.length > Math.max(3, t.length / 2)) return { ...base, errors: [{ type: 'other', expected: t, actual: w, position: 0 }] };
+  return { ...base, errors };
+};
+
+// --- Per-user statistics ---
+
+export interface SpellingStats {
+  attempts: number;
+  mistakes: number;
+  byType: Partial<Record<SpellingErrorType, number>>;
+  words: Partial<Record<SpellingErrorType, string[]>>; // Recent targets misspelled with this pattern
+}
+
+export const emptySpellingStats = (): SpellingStats => ({ attempts: 0, mistakes: 0, byType: {}, words: {} });
+
+const MAX_WORDS_PER_TYPE = 10;
+
+export const recordSpelling = (stats: SpellingStats, analysis: SpellingAnalysis): SpellingStats => {
+  const next: SpellingStats = {
+    attempts: stats.attempts + 1,
+    mistakes: stats.mistakes + (analysis.isCorrect ? 0 : 1),
+    byType: { ...stats.byType },
+    words: { ...stats.words }
+  };
+  new Set(analysis.errors.map(err => err.type)).forEach(type => {
+    next.byType[type] = (next.byType[type] || 0) + analysis.errors.filter(err => err.type === type).length;
+    const words = (next.words[type] || []).filter(word => word !== analysis.target);
+    next.words[type] = [analysis.target, ...words].slice(0, MAX_WORDS_PER_TYPE);
+  });
+  return next;
+};
+
+// Combines two copies of the statistics (e.g. this device's and an imported backup). The counts
+// cannot tell which attempts the copies share, so the copy with more attempts is kept; adding
+// them would double everything each time the same backup is imported. Recent words are pooled.
+export const mergeSpellingStats = (a: SpellingStats, b: SpellingStats): SpellingStats => {
+  const [kept, other] = b.attempts > a.attempts ? [b, a] : [a, b];
+  const next: SpellingStats = { ...kept, byType: { ...kept.byType }, words: { ...kept.words } };
+  spellingErrorTypes.forEach(type => {
+    if (other.words[type]) next.words[type] = [...new Set([...(next.words[type] || []), ...other.words[type]!])].slice(0, MAX_WORDS_PER_TYPE);
+  });
+  return next;
+};
+
+// Error types ordered by frequency, most frequent first
+export const getWeakestPatterns = (stats: SpellingStats, count = 2): SpellingErrorType[] =>
+  spellingErrorTypes
+    .filter(type => type !== 'other' && (stats.byType[type] || 0) > 0)
+    .sort((x, y) => (stats.byType[y] || 0) - (stats.byType[x] || 0))
+    .slice(0, count);
+
+// --- Drills ---
+
+// Words from the lists that exercise each pattern
+const patternMatchers: Record<SpellingErrorType, (word: string) => boolean> = {
+  doubledConsonant: word => /([b-df-hj-np-tv-z])\1/.test(word),
+  missingConsonant: word => /([b-df-hj-np-tv-z])\1/.test(word) || /[b-df-hj-np-tv-z]{3}/.test(word),
+  vowelSwap: word => /[aeiou]{2}/.test(word) || /(ate|ite|ant|ent|ance|ence|able|ible)$/.test(word),
+  silentLetter: word => /kn|wr|mb|gn|gh|^ps|stl|alk|ould/.test(word) || /[^aeiou]e$/.test(word),
+  phonetic: word => /ph|ck|qu|x|ch|c[eiy]|tion|sion/.test(word),
+  transposition: word => /ie|ei|[^aeiou]le$/.test(word),
+  other: () => false
+};
+
+export interface SpellingDrillItem {
+  word: WordDef;
+  pattern: SpellingErrorType;
+}
+
+const drillWords: WordDef[] = [...realWords, ...photoWords, ...transitionWordsList].filter(w => !w.word.includes(' '));
+
+export const buildSpellingDrill = (stats: SpellingStats, size = 8, random: Random = Math.random): SpellingDrillItem[] => {
+  const patterns = getWeakestPatterns(stats, 3);
+  if (patterns.length === 0) return [];
+
+  const items: SpellingDrillItem[] = [];
+  const used = new Set<string>();
+  const add = (word: WordDef, pattern: SpellingErrorType) => {
+    if (used.has(word.word.toLowerCase()) || items.length >= size) return;
+    used.add(word.word.toLowerCase());
+    items.push({ word, pattern });
+  };
+
+  // The learner's own misspelled words come first (when a context sentence can be built), then list words with the same pattern
+  patterns.forEach(pattern => {
+    (stats.words[pattern] || [])
+      .map(target => drillWords.find(w => w.word.toLowerCase() === target.toLowerCase()))
+      .filter((w): w is WordDef => !!w)
+      .slice(0, 2)
+      .forEach(w => add(w, pattern));
+  });
+  const perPattern = Math.ceil(size / patterns.length);
+  patterns.forEach(pattern => {
+    shuffle(drillWords.filter(w => patternMatchers[pattern](w.word.toLowerCase())), random)
+      .slice(0, perPattern)
+      .forEach(w => add(w, pattern));
+  });
+  return items;
+};
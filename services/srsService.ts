@@ -0,0 +1,119 @@
+// Spaced-repetition scheduler (SM-2 variant) used by the flashcards.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface CardState {
+  word: string;
+  ease: number;      // Multiplier applied to the interval on "good"
+  interval: number;  // Days until the next review
+  due: string;       // Local day key (YYYY-MM-DD)
+  reps: number;      // Successful reviews in a row (reset on "again")
+  lapses: number;    // Times the card was forgotten after being learned
+  lastReviewed?: string;
+}
+
+export type SrsDeck = Record<string, CardState>;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Interval given to words that were "known" under the old binary system
+const MIGRATED_INTERVAL = 21;
+
+export const toDayKey = (date: Date = new Date()) => {
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+const addDays = (days: number, from: Date = new Date()) => {
+  const next = new Date(from);
+  next.setDate(next.getDate() + days);
+  return toDayKey(next);
+};
+
+export const createCard = (word: string): CardState => ({
+  word,
+  ease: DEFAULT_EASE,
+  interval: 0,
+  due: toDayKey(),
+  reps: 0,
+  lapses: 0
+});
+
+// Returns the interval (in days) a grade would produce, without applying it.
+export const previewInterval = (card: CardState, grade: ReviewGrade) => {
+  switch (grade) {
+    case 'again':
+      return 0;
+    case 'hard':
+      return Math.max(1, Math.round(card.interval * 1.2));
+    case 'good':
+      if (card.reps === 0) return 1;
+      if (card.reps === 1) return 3;
+      return Math.max(card.interval + 1, Math.round(card.interval * card.ease));
+    case 'easy':
+      if (card.reps === 0) return 4;
+      return Math.max(card.interval + 1, Math.round(card.interval * card.ease * 1.3));
+  }
+};
+
+export const gradeCard = (card: CardState, grade: ReviewGrade, now: Date = new Date()): CardState => {
+  const interval = previewInterval(card, grade);
+  let ease = card.ease;
+  if (grade === 'again') ease -= 0.2;
+  if (grade === 'hard') ease -= 0.15;
+  if (grade === 'easy') ease += 0.15;
+
+  return {
+    ...card,
+    ease: Math.max(MIN_EASE, Math.round(ease * 100) / 100),
+    interval,
+    due: addDays(interval, now),
+    reps: grade === 'again' ? 0 : card.reps + 1,
+    lapses: grade === 'again' && card.reps > 0 ? card.lapses + 1 : card.lapses,
+    lastReviewed: toDayKey(now)
+  };
+};
+
+export const isDue = (card: CardState, today: string = toDayKey()) => card.due <= today;
+
+// A word counts as learned once it has been recalled since its last lapse
+export const isLearned = (card: CardState | undefined) => !!card && card.reps > 0;
+
+// Words from `words` that should be studied today: never seen, or due.
+export const getStudyQueue = (words: string[], deck: SrsDeck, today: string = toDayKey()) =>
+  words.filter(w => !deck[w] || isDue(deck[w], today));
+
+// Words from `words` that have been studied before and are due today.
+export const getDueWords = (words: string[], deck: SrsDeck, today: string = toDayKey()) =>
+  words.filter(w => deck[w] && isDue(deck[w], today));
+
+// A card the learner keeps failing: forgotten after being learned, or often graded "hard"
+export const isHardCard = (card: CardState | undefined) => !!card && (card.lapses > 0 || card.ease < DEFAULT_EASE - 0.25);
+
+// Hard words from `words` not reviewed yet today, for the "Only Hard Words" session.
+export const getHardWords = (words: string[], deck: SrsDeck, today: string = toDayKey()) =>
+  words.filter(w => isHardCard(deck[w]) && deck[w].lastReviewed !== today);
+
+// Converts the legacy `known_words` list into scheduled cards.
+export const migrateKnownWords = (knownWords: string[], now: Date = new Date()): SrsDeck => {
+  const deck: SrsDeck = {};
+  knownWords.forEach(word => {
+    deck[word] = {
+      ...createCard(word),
+      interval: MIGRATED_INTERVAL,
+      due: addDays(MIGRATED_INTERVAL, now),
+      reps: 2,
+      lastReviewed: toDayKey(now)
+    };
+  });
+  return deck;
+};
+
+export const formatInterval = (days: number) => {
+  if (days <= 0) return '<1d';
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+};
@@ -0,0 +1,246 @@
+import { ActivityId } from "../types";
+import { AttemptRecord, HistoryActivity, queryAttempts, summarizeAttempts, daysAgo } from "./attemptHistory";
+import { toDayKey } from "./srsService";
+
+// Builds the day-by-day revision plan from the exam date and the time available each day.
+// Every practice day starts with flashcards, then fills the remaining minutes with the
+// activities the learner is weakest at, rotating so that none is left out for long. A day is
+// complete once the attempt history shows enough answers for each of its tasks.
+
+export interface PlanSettings {
+  startDate: string;    // Day key (YYYY-MM-DD) of plan day 1
+  examDate: string;     // Day key of the exam; the plan ends the day before
+  dailyMinutes: number;
+}
+
+// Views a task can open
+export type PlanTaskView = ActivityId | 'flashcards' | 'spellingdrill' | 'exam';
+
+// Options the activity opens with
+export interface TaskSettings {
+  speedMode?: boolean;                 // Read and Select with the short timer
+  flashcards?: 'due' | 'hard';         // Due reviews, or only the words the learner keeps failing
+}
+
+export interface PlanTask {
+  id: string;
+  view: PlanTaskView;
+  label: string;
+  minutes: number;
+  counts: HistoryActivity[]; // Attempts of these activities count towards the task
+  target: number;            // Answers needed for the task to be done
+  settings: TaskSettings;
+  reason?: string;           // Why the planner chose it, e.g. "Weak area: 54% correct"
+}
+
+export type PlanDayKind = 'practice' | 'simulation' | 'rest';
+
+export interface PlanDay {
+  day: number;  // 1-based, counted from the start date
+  date: string; // Day key
+  kind: PlanDayKind;
+  title: string;
+  tasks: PlanTask[];
+}
+
+export const MIN_DAILY_MINUTES = 10;
+export const MAX_DAILY_MINUTES = 180;
+const MAX_PLAN_DAYS = 120;
+
+// --- Dates ---
+
+const parseDay = (dayKey: string) => {
+  const [y, m, d] = dayKey.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const addDays = (dayKey: string, days: number) => {
+  const date = parseDay(dayKey);
+  date.setDate(date.getDate() + days);
+  return toDayKey(date);
+};
+
+// Whole days from `from` to `to` (negative when `to` is earlier)
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86400000);
+
+export const planLength = (settings: PlanSettings) =>
+  Math.max(0, Math.min(MAX_PLAN_DAYS, daysBetween(settings.startDate, settings.examDate)));
+
+// Plan day number of a date, counting the start date as day 1
+export const planDayNumber = (settings: PlanSettings, date: Date = new Date()) =>
+  daysBetween(settings.startDate, toDayKey(date)) + 1;
+
+export const createPlanSettings = (examDate: string, dailyMinutes: number, today: Date = new Date()): PlanSettings => ({
+  startDate: toDayKey(today),
+  examDate,
+  dailyMinutes: Math.max(MIN_DAILY_MINUTES, Math.min(MAX_DAILY_MINUTES, Math.round(dailyMinutes)))
+});
+
+// --- Task catalogue ---
+
+interface TaskTemplate {
+  label: string;
+  minutes: number;
+  counts: HistoryActivity[];
+  target: number;
+}
+
+type PracticeView = Exclude<PlanTaskView, 'flashcards' | 'exam'>;
+
+const practiceTasks: Record<PracticeView, TaskTemplate> = {
+  realword: { label: 'Read and Select', minutes: 3, counts: ['realword'], target: 20 },
+  spelling: { label: 'Fill in the Blanks', minutes: 5, counts: ['spelling'], target: 5 },
+  spellingdrill: { label: 'Spelling Drill', minutes: 5, counts: ['spelling'], target: 10 },
+  completetext: { label: 'Read and Complete', minutes: 5, counts: ['completetext'], target: 8 },
+  photo: { label: 'Write About the Photo', minutes: 5, counts: ['photo'], target: 1 },
+  speakphoto: { label: 'Speak About the Photo', minutes: 4, counts: ['speakphoto'], target: 1 },
+  readaloud: { label: 'Read Aloud', minutes: 3, counts: ['readaloud'], target: 3 },
+  listentype: { label: 'Listen and Type', minutes: 5, counts: ['listentype'], target: 3 },
+  interactivereading: { label: 'Interactive Reading', minutes: 8, counts: ['interactivereading'], target: 4 },
+  writingsample: { label: 'Writing Sample', minutes: 7, counts: ['writingsample'], target: 1 }
+};
+
+const simulationTask: TaskTemplate = {
+  label: 'Full Simulation',
+  minutes: 55,
+  counts: ['realword', 'spelling', 'completetext', 'listentype', 'readaloud', 'photo', 'speakphoto', 'interactivereading', 'writingsample'],
+  target: 40
+};
+
+const FLASHCARD_SHARE = 0.2;
+const MIN_FLASHCARD_MINUTES = 5;
+const FLASHCARDS_PER_MINUTE = 4;
+
+// --- Weak areas ---
+
+export interface PlanInputs {
+  attempts: AttemptRecord[];
+  hardWords: number; // Flashcards the learner keeps failing
+}
+
+const UNPRACTISED_WEAKNESS = 0.6;
+const WEAK_AREA = 0.35;
+const ROTATION_BONUS = 0.12; // Priority gained per day an activity has not been scheduled
+const SPEED_MODE_ACCURACY = 80;
+const WEAKNESS_WINDOW_DAYS = 14;
+
+// 0 (mastered) to 1 (never right) per activity, or null when not practised, from the last two
+// weeks before `today`. Today's answers are left out so the plan stays the same while the
+// learner works through it.
+export const activityWeakness = (attempts: AttemptRecord[], today: Date = new Date()): Record<PracticeView, number | null> => {
+  const recent = queryAttempts(attempts, { from: daysAgo(WEAKNESS_WINDOW_DAYS, today), to: daysAgo(0, today) });
+  const weakness = {} as Record<PracticeView, number | null>;
+  (Object.keys(practiceTasks) as PracticeView[]).forEach(view => {
+    const summary = summarizeAttempts(queryAttempts(recent, { activity: practiceTasks[view].counts }));
+    const score = summary.accuracy ?? summary.averageScore;
+    weakness[view] = score === null ? null : 1 - score / 100;
+  });
+  return weakness;
+};
+
+const reasonFor = (weakness: number | null) => {
+  if (weakness === null) return 'Not practised recently';
+  return weakness >= WEAK_AREA ? `Weak area: ${Math.round((1 - weakness) * 100)}% correct` : undefined;
+};
+
+const accuracyOf = (attempts: AttemptRecord[], activity: HistoryActivity, today: Date) =>
+  summarizeAttempts(queryAttempts(attempts, { activity, from: daysAgo(WEAKNESS_WINDOW_DAYS, today), to: daysAgo(0, today) })).accuracy;
+
+// --- Plan ---
+
+const makeTask = (day: number, view: PlanTaskView, template: TaskTemplate, settings: TaskSettings = {}, reason?: string): PlanTask => ({
+  id: `${day}-${view}`,
+  view,
+  ...template,
+  settings,
+  reason
+});
+
+// Any flashcard answer counts, so the task can be finished with new words when few are due
+const flashcardTask = (day: number, minutes: number, hardWords: number | null): PlanTask =>
+  makeTask(day, 'flashcards', {
+    label: hardWords ? 'Flashcards: Only Hard Words' : 'Flashcards: Due Today',
+    minutes,
+    counts: ['flashcards'],
+    target: Math.min(minutes * FLASHCARDS_PER_MINUTE, hardWords || Infinity)
+  }, { flashcards: hardWords ? 'hard' : 'due' });
+
+const titleFor = (kind: PlanDayKind, tasks: PlanTask[]) => {
+  if (kind === 'rest') return 'Relax & Confidence';
+  if (kind === 'simulation') return 'Full Simulation';
+  const focus = tasks.filter(t => t.view !== 'flashcards').slice(0, 2).map(t => t.label);
+  return focus.length ? `Focus: ${focus.join(' & ')}` : 'Vocabulary';
+};
+
+// Upcoming days, from today (or the start date, if later) to the day before the exam
+export const buildStudyPlan = (settings: PlanSettings, inputs: PlanInputs, today: Date = new Date()): PlanDay[] => {
+  const length = planLength(settings);
+  const firstDay = Math.max(1, planDayNumber(settings, today));
+  const measured = activityWeakness(inputs.attempts, today);
+  const realWordAccuracy = accuracyOf(inputs.attempts, 'realword', today);
+  const views = Object.keys(practiceTasks) as PracticeView[];
+  // Days since each activity was last scheduled; all start equally overdue
+  const idle = Object.fromEntries(views.map(view => [view, 1])) as Record<PracticeView, number>;
+  const weakness = Object.fromEntries(views.map(view => [view, measured[view] ?? UNPRACTISED_WEAKNESS])) as Record<PracticeView, number>;
+
+  const days: PlanDay[] = [];
+  for (let day = firstDay; day <= length; day++) {
+    const remaining = length - day; // Days left after this one
+    let kind: PlanDayKind = 'practice';
+    if (remaining === 0 && length > 1) kind = 'rest';
+    else if ((remaining === 1 && length >= 4) || (day % 7 === 0 && remaining > 1)) kind = 'simulation';
+
+    const tasks: PlanTask[] = [];
+    if (kind === 'rest') {
+      tasks.push(flashcardTask(day, MIN_FLASHCARD_MINUTES, null));
+    } else if (kind === 'simulation') {
+      tasks.push(makeTask(day, 'exam', simulationTask));
+      const left = settings.dailyMinutes - simulationTask.minutes;
+      if (left >= MIN_FLASHCARD_MINUTES) tasks.push(flashcardTask(day, Math.min(left, 15), null));
+    } else {
+      const flashMinutes = Math.max(MIN_FLASHCARD_MINUTES, Math.round(settings.dailyMinutes * FLASHCARD_SHARE));
+      // Hard words get their own session every third day, and on the last days before the exam
+      const hardDay = inputs.hardWords >= 5 && (day % 3 === 0 || remaining <= 3);
+      tasks.push(flashcardTask(day, flashMinutes, hardDay ? inputs.hardWords : null));
+
+      let budget = settings.dailyMinutes - flashMinutes;
+      const ranked = [...views].sort((a, b) =>
+        (weakness[b] + ROTATION_BONUS * idle[b]) - (weakness[a] + ROTATION_BONUS * idle[a]));
+      const counted = new Set<HistoryActivity>();
+      for (const view of ranked) {
+        const template = practiceTasks[view];
+        // Two tasks counting the same answers could never both be completed
+        if (template.minutes > budget || template.counts.some(a => counted.has(a))) continue;
+        const speedMode = view === 'realword' && realWordAccuracy !== null && realWordAccuracy >= SPEED_MODE_ACCURACY;
+        tasks.push(makeTask(day, view, speedMode ? { ...template, label: `${template.label} (Speed Mode)` } : template, { speedMode }, reasonFor(measured[view])));
+        template.counts.forEach(a => counted.add(a));
+        budget -= template.minutes;
+      }
+    }
+
+    views.forEach(view => { idle[view] = tasks.some(t => t.view === view) ? 0 : idle[view] + 1; });
+    days.push({ day, date: addDays(settings.startDate, day - 1), kind, title: titleFor(kind, tasks), tasks });
+  }
+  return days;
+};
+
+// --- Progress ---
+
+// Answers given on the task's day, capped at the target
+export const taskProgress = (task: PlanTask, attempts: AttemptRecord[], date: string) => {
+  const from = parseDay(date);
+  const to = parseDay(addDays(date, 1));
+  const done = queryAttempts(attempts, { activity: task.counts, from, to });
+  // A simulation needs every section, not only many answers in one of them
+  if (task.view === 'exam' && !task.counts.every(activity => done.some(a => a.activity === activity))) {
+    return Math.min(done.length, task.target - 1);
+  }
+  return Math.min(done.length, task.target);
+};
+
+export const isTaskDone = (task: PlanTask, attempts: AttemptRecord[], date: string) =>
+  taskProgress(task, attempts, date) >= task.target;
+
+export const isPlanDayDone = (day: PlanDay, attempts: AttemptRecord[]) =>
+  day.tasks.length > 0 && day.tasks.every(task => isTaskDone(task, attempts, day.date));
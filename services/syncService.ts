@@ -0,0 +1,372 @@
+import { WordDef } from "../data";
+import { SrsDeck } from "./srsService";
+import { AttemptRecord, mergeAttempts } from "./attemptHistory";
+import { CustomDeck } from "./deckImport";
+import { Rating, emptyAbilityRatings } from "./adaptiveRating";
+import { PlanSettings } from "./studyPlanner";
+import { ProfileData, ProfileField, loadProfile, saveProfileField, onProfileFieldSaved } from "./profileStorage";
+import { PinHash, isPinHash, getProfilePinHash, storeProfilePinHash, onProfilePinChanged, isProfileProtected } from "./profileLock";
+
+// Optional sync with a self-hosted server (server/syncServer.js).
+// Every profile write is turned into per-record changes and queued in localStorage, so nothing is
+// lost offline; the queue is pushed when the server is reachable. Without a configured server
+// the queue is never filled and the app behaves exactly as before.
+
+const SYNC_URL_KEY = 'det_sync_url';
+const SYNC_TOKEN_KEY = 'det_sync_token';
+const REQUEST_TIMEOUT_MS = 8000;
+const PUSH_DELAY_MS = 2000;
+
+export const getSyncUrl = () => localStorage.getItem(SYNC_URL_KEY);
+
+const getSyncToken = () => localStorage.getItem(SYNC_TOKEN_KEY) || '';
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+// The token is the SYNC_TOKEN the server was started with
+export const setSyncServer = (server: { url: string, token: string } | null) => {
+  if (server) {
+    localStorage.setItem(SYNC_URL_KEY, normalizeUrl(server.url));
+    localStorage.setItem(SYNC_TOKEN_KEY, server.token.trim());
+  } else {
+    localStorage.removeItem(SYNC_URL_KEY);
+    localStorage.removeItem(SYNC_TOKEN_KEY);
+  }
+};
+
+export const isSyncEnabled = () => !!getSyncUrl();
+
+export class SyncError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'SyncError';
+    this.status = status;
+  }
+}
+
+const request = async <T>(path: string, init: RequestInit = {}, baseUrl = getSyncUrl(), token = getSyncToken()): Promise<T> => {
+  if (!baseUrl) throw new SyncError("No sync server is configured.");
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      signal: controller.signal
+    });
+    if (response.status === 401) throw new SyncError("The sync server did not accept the sync token.", 401);
+    if (!response.ok) throw new SyncError(`The sync server answered with status ${response.status}.`, response.status);
+    return response.status === 204 ? (undefined as T) : await response.json();
+  } catch (error) {
+    if (error instanceof SyncError) throw error;
+    throw new SyncError("The sync server could not be reached.");
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// --- Collections ---
+
+// Spelling statistics are running totals, which cannot be merged record by record; they stay on the device
+type SyncedField = Exclude<ProfileField, 'spellingStats'>;
+
+interface CollectionSpec<T> {
+  name: string;                                          // Collection name on the server
+  toRecords: (value: T) => Record<string, unknown>;      // Record id -> record
+  fromRecords: (records: Record<string, unknown>) => T;
+}
+
+const collections: { [K in SyncedField]: CollectionSpec<ProfileData[K]> } = {
+  srs: {
+    name: 'cards',
+    toRecords: deck => ({ ...deck }),
+    fromRecords: records => records as SrsDeck
+  },
+  completedDays: {
+    name: 'completed-days',
+    toRecords: days => Object.fromEntries(days.map(day => [String(day), day])),
+    fromRecords: records => (Object.values(records) as number[]).sort((a, b) => a - b)
+  },
+  myWords: {
+    name: 'my-words',
+    toRecords: words => Object.fromEntries(words.map(w => [w.word.toLowerCase(), w])),
+    fromRecords: records => Object.values(records) as WordDef[]
+  },
+  attempts: {
+    name: 'attempts',
+    toRecords: attempts => Object.fromEntries(attempts.map(a => [a.id, a])),
+    fromRecords: records => mergeAttempts([], Object.values(records) as AttemptRecord[])
+  },
+  customDecks: {
+    name: 'decks',
+    toRecords: decks => Object.fromEntries(decks.map(deck => [deck.id, deck])),
+    fromRecords: records => (Object.values(records) as CustomDeck[]).sort((a, b) => a.createdAt - b.createdAt)
+  },
+  abilityRatings: {
+    name: 'ratings',
+    toRecords: ratings => ({ learner: ratings.learner, ...Object.fromEntries(Object.entries(ratings.items).map(([key, rating]) => [`item:${key}`, rating])) }),
+    fromRecords: records => {
+      const { learner, ...items } = records as Record<string, Rating>;
+      return {
+        learner: learner || emptyAbilityRatings().learner,
+        items: Object.fromEntries(Object.entries(items).map(([id, rating]) => [id.replace(/^item:/, ''), rating]))
+      };
+    }
+  },
+  planSettings: {
+    name: 'plan',
+    toRecords: settings => (settings ? { settings } : {}),
+    fromRecords: records => (records.settings as PlanSettings) || null
+  }
+};
+
+const syncedFields = Object.keys(collections) as SyncedField[];
+
+const collectionOf = <K extends SyncedField>(field: K): CollectionSpec<ProfileData[K]> => collections[field];
+
+const isSyncedField = (field: ProfileField): field is SyncedField => field in collections;
+
+// --- Queue ---
+
+export interface PendingChange {
+  collection: string;
+  id: string;
+  value: unknown;
+  updatedAt: number;
+  deleted?: boolean;
+}
+
+interface RemoteRecord {
+  id: string;
+  value: unknown;
+  updatedAt: number;
+  deleted: boolean;
+}
+
+interface SyncState {
+  revs: Record<string, number>; // Last server revision pulled, per collection
+  lastSyncAt: number | null;
+}
+
+const queueKey = (profile: string) => `det_${profile}_sync_queue`;
+const stateKey = (profile: string) => `det_${profile}_sync_state`;
+
+const readQueue = (profile: string): PendingChange[] => JSON.parse(localStorage.getItem(queueKey(profile)) || '[]');
+const writeQueue = (profile: string, queue: PendingChange[]) => localStorage.setItem(queueKey(profile), JSON.stringify(queue));
+
+const readState = (profile: string): SyncState | null => {
+  const saved = localStorage.getItem(stateKey(profile));
+  return saved ? JSON.parse(saved) : null;
+};
+const writeState = (profile: string, state: SyncState) => localStorage.setItem(stateKey(profile), JSON.stringify(state));
+
+const sameChange = (a: PendingChange, b: PendingChange) => a.collection === b.collection && a.id === b.id;
+
+// Only the latest change per record is kept
+const enqueue = (profile: string, changes: PendingChange[]) => {
+  if (!changes.length) return;
+  const queue = readQueue(profile).filter(queued => !changes.some(change => sameChange(queued, change)));
+  writeQueue(profile, [...queue, ...changes]);
+};
+
+export const diffRecords = (collection: string, before: Record<string, unknown>, after: Record<string, unknown>, now = Date.now()): PendingChange[] => {
+  const changes: PendingChange[] = [];
+  Object.entries(after).forEach(([id, value]) => {
+    if (JSON.stringify(before[id]) !== JSON.stringify(value)) changes.push({ collection, id, value, updatedAt: now });
+  });
+  Object.keys(before).forEach(id => {
+    if (!(id in after)) changes.push({ collection, id, value: null, updatedAt: now, deleted: true });
+  });
+  return changes;
+};
+
+// Writes made while applying pulled records must not be queued back to the server
+let applyingRemote = false;
+
+const pushTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+const schedulePush = (profile: string) => {
+  clearTimeout(pushTimers[profile]);
+  pushTimers[profile] = setTimeout(() => pushChanges(profile).catch(() => undefined), PUSH_DELAY_MS);
+};
+
+const queueFieldChanges = (profile: string, field: SyncedField, previous: ProfileData[SyncedField], value: ProfileData[SyncedField]) => {
+  const spec = collectionOf(field);
+  enqueue(profile, diffRecords(spec.name, spec.toRecords(previous), spec.toRecords(value)));
+  schedulePush(profile);
+};
+
+onProfileFieldSaved((profile, field, value, previous) => {
+  if (applyingRemote || !isSyncEnabled() || !isSyncedField(field)) return;
+  // The guard narrows the field but not its values, which belong to the same field
+  queueFieldChanges(profile, field, previous as ProfileData[SyncedField], value as ProfileData[SyncedField]);
+});
+
+// --- PIN ---
+
+// The PIN hash is its own collection with a single record, so a profile protected on one device
+// asks for the same PIN on every other device
+const PIN_COLLECTION = 'pin';
+const PIN_RECORD = 'hash';
+
+const pinChange = (hash: PinHash | null, updatedAt = Date.now()): PendingChange =>
+  hash
+    ? { collection: PIN_COLLECTION, id: PIN_RECORD, value: hash, updatedAt }
+    : { collection: PIN_COLLECTION, id: PIN_RECORD, value: null, updatedAt, deleted: true };
+
+onProfilePinChanged((profile, hash) => {
+  if (!isSyncEnabled()) return;
+  enqueue(profile, [pinChange(hash)]);
+  schedulePush(profile);
+});
+
+// --- Push / pull ---
+
+const profilePath = (profile: string, collection: string) =>
+  `/api/profiles/${encodeURIComponent(profile)}/${encodeURIComponent(collection)}`;
+
+// Sends queued changes; they stay queued if the server cannot be reached. Returns how many were sent.
+export const pushChanges = async (profile: string): Promise<number> => {
+  const queue = readQueue(profile);
+  let sent = 0;
+  for (const name of new Set(queue.map(change => change.collection))) {
+    const batch = queue.filter(change => change.collection === name);
+    await request(profilePath(profile, name), {
+      method: 'POST',
+      body: JSON.stringify({ changes: batch.map(({ collection, ...change }) => change) })
+    });
+    // A record edited again while the request was in flight keeps its newer change
+    writeQueue(profile, readQueue(profile).filter(change => !batch.some(b => sameChange(b, change) && b.updatedAt === change.updatedAt)));
+    sent += batch.length;
+  }
+  return sent;
+};
+
+// Stores the server's PIN hash unless a newer local change is waiting. Returns the server revision.
+const pullPin = async (profile: string, since: number, pending: PendingChange[]) => {
+  const { rev, records } = await request<{ rev: number, records: RemoteRecord[] }>(`${profilePath(profile, PIN_COLLECTION)}?since=${since}`);
+  const record = records.find(r => r.id === PIN_RECORD);
+  const mine = pending.find(change => change.collection === PIN_COLLECTION);
+  if (!record || (mine && mine.updatedAt > record.updatedAt)) return rev;
+  if (record.deleted) storeProfilePinHash(profile, null);
+  else if (isPinHash(record.value)) storeProfilePinHash(profile, record.value);
+  return rev;
+};
+
+// A profile found only on the server has no PIN on this device yet; this fetches it so the PIN
+// is asked for before the profile opens. Returns whether the profile is protected.
+export const pullProfilePin = async (profile: string) => {
+  await pullPin(profile, 0, readQueue(profile));
+  return isProfileProtected(profile);
+};
+
+// Called right after a pulled field is saved, so the open app can pick up just that field
+export type PulledFieldListener = (field: ProfileField) => void;
+
+// Applies records changed on the server since the last pull. Returns true if local data changed.
+export const pullChanges = async (profile: string, onFieldPulled?: PulledFieldListener): Promise<boolean> => {
+  const state = readState(profile) || { revs: {}, lastSyncAt: null };
+  const data = loadProfile(profile);
+  const pending = readQueue(profile);
+  let changed = false;
+
+  for (const field of syncedFields) {
+    const spec = collectionOf(field);
+    const { rev, records } = await request<{ rev: number, records: RemoteRecord[] }>(
+      `${profilePath(profile, spec.name)}?since=${state.revs[spec.name] || 0}`
+    );
+    const local = spec.toRecords(data[field]);
+    let fieldChanged = false;
+    records.forEach(record => {
+      // A newer local edit wins and will reach the server with the next push
+      const mine = pending.find(change => change.collection === spec.name && change.id === record.id);
+      if (mine && mine.updatedAt > record.updatedAt) return;
+      if (record.deleted) {
+        if (record.id in local) {
+          delete local[record.id];
+          fieldChanged = true;
+        }
+      } else if (JSON.stringify(local[record.id]) !== JSON.stringify(record.value)) {
+        local[record.id] = record.value;
+        fieldChanged = true;
+      }
+    });
+    if (fieldChanged) {
+      applyingRemote = true;
+      try {
+        saveProfileField(profile, field, spec.fromRecords(local));
+      } finally {
+        applyingRemote = false;
+      }
+      onFieldPulled?.(field);
+      changed = true;
+    }
+    state.revs[spec.name] = rev;
+  }
+  state.revs[PIN_COLLECTION] = await pullPin(profile, state.revs[PIN_COLLECTION] || 0, pending);
+
+  writeState(profile, { ...state, lastSyncAt: Date.now() });
+  return changed;
+};
+
+// Push then pull. The first sync of a profile from this device offers all its records with
+// updatedAt 0, so they fill gaps on the server without overwriting anything another device wrote.
+export const syncProfile = async (profile: string, onFieldPulled?: PulledFieldListener): Promise<boolean> => {
+  if (!readState(profile)) {
+    const data = loadProfile(profile);
+    const pin = getProfilePinHash(profile);
+    enqueue(profile, [
+      ...syncedFields.flatMap(field => {
+        const spec = collectionOf(field);
+        return diffRecords(spec.name, {}, spec.toRecords(data[field]), 0);
+      }),
+      ...(pin ? [pinChange(pin, 0)] : [])
+    ]);
+  }
+  await pushChanges(profile);
+  return pullChanges(profile, onFieldPulled);
+};
+
+// Syncs once, then pushes whenever the browser comes back online. Returns a stop function.
+export const startSync = (profile: string, onFieldPulled: PulledFieldListener) => {
+  if (!isSyncEnabled()) return () => undefined;
+  let stopped = false;
+  syncProfile(profile, field => !stopped && onFieldPulled(field)).catch(() => undefined);
+  const handleOnline = () => pushChanges(profile).catch(() => undefined);
+  window.addEventListener('online', handleOnline);
+  return () => {
+    stopped = true;
+    window.removeEventListener('online', handleOnline);
+  };
+};
+
+// Drops the queue and revision marks of a deleted profile, so a new profile with the same name
+// starts with a full upload instead of inheriting them
+export const forgetSyncState = (profile: string) => {
+  clearTimeout(pushTimers[profile]);
+  localStorage.removeItem(queueKey(profile));
+  localStorage.removeItem(stateKey(profile));
+};
+
+// --- Status and server info ---
+
+export interface SyncStatus {
+  enabled: boolean;
+  pending: number;
+  lastSyncAt: number | null;
+}
+
+export const getSyncStatus = (profile: string): SyncStatus => ({
+  enabled: isSyncEnabled(),
+  pending: readQueue(profile).length,
+  lastSyncAt: readState(profile)?.lastSyncAt ?? null
+});
+
+// Resolves with null when the server answers and accepts the token, otherwise with the problem
+export const checkSyncServer = (url: string, token: string) =>
+  request<{ ok: boolean }>('/api/health', {}, normalizeUrl(url), token.trim()).then(() => null, (error: SyncError) => error);
+
+export const listRemoteProfiles = () =>
+  request<{ name: string, createdAt: number }[]>('/api/profiles');
@@ -0,0 +1,60 @@
+// Minimal-edit alignment between an expected and an actual sequence (words or characters).
+
+export type AlignmentOp<T> =
+  | { type: 'match'; expected: T; actual: T }
+  | { type: 'substitution'; expected: T; actual: T }
+  | { type: 'missing'; expected: T }  // in the expected sequence only
+  | { type: 'extra'; actual: T };     // in the actual sequence only
+
+export const alignSequences = <T>(
+  expected: T[],
+  actual: T[],
+  equals: (a: T, b: T) => boolean = (a, b) => a === b
+): AlignmentOp<T>[] => {
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+  // dist[i][j] = edit distance between expected[0..i) and actual[0..j)
+  const dist: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = equals(expected[i - 1], actual[j - 1]) ? 0 : 1;
+      dist[i][j] = Math.min(dist[i - 1][j - 1] + cost, dist[i - 1][j] + 1, dist[i][j - 1] + 1);
+    }
+  }
+
+  // Walk back from the bottom-right corner to recover the operations
+  const ops: AlignmentOp<T>[] = [];
+  let i = expected.length;
+  let j = actual.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = equals(expected[i - 1], actual[j - 1]);
+      if (dist[i][j] === dist[i - 1][j - 1] + (same ? 0 : 1)) {
+        ops.push(same
+          ? { type: 'match', expected: expected[i - 1], actual: actual[j - 1] }
+          : { type: 'substitution', expected: expected[i - 1], actual: actual[j - 1] });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && dist[i][j] === dist[i - 1][j] + 1) {
+      ops.push({ type: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'extra', actual: actual[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+};
+
+export const editDistance = (a: string, b: string) =>
+  alignSequences(a.split(''), b.split('')).filter(op => op.type !== 'match').length;
+
+// Lowercased words without surrounding punctuation, e.g. for comparing a transcript to a sentence
+export const toWords = (text: string) =>
+  text.toLowerCase().split(/\s+/).map(w => w.replace(/^[^a-z0-9']+|[^a-z0-9']+$/g, '')).filter(Boolean);
@@ -0,0 +1,62 @@
+import { WordDetails } from "./aiSchemas";
+import { AiProviderId, getAiProviderId } from "./aiProvider";
+import { getWordDetails } from "./geminiService";
+import { MISSING_TRANSLATION } from "./mockProvider";
+
+// Translations and examples fetched for flashcards, kept so they are not requested twice
+// and can be exported with the decks. Shared by all profiles: it is content, not progress.
+
+const CACHE_KEY = 'det_word_details';
+const MAX_ENTRIES = 3000;
+
+interface CachedDetails extends WordDetails {
+  provider: AiProviderId;
+  fetchedAt: number;
+}
+
+type DetailsCache = Record<string, CachedDetails>; // Keyed by lowercase word
+
+// The offline provider's stand-in for a missing translation must not end up in exports or
+// hide the word list's own translation, so it is never cached
+const isPlaceholder = (provider: AiProviderId, details: WordDetails) =>
+  provider === 'mock' && details.translation === MISSING_TRANSLATION;
+
+const readCache = (): DetailsCache => {
+  try {
+    const cache: DetailsCache = JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+    // Entries saved before placeholders were skipped
+    return Object.fromEntries(Object.entries(cache).filter(([, entry]) => !isPlaceholder(entry.provider, entry)));
+  } catch {
+    return {};
+  }
+};
+
+const writeCache = (cache: DetailsCache) => {
+  const entries = Object.entries(cache);
+  // Drop the oldest entries beyond the limit
+  const kept = entries.length > MAX_ENTRIES
+    ? entries.sort((a, b) => b[1].fetchedAt - a[1].fetchedAt).slice(0, MAX_ENTRIES)
+    : entries;
+  localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(kept)));
+};
+
+export const getCachedWordDetails = (word: string): WordDetails | null => {
+  const cached = readCache()[word.toLowerCase()];
+  return cached ? { translation: cached.translation, example: cached.example } : null;
+};
+
+export const getAllCachedWordDetails = (): Record<string, WordDetails> => readCache();
+
+// Cached answer when there is one from the current provider or from Gemini (offline content
+// never replaces a model answer), otherwise a fresh request that is then cached.
+export const fetchWordDetails = async (word: string): Promise<WordDetails> => {
+  const provider = getAiProviderId();
+  const cached = readCache()[word.toLowerCase()];
+  if (cached && (cached.provider === provider || cached.provider === 'gemini')) {
+    return { translation: cached.translation, example: cached.example };
+  }
+  const details = await getWordDetails(word);
+  if (isPlaceholder(provider, details)) return details;
+  writeCache({ ...readCache(), [word.toLowerCase()]: { ...details, provider, fetchedAt: Date.now() } });
+  return details;
+};
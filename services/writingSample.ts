@@ -0,0 +1,46 @@
+import { transitionWords } from "../data";
+import { RubricCriterion, WritingEvaluation, rubricCriteria } from "./aiSchemas";
+
+// Timing and length targets for the DET "Writing Sample" task.
+
+export const PREP_SECONDS = 30;
+export const WRITING_DURATIONS = [3, 5]; // Minutes
+export const MIN_WORDS = 50;
+export const TARGET_WORDS = 100;
+
+export const rubricLabels: Record<RubricCriterion, string> = {
+  taskCompletion: 'Task completion',
+  coherence: 'Coherence',
+  transitions: 'Transition usage',
+  lexicalRange: 'Lexical range',
+  spelling: 'Spelling & mechanics'
+};
+
+export interface ConnectorUse {
+  word: string;
+  usage: string;
+  count: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const connectorPattern = (word: string) => new RegExp(`\\b${escapeRegExp(word)}\\b`, 'gi');
+
+// Transition words from the study list that appear in the text
+export const findConnectors = (text: string): ConnectorUse[] =>
+  transitionWords
+    .map(t => ({ word: t.word, usage: t.usage, count: (text.match(connectorPattern(t.word)) || []).length }))
+    .filter(c => c.count > 0);
+
+// Splits the text so connectors can be highlighted; longer connectors are tried first
+export const splitOnConnectors = (text: string): { text: string; isConnector: boolean }[] => {
+  const words = [...transitionWords].sort((a, b) => b.word.length - a.word.length).map(t => escapeRegExp(t.word));
+  return text
+    .split(new RegExp(`\\b(${words.join('|')})\\b`, 'i'))
+    .filter(Boolean)
+    .map(part => ({ text: part, isConnector: transitionWords.some(t => t.word.toLowerCase() === part.toLowerCase()) }));
+};
+
+// Rubric total as a 0-100 score
+export const rubricPercent = (evaluation: WritingEvaluation) =>
+  Math.round(rubricCriteria.reduce((sum, key) => sum + evaluation.criteria[key].score, 0) / (rubricCriteria.length * 5) * 100);
@@ -0,0 +1,22 @@
+import type { SpellingAnalysis } from './services/spellingAnalyzer';
+import type { NewAttempt } from './services/attemptHistory';
+
+// Shared types for the practice activities
+
+export type ActivityId = 'realword' | 'photo' | 'spelling' | 'completetext' | 'readaloud' | 'listentype' | 'speakphoto' | 'interactivereading' | 'writingsample';
+
+// Reported by every game when a round is graded
+export interface ActivityResult {
+  activity: ActivityId;
+  score: number; // 0-100
+  correct?: number;
+  total?: number;
+}
+
+export type OnActivityResult = (result: ActivityResult) => void;
+
+// Reported by the spelling activities for every word the learner typed
+export type OnSpellingAnalyzed = (analysis: SpellingAnalysis) => void;
+
+// Reported by every game for each answered item, to build the attempt history
+export type OnAttempt = (attempt: NewAttempt) => void;